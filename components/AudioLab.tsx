@@ -1,12 +1,87 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { AudioStem, AudioMetadata, LyricLine } from '../types';
+import { AudioClip, AudioStem, AudioMetadata, AudioSourceInfo, AutomationParam, LoopRegion, LyricLine, Marker, MixBus, MixerRouting } from '../types';
 import { GoogleGenAI } from '@google/genai';
 import GuitarTuner from './GuitarTuner';
+import ProjectLibrary from './ProjectLibrary';
+import HistoryPanel from './HistoryPanel';
+import InsertRack from './InsertRack';
+import MixerConsole from './MixerConsole';
+import AutomationLane from './AutomationLane';
+import LoudnessMeter from './LoudnessMeter';
+import SpectrogramLane from './SpectrogramLane';
+import StereoScope from './StereoScope';
+import TakeClips from './TakeClips';
+import { AudioEngine, LoopRange } from '../services/audioEngine';
+import { stretchBuffers } from '../services/timeStretchService';
+import { Metronome, MetronomeSettings, TimeSignature, clickInterval, loadMetronomeSettings, saveMetronomeSettings } from '../services/metronome';
+import { computeWaveformPeaks } from '../services/waveformService';
+import { InputRecorder, RecordingSettings, loadRecordingSettings, saveRecordingSettings } from '../services/recorder';
+import { computeBufferSpectrogram } from '../services/spectrogramService';
+import { SeparatedStem, separateSourceStems } from '../services/separationService';
+import { AudioAnalysis, analyseAudio, analyseStructure } from '../services/analysisService';
+import { WaveformPeaks, selectPeakBars } from '../utils/waveformPeaks';
+import { Spectrogram } from '../utils/spectrogram';
+import { renderMix } from '../services/offlineRender';
+import { ChannelMix, ChannelSource } from '../services/channelStrip';
+import { MixRouting, toMixRouting } from '../services/mixGraph';
+import { MP3_MAX_SAMPLE_RATE, Mp3RateControl, encodeMp3 } from '../services/mp3Service';
+import { WavBitDepth, audioBufferToChannels, encodeWav } from '../utils/wavEncoder';
+import { buildId3v2Tag, dataUrlToBytes } from '../utils/id3';
+import { exportProjectArchive, importProjectArchive } from '../services/projectArchive';
+import { LibraryEntry, loadProject, saveProject, toAudioBuffer } from '../services/projectLibrary';
+import { PROJECT_FILE_EXTENSION, ProjectDocument, ProjectManifest } from '../utils/projectFormat';
+import { LYRIC_FILE_EXTENSIONS, LYRIC_MIME_TYPES, LyricFormat, detectLyricFormat, parseLyrics, serializeLyrics, toLyricCues } from '../utils/lyricFormats';
+import { downloadBlob, toFileSafeName } from '../utils/download';
+import { rescaleBeatGrid } from '../utils/tempoDetection';
+import { isIdentityStretch } from '../utils/timeStretch';
+import { SECTION_NAMES, createRegionId, nextSectionName, snapToBeat, toLoopRange } from '../utils/loopRegions';
+import { MARKER_COLORS, adjacentMarker, createMarkerId, nextMarkerColor, sectionColor, sortMarkers } from '../utils/markers';
+import { NO_CHORD } from '../utils/chordRecognition';
+import { eqResponseDb } from '../utils/insertEffects';
+import { createDefaultRouting } from '../utils/mixRouting';
+import { RecordedSegment, createClipId, createTakeId, cutTakeClips, flattenClips, nextTakeNumber } from '../utils/recording';
+import { AUTOMATION_RANGES, automationValueAt, setAutomationPoint, writeAutomation } from '../utils/automation';
+import {
+  LOUDNESS_TARGETS, LoudnessReading, LoudnessTarget, SILENT_LOUDNESS, createLoudnessMeterState, measureLoudness, normalizationGainDb, updateLoudnessMeter,
+} from '../utils/loudness';
+import { MusicalKey, camelotCode, describeKey, formatKey, parallelKey, parseKey, relativeKey, scaleNotes } from '../utils/musicTheory';
+import { EditHistory, canRedo, canUndo, createHistory, jumpToPosition, pushCommand, redoCommand, undoCommand } from '../utils/editHistory';
+import { MeterReading, PeakHoldState, SILENCE_DB, createPeakHoldState, dbToLinear, dbToMeterPosition, formatDb, updatePeakHold } from '../utils/metering';
 
 type LabModule = 'DAW' | 'TUNER' | 'KARAOKE' | 'GENERATOR' | 'EXPLORER';
 type PlaybackStatus = 'PLAYING' | 'PAUSED' | 'STOPPED';
 
+// The slice of session state covered by undo/redo
+interface EditableSession {
+  stems: AudioStem[];
+  soloedIds: string[];
+  metadata: AudioMetadata | null;
+  regions: LoopRegion[];
+  markers: Marker[];
+  routing: MixerRouting;
+}
+
+const EXPORT_SAMPLE_RATES = [44100, 48000, 88200, 96000];
+const TIME_SIGNATURES: TimeSignature[] = [
+  { beats: 2, unit: 4 }, { beats: 3, unit: 4 }, { beats: 4, unit: 4 }, { beats: 5, unit: 4 },
+  { beats: 6, unit: 8 }, { beats: 7, unit: 8 }, { beats: 12, unit: 8 },
+];
+const COUNT_IN_BARS = [0, 1, 2];
+const STRETCH_DEBOUNCE_MS = 400;
+const LOOP_DRAG_THRESHOLD_PX = 4; // Smaller ruler drags count as a click to seek
+const EQ_CURVE_RANGE_DB = 18; // Top and bottom of the spectrum display
+const EQ_CURVE_FREQUENCIES = Array.from({ length: 64 }, (_, i) => 32 * Math.pow(22000 / 32, i / 63)); // Spans the display's bands
+const MP3_CBR_BITRATES = [128, 192, 256, 320] as const;
+const MP3_VBR_QUALITIES = [0, 2, 4, 6];
+// Model output like "A minor" is stored in the canonical 'Am' / 'Cmaj' form
+const normaliseKey = (text: unknown, fallback: string) => {
+  const parsed = typeof text === 'string' ? parseKey(text) : null;
+  return parsed ? formatKey(parsed) : fallback;
+};
+const SEPARATED_STEM_IDS: Record<SeparatedStem, string> = { vocals: '1', other: '2', drums: '3', bass: '4' };
+const RECORDING_COLORS = ['rose-400', 'cyan-400', 'lime-400', 'orange-400'];
+
 const AudioLab: React.FC = () => {
   const [activeModule, setActiveModule] = useState<LabModule>('DAW');
   const [isProcessing, setIsProcessing] = useState(false);
@@ -16,8 +91,24 @@ const AudioLab: React.FC = () => {
   
   const [isExporting, setIsExporting] = useState(false);
   const [audioFormat, setAudioFormat] = useState<'MP3' | 'WAV'>('MP3');
+  const [wavBitDepth, setWavBitDepth] = useState<WavBitDepth>(24);
+  const [exportSampleRate, setExportSampleRate] = useState<number | null>(null); // null keeps the source rate
+  const [loudnessTargetId, setLoudnessTargetId] = useState<string | null>(null); // Master export normalization, null leaves the level alone
+  const [isDitherEnabled, setIsDitherEnabled] = useState(true);
+  const [isStretchExported, setIsStretchExported] = useState(true);
+  const [mp3RateControl, setMp3RateControl] = useState<Mp3RateControl>({ mode: 'CBR', bitrate: 320 });
+  const [coverArtUrl, setCoverArtUrl] = useState<string | null>(null);
+  const [isCoverEmbedded, setIsCoverEmbedded] = useState(false);
+  const [isGeneratingCover, setIsGeneratingCover] = useState(false);
+  const [lyricHoldSeconds, setLyricHoldSeconds] = useState(6);
   const [songFile, setSongFile] = useState<File | null>(null);
+  const [sourceInfo, setSourceInfo] = useState<AudioSourceInfo | null>(null);
+  const [waveforms, setWaveforms] = useState<Record<string, WaveformPeaks>>({});
   const [isProjectGenerated, setIsProjectGenerated] = useState(false);
+  const [libraryEntry, setLibraryEntry] = useState<LibraryEntry | null>(null); // Library project this session saves into
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0);
+  const [isSavingProject, setIsSavingProject] = useState(false);
   
   // Generator & Explorer States
   const [genGenre, setGenGenre] = useState('Cyber-Synth');
@@ -33,6 +124,10 @@ const AudioLab: React.FC = () => {
   const [playbackStatus, setPlaybackStatus] = useState<PlaybackStatus>('STOPPED');
   const [playbackProgress, setPlaybackProgress] = useState(0); // 0 to 100
   const playbackTimerRef = useRef<number | null>(null);
+  const engineRef = useRef<AudioEngine | null>(null);
+  const metronomeRef = useRef<Metronome | null>(null);
+  const [metronomeSettings, setMetronomeSettings] = useState<MetronomeSettings>(loadMetronomeSettings);
+  const trackDuration = sourceInfo?.duration || 180; // Generated projects have no audio yet
 
   const [stems, setStems] = useState<AudioStem[]>([]);
   const [soloedIds, setSoloedIds] = useState<string[]>([]);
@@ -42,69 +137,136 @@ const AudioLab: React.FC = () => {
   
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [pitch, setPitch] = useState(0);
+  const [stretchProgress, setStretchProgress] = useState<number | null>(null);
+  const stretchJobRef = useRef<{ tempo: number; semitones: number; buffers: AudioBuffer[]; controller: AbortController; promise: Promise<void> } | null>(null);
   const [isolationThreshold, setIsolationThreshold] = useState(75); // 0 to 100
   const [zoom, setZoom] = useState(1.5);
   const [metadata, setMetadata] = useState<AudioMetadata | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<EditHistory<EditableSession>>(createHistory);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [editingLyricIndex, setEditingLyricIndex] = useState<number | null>(null);
+  const [lyricDraft, setLyricDraft] = useState('');
+  const [keyDraft, setKeyDraft] = useState<string | null>(null);
+  const [regions, setRegions] = useState<LoopRegion[]>([]);
+  const [loopRange, setLoopRange] = useState<LoopRange | null>(null);
+  const [loopDrag, setLoopDrag] = useState<LoopRange | null>(null);
+  const [isLoopEnabled, setIsLoopEnabled] = useState(false);
+  const [isSnapEnabled, setIsSnapEnabled] = useState(true);
+  const [sectionType, setSectionType] = useState(SECTION_NAMES[1]);
+  const [editingRegionId, setEditingRegionId] = useState<string | null>(null);
+  const [regionDraft, setRegionDraft] = useState('');
+  const rulerRef = useRef<HTMLDivElement>(null);
+  const [markers, setMarkers] = useState<Marker[]>([]);
+  const [editingMarkerId, setEditingMarkerId] = useState<string | null>(null);
+  const [markerDraft, setMarkerDraft] = useState('');
+  const [structureProgress, setStructureProgress] = useState<number | null>(null);
+
+  const [fxStemId, setFxStemId] = useState<string | null>(null);
+  const [automationLanes, setAutomationLanes] = useState<Record<string, AutomationParam>>({}); // Stem id -> lane shown under it
+  const [automationWriteIds, setAutomationWriteIds] = useState<string[]>([]);
+  const lastWrittenRef = useRef(new Map<string, number>()); // `${stemId}:${param}` -> song time of the last point written in the current touch
+  const [routing, setRouting] = useState<MixerRouting>(createDefaultRouting);
+  const [masterReading, setMasterReading] = useState<MeterReading | null>(null);
+  const masterHoldRef = useRef<PeakHoldState>(createPeakHoldState());
+  const [loudness, setLoudness] = useState<LoudnessReading>(SILENT_LOUDNESS);
+  const loudnessRef = useRef(createLoudnessMeterState());
+  const [isEqCurveVisible, setIsEqCurveVisible] = useState(true);
+  const [isAnalysisOpen, setIsAnalysisOpen] = useState(false);
+  const [analysisSourceId, setAnalysisSourceId] = useState<string | null>(null); // Stem id, null for the master
+  const [spectrogram, setSpectrogram] = useState<Spectrogram | null>(null);
+  const [isSpectrogramBusy, setIsSpectrogramBusy] = useState(false);
+  const spectrogramCacheRef = useRef(new WeakMap<AudioBuffer, Spectrogram>()); // Stem sources only; the master changes with the mix
+  const spectrogramRequestRef = useRef(0); // Results of superseded requests are dropped
+  const recorderRef = useRef<InputRecorder | null>(null);
+  const [recordingSettings, setRecordingSettings] = useState<RecordingSettings>(loadRecordingSettings);
+  const [armedStemId, setArmedStemId] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [inputLatency, setInputLatency] = useState(0); // Seconds, as reported when the input opened
+  const takeBuffersRef = useRef(new Map<string, AudioBuffer>()); // Take id -> captured audio; clips only reference takes
+  const flattenedClipsRef = useRef(new Map<string, AudioClip[]>()); // Stem id -> clips its engine buffer was last flattened from
+  const originalBuffersRef = useRef(new Map<string, AudioBuffer>()); // Stem audio from before its first take, restored if every clip is undone
+  const recordingStartRef = useRef(0); // Context time the current take started capturing
+  const finishRecordingRef = useRef<() => void>(() => {});
 
   // Spectral Data states
-  const [peakLevels, setPeakLevels] = useState<number[]>([]);
-  const [rmsLevels, setRmsLevels] = useState<number[]>([]);
+  const [meterReadings, setMeterReadings] = useState<MeterReading[]>([]);
   const [frequencyLevels, setFrequencyLevels] = useState<number[][]>([]); // [stems][bands]
+  const peakHoldRef = useRef<Map<string, PeakHoldState>>(new Map());
 
   const timelineRef = useRef<HTMLDivElement>(null);
   const logEndRef = useRef<HTMLDivElement>(null);
   const lyricsContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const lyricsInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
-  const trackDuration = 180; // Simulated 3 minute track
   const EQ_BANDS = 12; // Increased for more detail
+  const SPECTRUM_FLOOR_DB = -90;
+  const SPECTRUM_CEIL_DB = -20;
 
-  // Simulated waveform data for each stem
+  // Min/max bars per stem at the current zoom; stems without their own audio show the source mix, unless recorded into
   const stemWaveforms = useMemo(() => {
-    return stems.map(() => Array.from({ length: 300 }, () => Math.random() * 0.7 + 0.1));
-  }, [stems.length, songFile, isProjectGenerated]);
+    const barCount = Math.round(300 * zoom);
+    return stems.map(stem => {
+      const peaks = waveforms[stem.id] || (stem.clips ? null : waveforms.mix);
+      return peaks ? selectPeakBars(peaks, barCount) : [];
+    });
+  }, [stems, waveforms, zoom]);
 
   useEffect(() => {
     logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [processingLog]);
 
-  // Peak Meter, Spectral EQ & Pitch Correction Simulation Loop
+  // SVG path (0-100 box) of the summed response of a stem's active EQ inserts, null without any EQ
+  const eqCurvePath = (stem: AudioStem) => {
+    const eqs = (stem.inserts || []).filter(e => e.type === 'eq');
+    if (!eqs.length) return null;
+    const bands = eqs.flatMap(e => e.type === 'eq' && !e.bypassed ? e.params.bands : []);
+    return eqResponseDb(bands, EQ_CURVE_FREQUENCIES)
+      .map((db, i) => {
+        const y = 50 - (Math.max(-EQ_CURVE_RANGE_DB, Math.min(EQ_CURVE_RANGE_DB, db)) / EQ_CURVE_RANGE_DB) * 50;
+        return `${i ? 'L' : 'M'}${((i / (EQ_CURVE_FREQUENCIES.length - 1)) * 100).toFixed(2)} ${y.toFixed(2)}`;
+      })
+      .join(' ');
+  };
+
+  const getPeakHold = (stemId: string) => {
+    let hold = peakHoldRef.current.get(stemId);
+    if (!hold) {
+      hold = createPeakHoldState();
+      peakHoldRef.current.set(stemId, hold);
+    }
+    return hold;
+  };
+
+  const resetClip = (stemId: string) => {
+    peakHoldRef.current.delete(stemId);
+    setMeterReadings(prev => prev.map((r, i) => stems[i]?.id === stemId ? { ...r, peakHoldDb: SILENCE_DB, clipped: false } : r));
+  };
+
+  // Peak Meter, Spectral EQ & Pitch Correction Loop - levels are read from the engine's post-fader analysers
   useEffect(() => {
     let interval: number;
     if (playbackStatus === 'PLAYING') {
       interval = window.setInterval(() => {
+        const engine = getEngine();
+        const now = performance.now();
         const newFreqLevels: number[][] = [];
-        const newRms: number[] = [];
-        
-        const newPeaks = stems.map((stem, stemIdx) => {
-          if (!isStemActive(stem)) {
-            newFreqLevels[stemIdx] = Array(EQ_BANDS).fill(0);
-            newRms[stemIdx] = 0;
-            return 0;
-          }
-          let effectiveVol = stem.volume;
-          // Apply reference volume logic for peak visualization
-          if (isVocalReference && (stem.name.toLowerCase().includes('vocal') || stem.id === '1')) {
-            effectiveVol = Math.max(15, stem.volume * 0.2);
-          }
-          
-          const rawPeak = Math.random() * (effectiveVol / 100);
-          newRms[stemIdx] = rawPeak * (0.6 + Math.random() * 0.2); // Simulated RMS is always lower than Peak
-
-          // Generate Spectral EQ bands simulation
-          newFreqLevels[stemIdx] = Array.from({ length: EQ_BANDS }, (_, bIdx) => {
-             // Basic frequency weighting simulation (bass usually higher amplitude)
-             const weighting = 1.0 - (bIdx / EQ_BANDS) * 0.4;
-             return Math.random() * (effectiveVol / 100) * weighting * (0.3 + Math.random() * 0.7);
-          });
-          
-          return rawPeak;
+
+        const newReadings = stems.map((stem, stemIdx) => {
+          const levels = engine.readChannelLevels(stem.id, EQ_BANDS);
+          newFreqLevels[stemIdx] = levels
+            ? levels.bandsDb.map(db => dbToMeterPosition(db, SPECTRUM_FLOOR_DB, SPECTRUM_CEIL_DB))
+            : Array(EQ_BANDS).fill(0);
+          return updatePeakHold(getPeakHold(stem.id), levels?.peak || 0, levels?.rms || 0, now);
         });
 
-        setPeakLevels(newPeaks);
-        setRmsLevels(newRms);
+        setMeterReadings(newReadings);
         setFrequencyLevels(newFreqLevels);
+        const master = engine.readMasterLevels();
+        setMasterReading(updatePeakHold(masterHoldRef.current, master?.truePeak || 0, master?.rms || 0, now));
+        if (master) setLoudness(updateLoudnessMeter(loudnessRef.current, master.momentaryPower, master.truePeak, now));
 
         if (isAutoTuneActive) {
           setPitchCorrectionDelta((Math.random() - 0.5) * 40); // -20 to +20 cents jitter
@@ -113,58 +275,629 @@ const AudioLab: React.FC = () => {
         }
       }, 80); // Slightly faster for smoother LED feel
     } else {
-      setPeakLevels(stems.map(() => 0));
-      setRmsLevels(stems.map(() => 0));
+      // Clip latches survive stopping; only the live levels drop out
+      setMeterReadings(stems.map(stem => {
+        const hold = peakHoldRef.current.get(stem.id);
+        return { peakDb: SILENCE_DB, rmsDb: SILENCE_DB, peakHoldDb: SILENCE_DB, clipped: !!hold?.clipped };
+      }));
       setFrequencyLevels(stems.map(() => Array(EQ_BANDS).fill(0)));
+      setMasterReading(prev => prev && { ...prev, peakDb: SILENCE_DB, rmsDb: SILENCE_DB, peakHoldDb: SILENCE_DB });
+      // Integrated loudness, range and true peak keep accumulating across pauses until reset
+      setLoudness(prev => ({ ...prev, momentary: SILENCE_DB, shortTerm: SILENCE_DB }));
       setPitchCorrectionDelta(0);
     }
     return () => clearInterval(interval);
   }, [playbackStatus, stems, soloedIds, isVocalReference, isAutoTuneActive]);
 
-  // Playback Logic
+  const getEngine = () => {
+    if (!engineRef.current) engineRef.current = new AudioEngine();
+    return engineRef.current;
+  };
+
+  const getMetronome = () => {
+    if (!metronomeRef.current) metronomeRef.current = new Metronome(getEngine());
+    return metronomeRef.current;
+  };
+
+  const getRecorder = () => {
+    if (!recorderRef.current) recorderRef.current = new InputRecorder(getEngine());
+    return recorderRef.current;
+  };
+
   useEffect(() => {
-    if (playbackStatus === 'PLAYING') {
-      const startTime = Date.now() - (playbackProgress / 100) * (trackDuration * 1000 / playbackSpeed);
-      
-      const update = () => {
-        const elapsed = Date.now() - startTime;
-        const newProgress = (elapsed / (trackDuration * 1000 / playbackSpeed)) * 100;
-        
-        if (newProgress >= 100) {
-          setPlaybackProgress(0);
-          setPlaybackStatus('STOPPED');
-        } else {
-          setPlaybackProgress(newProgress);
-          playbackTimerRef.current = requestAnimationFrame(update);
+    return () => {
+      recorderRef.current?.close();
+      recorderRef.current = null;
+      metronomeRef.current?.dispose();
+      metronomeRef.current = null;
+      engineRef.current?.dispose();
+      engineRef.current = null;
+    };
+  }, []);
+
+  const applySessionPatch = (patch: Partial<EditableSession>) => {
+    if (patch.stems) setStems(patch.stems);
+    if (patch.soloedIds) setSoloedIds(patch.soloedIds);
+    if ('metadata' in patch) setMetadata(patch.metadata ?? null);
+    if (patch.regions) setRegions(patch.regions);
+    if (patch.markers) setMarkers(patch.markers);
+    if (patch.routing) setRouting(patch.routing);
+  };
+
+  // Applies an edit and records it; edits sharing a coalesce key in quick succession merge into one step
+  const commitEdit = (label: string, after: Partial<EditableSession>, coalesceKey?: string) => {
+    const current: EditableSession = { stems, soloedIds, metadata, regions, markers, routing };
+    const before = Object.fromEntries(Object.keys(after).map(key => [key, current[key as keyof EditableSession]])) as Partial<EditableSession>;
+    applySessionPatch(after);
+    setHistory(prev => pushCommand(prev, { label, before, after, coalesceKey, timestamp: Date.now() }));
+  };
+
+  const travelHistory = (result: ReturnType<typeof jumpToPosition<EditableSession>>) => {
+    if (!result) return;
+    applySessionPatch(result.patch);
+    setHistory(result.history);
+  };
+
+  const updateStem = (stemId: string, changes: Partial<AudioStem>, label: string, coalesceKey?: string) =>
+    commitEdit(label, { stems: stems.map(s => s.id === stemId ? { ...s, ...changes } : s) }, coalesceKey);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      const isTextField = target.isContentEditable || target.tagName === 'TEXTAREA' ||
+        (target.tagName === 'INPUT' && !['range', 'checkbox', 'radio', 'button'].includes((target as HTMLInputElement).type));
+      if (isTextField) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        travelHistory(undoCommand(history));
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        travelHistory(redoCommand(history));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
+
+  // Sessions without decoded source audio (generated or restored) start from an empty graph
+  const resetSourceAudio = () => {
+    const engine = getEngine();
+    engine.stop();
+    engine.clearBuffers();
+    setLoopRange(null);
+    setIsLoopEnabled(false);
+    setPlaybackStatus('STOPPED');
+    setPlaybackProgress(0);
+    setWaveforms({});
+    setSpectrogram(null);
+    takeBuffersRef.current.clear();
+    flattenedClipsRef.current.clear();
+    originalBuffersRef.current.clear();
+  };
+
+  const updateWaveform = (key: string, buffer: AudioBuffer) => {
+    computeWaveformPeaks(buffer)
+      .then(peaks => setWaveforms(prev => ({ ...prev, [key]: peaks })))
+      .catch(err => console.error("Peak analysis failed", err));
+  };
+
+  // Stems are analysed from the buffers they play; the master is rendered through the current mix first
+  const analyseSpectrogram = async (sourceId: string | null) => {
+    if (!sourceInfo) return;
+    const request = ++spectrogramRequestRef.current;
+    const engine = getEngine();
+    setIsSpectrogramBusy(true);
+    try {
+      const { mix, sources, routing } = engine.getRenderSources();
+      let result: Spectrogram | null = null;
+      if (sourceId === null) {
+        const rendered = await renderMix(mix, sources, { sampleRate: sourceInfo.sampleRate, duration: trackDuration, routing });
+        result = await computeBufferSpectrogram(rendered);
+      } else {
+        const buffer = sources.find(src => src.id === sourceId)?.buffer;
+        if (buffer) {
+          result = spectrogramCacheRef.current.get(buffer) || await computeBufferSpectrogram(buffer);
+          spectrogramCacheRef.current.set(buffer, result);
         }
-      };
-      
-      playbackTimerRef.current = requestAnimationFrame(update);
-    } else {
-      if (playbackTimerRef.current) cancelAnimationFrame(playbackTimerRef.current);
+      }
+      if (request === spectrogramRequestRef.current) setSpectrogram(result);
+    } catch (err) {
+      console.error("Spectrogram analysis failed", err);
+      alert("Spectrogram analysis failed.");
+    } finally {
+      if (request === spectrogramRequestRef.current) setIsSpectrogramBusy(false);
+    }
+  };
+
+  const selectAnalysisSource = (sourceId: string | null) => {
+    setAnalysisSourceId(sourceId);
+    setSpectrogram(null);
+    spectrogramRequestRef.current++;
+    setIsSpectrogramBusy(false);
+    if (sourceId !== null) analyseSpectrogram(sourceId);
+  };
+
+  const loadSourceAudio = async (file: File) => {
+    const engine = getEngine();
+    const buffer = await engine.decode(file);
+    engine.setSourceMix(buffer);
+    setSourceInfo({
+      fileName: file.name,
+      duration: buffer.duration,
+      sampleRate: buffer.sampleRate,
+      channelCount: buffer.numberOfChannels,
+    });
+    setSongFile(file);
+    setProcessingLog(prev => [...prev, `[DECODE] ${file.name}: ${buffer.duration.toFixed(2)}s @ ${buffer.sampleRate}Hz, ${buffer.numberOfChannels}ch`]);
+    updateWaveform('mix', buffer);
+    return buffer;
+  };
+
+  const handleSongUpload = async (file: File) => {
+    if (file.name.toLowerCase().endsWith(`.${PROJECT_FILE_EXTENSION}`)) return handleImportProjectArchive(file);
+    resetSourceAudio();
+    setLibraryEntry(null);
+    setError(null);
+    setIsProcessing(true);
+    setProcessingProgress(0);
+    setProcessingStatus('DECODING_SOURCE');
+    try {
+      const buffer = await loadSourceAudio(file);
+      await separateSource(buffer);
+      finishProcessing(await analyseSource(buffer));
+    } catch (err) {
+      console.error("Decode failed", err);
+      setError(`Unable to decode "${file.name}". Try a WAV, MP3, OGG or FLAC file.`);
+      setIsProcessing(false);
+    }
+  };
+
+  // Mirror mixer state into the playback graph
+  useEffect(() => {
+    getEngine().setMix(stems.map(stem => ({
+      id: stem.id,
+      gain: getEffectiveVolume(stem) / 100,
+      pan: (stem.pan || 0) / 100,
+      audible: isVocalReference && isVocalStem(stem) ? true : isStemActive(stem),
+      inserts: stem.inserts,
+      automation: isVocalReference && isVocalStem(stem) ? undefined : stem.automation,
+      busId: stem.busId,
+      sends: Object.fromEntries(Object.entries<number>(stem.sends || {}).map(([id, level]) => [id, level / 100])),
+      ownsAudio: !!stem.clips,
+    })));
+  }, [stems, soloedIds, isVocalReference]);
+
+  // A recorded stem plays its clips flattened onto one buffer, rebuilt whenever they change (undo included)
+  useEffect(() => {
+    const engine = getEngine();
+    const ctx = engine.getContext();
+    const flattened = flattenedClipsRef.current;
+    for (const stem of stems) {
+      if (flattened.get(stem.id) === stem.clips) continue;
+      if (!stem.clips) {
+        if (!flattened.has(stem.id)) continue;
+        flattened.delete(stem.id);
+        const original = originalBuffersRef.current.get(stem.id) || null;
+        engine.setStemBuffer(stem.id, original);
+        if (original) updateWaveform(stem.id, original);
+        else setWaveforms(({ [stem.id]: _, ...rest }) => rest);
+        continue;
+      }
+      flattened.set(stem.id, stem.clips);
+      const takes = new Map([...takeBuffersRef.current].map(([id, buffer]) => [id, { sampleRate: buffer.sampleRate, channels: audioBufferToChannels(buffer) }] as const));
+      const channels = flattenClips(stem.clips, takes, ctx.sampleRate);
+      if (!channels) {
+        engine.setStemBuffer(stem.id, null);
+        setWaveforms(({ [stem.id]: _, ...rest }) => rest);
+        continue;
+      }
+      const buffer = ctx.createBuffer(channels.length, channels[0].length, ctx.sampleRate);
+      channels.forEach((data, c) => buffer.copyToChannel(data, c));
+      engine.setStemBuffer(stem.id, buffer);
+      updateWaveform(stem.id, buffer);
+    }
+  }, [stems]);
+
+  useEffect(() => {
+    saveRecordingSettings(recordingSettings);
+  }, [recordingSettings]);
+
+  const updateRecordingSettings = (updates: Partial<RecordingSettings>) => {
+    setRecordingSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  // The armed stem hears the live input through its own strip; channel strips are rebuilt with the stem list
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    if (!recorder?.isOpen()) return;
+    recorder.setMonitor(armedStemId && recordingSettings.monitoring ? getEngine().getChannelInput(armedStemId) : null);
+  }, [armedStemId, recordingSettings.monitoring, stems]);
+
+  useEffect(() => {
+    getEngine().setRouting(toMixRouting(routing));
+  }, [routing]);
+
+  /**
+   * Slider moves on an automated (or write-armed) stem go into its lane: while playing with
+   * Write armed they are recorded touch-style, otherwise they set a point at the playhead.
+   */
+  const writeStemAutomation = (stem: AudioStem, param: AutomationParam, value: number) => {
+    const engine = getEngine();
+    const time = engine.getCurrentTime();
+    const key = `${stem.id}:${param}`;
+    const points = stem.automation?.[param] || [];
+    const point = { time, value, curve: 'linear' as const };
+    let next = setAutomationPoint(points, point);
+    if (engine.isPlaying() && automationWriteIds.includes(stem.id)) {
+      const previous = lastWrittenRef.current.get(key);
+      // A loop wrap mid-touch starts a new stretch
+      next = writeAutomation(points, previous !== undefined && previous <= time ? previous : null, point);
+      lastWrittenRef.current.set(key, time);
+    }
+    updateStem(stem.id, { automation: { ...stem.automation, [param]: next } }, `Write ${stem.name} ${AUTOMATION_RANGES[param].label}`, `automation-write:${key}`);
+  };
+
+  const isAutomated = (stem: AudioStem, param: AutomationParam) => !!stem.automation?.[param]?.length || automationWriteIds.includes(stem.id);
+
+  // Stems on a deleted bus fall back to the master
+  const deleteBus = (bus: MixBus) => commitEdit(`Delete ${bus.name}`, {
+    routing: { ...routing, buses: routing.buses.filter(b => b.id !== bus.id) },
+    stems: stems.map(s => s.busId === bus.id ? { ...s, busId: undefined } : s),
+  });
+
+  useEffect(() => {
+    getEngine().setPlaybackRate(playbackSpeed);
+  }, [playbackSpeed]);
+
+  // Renders tempo/pitch-shifted copies of the playback buffers; resolves once the engine has them
+  const ensureTimeStretch = (): Promise<void> => {
+    const engine = getEngine();
+    if (isIdentityStretch(playbackSpeed, pitch)) {
+      stretchJobRef.current?.controller.abort();
+      engine.setTimeStretch(null);
+      return Promise.resolve();
+    }
+    if (engine.hasTimeStretch(playbackSpeed, pitch)) return Promise.resolve();
+
+    const buffers = engine.getPlaybackBuffers();
+    const running = stretchJobRef.current;
+    if (running && running.tempo === playbackSpeed && running.semitones === pitch
+      && running.buffers.length === buffers.length && running.buffers.every((b, i) => b === buffers[i])) {
+      return running.promise;
+    }
+    running?.controller.abort();
+    if (!buffers.length) return Promise.resolve();
+
+    const settings = { tempo: playbackSpeed, semitones: pitch };
+    const controller = new AbortController();
+    setStretchProgress(0);
+    const promise = stretchBuffers(engine.getContext(), buffers, settings, setStretchProgress, controller.signal)
+      .then(stretched => {
+        engine.setTimeStretch({ ...settings, buffers: stretched });
+        setProcessingLog(prev => [...prev, `[STRETCH] ${Math.round(settings.tempo * 100)}% speed, ${settings.semitones > 0 ? '+' : ''}${settings.semitones} st`]);
+      })
+      .catch(err => {
+        if (err?.name !== 'AbortError') console.error("Time stretch failed", err);
+      })
+      .finally(() => {
+        if (stretchJobRef.current?.controller !== controller) return;
+        stretchJobRef.current = null;
+        setStretchProgress(null);
+      });
+    stretchJobRef.current = { ...settings, buffers, controller, promise };
+    return promise;
+  };
+
+  // Until the stretched buffers are ready, speed changes play as varispeed
+  useEffect(() => {
+    const timer = window.setTimeout(ensureTimeStretch, STRETCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [playbackSpeed, pitch, waveforms, stems.length]);
+
+  // Click and snapping follow the detected grid: tempo from the metadata, bar 1 on the first downbeat
+  const beatGridOffset = metadata?.beatGrid?.downbeats[0] ?? metadata?.beatGrid?.beats[0] ?? 0;
+  useEffect(() => {
+    getMetronome().setTempo(metadata?.bpm || 120, beatGridOffset);
+  }, [metadata?.bpm, beatGridOffset]);
+
+  useEffect(() => {
+    const metronome = getMetronome();
+    metronome.setTimeSignature(metronomeSettings.timeSignature);
+    metronome.setEnabled(metronomeSettings.enabled);
+    metronome.setLevel(metronomeSettings.volume, metronomeSettings.muted);
+    saveMetronomeSettings(metronomeSettings);
+  }, [metronomeSettings]);
+
+  const updateMetronome = (updates: Partial<MetronomeSettings>) => {
+    setMetronomeSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  useEffect(() => {
+    getEngine().setLoop(isLoopEnabled ? loopRange : null);
+  }, [isLoopEnabled, loopRange]);
+
+  const rulerTimeAt = (clientX: number) => {
+    const rect = rulerRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(trackDuration, ((clientX - rect.left) / rect.width) * trackDuration));
+  };
+
+  const snapTime = (time: number) => (isSnapEnabled && metadata ? snapToBeat(time, metadata.bpm, beatGridOffset) : time);
+
+  // Dragging on the ruler selects a loop; a plain click seeks
+  const handleRulerMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isProcessing || e.button !== 0 || !rulerRef.current) return;
+    const startX = e.clientX;
+    const anchor = snapTime(rulerTimeAt(e.clientX));
+    let dragged = false;
+
+    const handleMove = (ev: MouseEvent) => {
+      if (!dragged && Math.abs(ev.clientX - startX) < LOOP_DRAG_THRESHOLD_PX) return;
+      dragged = true;
+      const time = snapTime(rulerTimeAt(ev.clientX));
+      setLoopDrag({ start: Math.min(anchor, time), end: Math.max(anchor, time) });
+    };
+    const handleUp = (ev: MouseEvent) => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setLoopDrag(null);
+      if (!dragged) {
+        jumpToTime(rulerTimeAt(ev.clientX));
+        return;
+      }
+      const range = toLoopRange(anchor, snapTime(rulerTimeAt(ev.clientX)), trackDuration);
+      if (range) {
+        setLoopRange(range);
+        setIsLoopEnabled(true);
+      }
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const loopRegion = (region: LoopRegion) => {
+    setLoopRange({ start: region.start, end: region.end });
+    setIsLoopEnabled(true);
+    jumpToTime(region.start);
+  };
+
+  const addRegion = () => {
+    if (!loopRange) return;
+    const region: LoopRegion = { id: createRegionId(), name: nextSectionName(regions, sectionType), ...loopRange };
+    commitEdit(`Add Section ${region.name}`, { regions: [...regions, region].sort((a, b) => a.start - b.start) });
+  };
+
+  const commitRegionRename = (region: LoopRegion) => {
+    const name = regionDraft.trim();
+    setEditingRegionId(null);
+    if (!name || name === region.name) return;
+    commitEdit(`Rename Section ${region.name}`, { regions: regions.map(r => r.id === region.id ? { ...r, name } : r) });
+  };
+
+  const addMarker = (time: number) => {
+    const marker: Marker = {
+      id: createMarkerId(),
+      name: `Marker ${markers.length + 1}`,
+      time,
+      color: MARKER_COLORS[markers.length % MARKER_COLORS.length],
+    };
+    commitEdit(`Add ${marker.name}`, { markers: sortMarkers([...markers, marker]) });
+  };
+
+  const updateMarker = (id: string, changes: Partial<Marker>, label: string) =>
+    commitEdit(label, { markers: sortMarkers(markers.map(m => m.id === id ? { ...m, ...changes } : m)) });
+
+  const commitMarkerRename = (marker: Marker) => {
+    const name = markerDraft.trim();
+    setEditingMarkerId(null);
+    if (name && name !== marker.name) updateMarker(marker.id, { name }, `Rename ${marker.name}`);
+  };
+
+  const jumpToMarker = (direction: 1 | -1) => {
+    const marker = adjacentMarker(markers, getEngine().getCurrentTime(), direction);
+    if (marker) jumpToTime(marker.time);
+  };
+
+  // Proposed section starts become markers; user markers away from them are kept
+  const handleDetectStructure = async () => {
+    const buffer = getEngine().getSourceMix();
+    if (!buffer || structureProgress !== null) return;
+    setStructureProgress(0);
+    try {
+      const sections = await analyseStructure(buffer, metadata?.beatGrid?.downbeats, setStructureProgress);
+      const detected = sections.map(section => ({ id: createMarkerId(), name: section.label, time: section.start, color: sectionColor(section.label) }));
+      const kept = markers.filter(m => detected.every(d => Math.abs(d.time - m.time) > 1));
+      commitEdit('Detect Structure', { markers: sortMarkers([...kept, ...detected]) });
+      setProcessingLog(prev => [...prev, `[STRUCTURE] ${sections.map(s => s.label).join(' / ')}`]);
+    } catch (err) {
+      console.error("Structure detection failed", err);
+      alert("Structure detection failed.");
+    } finally {
+      setStructureProgress(null);
     }
-    
+  };
+
+  // [ and ] step between markers, M drops one at the playhead
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || activeModule !== 'DAW') return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (e.key === '[') jumpToMarker(-1);
+      else if (e.key === ']') jumpToMarker(1);
+      else if (e.key.toLowerCase() === 'm') addMarker(getEngine().getCurrentTime());
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [markers, activeModule]);
+
+  const metronomeBeatSeconds = clickInterval(metadata?.bpm || 120, metronomeSettings.timeSignature);
+  const metronomeBarSeconds = metronomeBeatSeconds * metronomeSettings.timeSignature.beats;
+  const metronomeBeatIndex = Math.floor(((playbackProgress / 100) * trackDuration - beatGridOffset) / metronomeBeatSeconds + 1e-6);
+  const metronomeBar = Math.floor(metronomeBeatIndex / metronomeSettings.timeSignature.beats) + 1;
+  const metronomeBeat = metronomeBeatIndex - (metronomeBar - 1) * metronomeSettings.timeSignature.beats + 1;
+
+  // Playback Logic - the engine clock drives the timeline
+  useEffect(() => {
+    if (playbackStatus !== 'PLAYING') return;
+    const engine = getEngine();
+
+    const update = () => {
+      const time = engine.getCurrentTime();
+      const duration = engine.getDuration();
+      if (time >= duration) {
+        finishRecordingRef.current();
+        engine.stop();
+        setPlaybackProgress(0);
+        setPlaybackStatus('STOPPED');
+        return;
+      }
+      setPlaybackProgress((time / duration) * 100);
+      playbackTimerRef.current = requestAnimationFrame(update);
+    };
+
+    playbackTimerRef.current = requestAnimationFrame(update);
     return () => {
       if (playbackTimerRef.current) cancelAnimationFrame(playbackTimerRef.current);
     };
-  }, [playbackStatus, playbackSpeed, playbackProgress]);
+  }, [playbackStatus]);
 
-  const togglePlayback = () => {
-    setPlaybackStatus(prev => prev === 'PLAYING' ? 'PAUSED' : 'PLAYING');
+  const togglePlayback = async () => {
+    const engine = getEngine();
+    if (playbackStatus === 'PLAYING') {
+      finishRecording();
+      engine.pause();
+      getMetronome().cancelPending();
+      setPlaybackStatus('PAUSED');
+    } else {
+      const { countInBars } = metronomeSettings;
+      const metronome = getMetronome();
+      const countIn = countInBars > 0 ? metronome.countInDuration(countInBars, playbackSpeed) : 0;
+      const startTime = await engine.play(countIn);
+      if (countIn > 0) metronome.scheduleCountIn(startTime, countInBars, playbackSpeed);
+      setPlaybackStatus('PLAYING');
+    }
   };
 
   const stopPlayback = () => {
+    finishRecording();
+    getMetronome().cancelPending();
+    getEngine().stop();
     setPlaybackStatus('STOPPED');
     setPlaybackProgress(0);
   };
 
   const jumpToTime = (time: number) => {
     if (isProcessing) return;
-    const newProgress = (time / trackDuration) * 100;
-    setPlaybackProgress(Math.max(0, Math.min(100, newProgress)));
+    const clamped = Math.max(0, Math.min(trackDuration, time));
+    finishRecording();
+    getEngine().seek(clamped);
+    setPlaybackProgress((clamped / trackDuration) * 100);
     if (playbackStatus === 'STOPPED') setPlaybackStatus('PAUSED');
   };
 
+  // One stem is armed at a time; arming opens the input so monitoring and latency are ready before the take
+  const toggleArm = async (stemId: string) => {
+    if (isRecording) return;
+    const recorder = getRecorder();
+    if (armedStemId === stemId) {
+      setArmedStemId(null);
+      recorder.close();
+      return;
+    }
+    try {
+      await recorder.open();
+      setInputLatency(recorder.reportedLatency());
+      setArmedStemId(stemId);
+    } catch (err) {
+      console.error("Input unavailable", err);
+      alert("Recording needs microphone access. Allow it for this page and try again.");
+    }
+  };
+
+  const addRecordingTrack = async () => {
+    const count = stems.filter(s => s.clips).length;
+    const stem: AudioStem = {
+      id: String(Math.max(0, ...stems.map(s => parseInt(s.id) || 0)) + 1),
+      name: `Recording ${count + 1}`,
+      volume: 80,
+      pan: 0,
+      muted: false,
+      color: RECORDING_COLORS[count % RECORDING_COLORS.length],
+      clips: [],
+    };
+    commitEdit(`Add ${stem.name}`, { stems: [...stems, stem] });
+    await toggleArm(stem.id);
+  };
+
+  // Capture runs alongside playback; takes are placed once it stops, so latency can be compensated
+  const startRecording = async () => {
+    const recorder = recorderRef.current;
+    if (isRecording || !armedStemId || !recorder?.isOpen()) return;
+    if (playbackSpeed !== 1) {
+      alert("Set the playback speed back to 100% to record in sync.");
+      return;
+    }
+    recordingStartRef.current = getEngine().getContext().currentTime;
+    recorder.start();
+    setIsRecording(true);
+    if (playbackStatus !== 'PLAYING') await togglePlayback();
+  };
+
+  // Places a stopped take as clips on the armed stem, cut along the transport segments it was recorded over
+  const placeTake = async (recorder: InputRecorder, segments: RecordedSegment[], duration: number) => {
+    const engine = getEngine();
+    const captured = await recorder.stop();
+    const stem = stems.find(s => s.id === armedStemId);
+    if (!captured?.channels[0]?.length || !stem) return;
+
+    const take = { id: createTakeId(), ...captured };
+    const latency = recorder.reportedLatency() + recordingSettings.latencyOffsetMs / 1000;
+    const punch = recordingSettings.punch ? loopRange : null;
+    const clips = cutTakeClips(take, segments, latency, duration, punch, nextTakeNumber(stem.clips));
+    if (!clips.length) {
+      setProcessingLog(prev => [...prev, `[RECORD] Nothing captured${punch ? ' inside the punch range' : ''}.`]);
+      return;
+    }
+    const ctx = engine.getContext();
+    const buffer = ctx.createBuffer(take.channels.length, take.channels[0].length, take.sampleRate);
+    take.channels.forEach((data, c) => buffer.copyToChannel(data, c));
+    takeBuffersRef.current.set(take.id, buffer);
+
+    // The first take on a stem with audio of its own keeps that audio as a clip underneath
+    let existing = stem.clips || [];
+    const own = engine.getStemBuffers().get(stem.id);
+    if (!stem.clips && own) {
+      const baseId = createTakeId();
+      takeBuffersRef.current.set(baseId, own);
+      originalBuffersRef.current.set(stem.id, own);
+      existing = [{ id: createClipId(), name: 'Stem Audio', takeId: baseId, start: 0, end: own.duration, offset: 0 }];
+    }
+    updateStem(stem.id, { clips: [...existing, ...clips] }, `Record ${stem.name}`);
+    setProcessingLog(prev => [...prev, `[RECORD] ${stem.name}: ${clips.map(c => `${c.name} ${c.start.toFixed(2)}-${c.end.toFixed(2)}s`).join(', ')} (latency ${Math.round(latency * 1000)} ms)`]);
+  };
+
+  // Reads the transport synchronously, so callers can pause or seek straight after; the take is placed once capture stops
+  const finishRecording = () => {
+    const recorder = recorderRef.current;
+    if (!isRecording || !recorder) return;
+    setIsRecording(false);
+    const engine = getEngine();
+    const now = engine.getContext().currentTime;
+    const segments = engine.getTransportSegments(recordingStartRef.current, now)
+      .map(segment => ({ ...segment, contextEnd: Math.min(segment.contextEnd, now) }));
+    placeTake(recorder, segments, engine.getDuration()).catch(err => {
+      console.error("Recording failed", err);
+      setProcessingLog(prev => [...prev, `[RECORD] Take lost: ${err instanceof Error ? err.message : 'unknown error'}`]);
+    });
+  };
+  finishRecordingRef.current = finishRecording;
+
   const handleTimelineSeek = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!timelineRef.current || isProcessing) return;
     const rect = timelineRef.current.getBoundingClientRect();
@@ -174,40 +907,154 @@ const AudioLab: React.FC = () => {
     jumpToTime((seekPercentage / 100) * trackDuration);
   };
 
-  const saveProjectToLocal = () => {
-    if (!songFile) return;
-    const projectState = {
-      stems,
-      soloedIds,
-      metadata,
-      playbackSpeed,
-      pitch,
-      isolationThreshold,
-      isProjectGenerated,
-      songFileName: songFile.name,
-      timestamp: Date.now()
-    };
-    localStorage.setItem('vs_project_cache', JSON.stringify(projectState));
-    setProcessingLog(prev => [...prev, `[STORAGE] State captured to local node.`]);
-  };
-
-  const loadProjectFromLocal = () => {
-    const saved = localStorage.getItem('vs_project_cache');
-    if (saved) {
-      try {
-        const state = JSON.parse(saved);
-        setStems(state.stems.map((s: any) => ({ ...s, pan: s.pan ?? 0 })));
-        setSoloedIds(state.soloedIds || []);
-        setMetadata(state.metadata);
-        setPlaybackSpeed(state.playbackSpeed);
-        setPitch(state.pitch);
-        setIsolationThreshold(state.isolationThreshold);
-        setIsProjectGenerated(state.isProjectGenerated);
-        setSongFile({ name: state.songFileName } as File);
-        setActiveModule('DAW');
-      } catch (err) {
-        console.error("Restore failed", err);
-      }
+  const buildProjectDocument = (): ProjectDocument => ({
+    name: libraryEntry?.name || songFile?.name.replace(/\.[^/.]+$/, '') || 'Untitled',
+    source: sourceInfo ? { ...sourceInfo, path: '', mimeType: songFile?.type || '' } : null,
+    stems,
+    soloedIds,
+    metadata,
+    regions,
+    markers,
+    routing,
+    playbackSpeed,
+    pitch,
+    isolationThreshold,
+    isProjectGenerated,
+  });
+
+  // Rebuilds the session from a migrated manifest and whatever audio came with it
+  const applyProject = async (
+    manifest: ProjectManifest,
+    sourceFile: File | null,
+    stemBuffers: Map<string, AudioBuffer>,
+    takeBuffers: Map<string, AudioBuffer>
+  ) => {
+    resetSourceAudio();
+    takeBuffersRef.current = takeBuffers;
+    setStems(manifest.stems.map(({ audioPath, ...stem }) => ({ ...stem, pan: stem.pan ?? 0 })));
+    setSoloedIds(manifest.soloedIds);
+    setMetadata(manifest.metadata);
+    setRegions(manifest.regions);
+    setMarkers(manifest.markers);
+    setRouting(manifest.routing);
+    setHistory(createHistory());
+    setPlaybackSpeed(manifest.playbackSpeed);
+    setPitch(manifest.pitch);
+    setIsolationThreshold(manifest.isolationThreshold);
+    setIsProjectGenerated(manifest.isProjectGenerated);
+    setSourceInfo(manifest.source ? {
+      fileName: manifest.source.fileName,
+      duration: manifest.source.duration,
+      sampleRate: manifest.source.sampleRate,
+      channelCount: manifest.source.channelCount,
+    } : null);
+    setActiveModule('DAW');
+
+    if (sourceFile) await loadSourceAudio(sourceFile);
+    else setSongFile({ name: `${manifest.name}.${PROJECT_FILE_EXTENSION}` } as File);
+
+    const engine = getEngine();
+    for (const [stemId, buffer] of stemBuffers) {
+      engine.setStemBuffer(stemId, buffer);
+      updateWaveform(stemId, buffer);
+    }
+  };
+
+  // Recorded stems are saved as their takes; the flattened buffers are rebuilt on load
+  const getSavedStemBuffers = () => {
+    const buffers = getEngine().getStemBuffers();
+    for (const stem of stems) if (stem.clips) buffers.delete(stem.id);
+    return buffers;
+  };
+
+  const saveProjectToLibrary = async () => {
+    if (!songFile || isSavingProject) return;
+    setIsSavingProject(true);
+    try {
+      const entry = await saveProject({
+        id: libraryEntry?.id,
+        document: buildProjectDocument(),
+        coverArt: coverArtUrl,
+        sourceFile: songFile instanceof File ? songFile : null,
+        stemBuffers: getSavedStemBuffers(),
+        takeBuffers: takeBuffersRef.current,
+      });
+      setLibraryEntry(entry);
+      setLibraryRefreshKey(k => k + 1);
+      setProcessingLog(prev => [...prev, `[STORAGE] "${entry.name}" saved to library.`]);
+    } catch (err: any) {
+      console.error("Library save failed", err);
+      alert(err?.name === 'QuotaExceededError'
+        ? "Browser storage is full. Delete sessions from the library or export this one as a .vsonic file."
+        : "Library save failed.");
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
+
+  const openLibraryProject = async (id: string) => {
+    setIsLibraryOpen(false);
+    setError(null);
+    setIsProcessing(true);
+    setProcessingProgress(0);
+    setProcessingStatus('RESTORING_SESSION');
+    try {
+      const project = await loadProject(id);
+      const ctx = getEngine().getContext();
+      const stemBuffers = new Map([...project.stemAudio].map(([stemId, audio]) => [stemId, toAudioBuffer(ctx, audio)] as const));
+      const takeBuffers = new Map([...project.takeAudio].map(([takeId, audio]) => [takeId, toAudioBuffer(ctx, audio)] as const));
+      await applyProject(project.manifest, project.sourceFile, stemBuffers, takeBuffers);
+      setCoverArtUrl(project.coverArt);
+      setLibraryEntry(project.entry);
+      setProcessingLog(prev => [...prev, `[STORAGE] "${project.entry.name}" restored from library.`]);
+    } catch (err) {
+      console.error("Restore failed", err);
+      setError("Unable to restore this session from the library.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleExportProjectArchive = async () => {
+    if (!songFile || isExporting) return;
+    setIsExporting(true);
+    setProcessingProgress(0);
+    setProcessingStatus('PACKING_SESSION_ARCHIVE');
+    try {
+      const document = buildProjectDocument();
+      const blob = await exportProjectArchive(document, songFile instanceof File ? songFile : null, getSavedStemBuffers(), takeBuffersRef.current);
+      setProcessingProgress(100);
+      downloadBlob(blob, `${toFileSafeName(document.name)}.${PROJECT_FILE_EXTENSION}`);
+      setProcessingLog(prev => [...prev, `[ARCHIVE] Session packed (${(blob.size / 1048576).toFixed(1)} MB).`]);
+    } catch (err) {
+      console.error("Session export failed", err);
+      alert("Session export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportProjectArchive = async (file: File) => {
+    setError(null);
+    setIsProcessing(true);
+    setProcessingProgress(0);
+    setProcessingStatus('UNPACKING_SESSION_ARCHIVE');
+    try {
+      const { manifest, sourceFile, stemAudio, takeAudio } = await importProjectArchive(file);
+      const engine = getEngine();
+      const stemBuffers = new Map<string, AudioBuffer>();
+      for (const [stemId, blob] of stemAudio) stemBuffers.set(stemId, await engine.decode(blob));
+      const takeBuffers = new Map<string, AudioBuffer>();
+      for (const [takeId, blob] of takeAudio) takeBuffers.set(takeId, await engine.decode(blob));
+      await applyProject(manifest, sourceFile, stemBuffers, takeBuffers);
+      setLibraryEntry(null);
+      setProcessingLog(prev => [...prev, `[ARCHIVE] ${file.name} restored.`]);
+    } catch (err: any) {
+      console.error("Session import failed", err);
+      setError(err?.message || `Unable to open "${file.name}".`);
+      alert(`Unable to open "${file.name}": ${err?.message || 'unknown error'}`);
+    } finally {
+      setIsProcessing(false);
     }
   };
 
@@ -220,13 +1067,15 @@ const AudioLab: React.FC = () => {
       const prompt = `Neural Remix Engineer: Remap "${metadata.lyrics?.map(l => l.text).join(' ')}" to ${remapGenre}/${remapMood}. Return JSON: { "newBpm": number, "newKey": string, "newStems": string[] }.`;
       const response = await ai.models.generateContent({ model: 'gemini-3-flash-preview', contents: prompt, config: { responseMimeType: "application/json" } });
       const data = JSON.parse(response.text || '{}');
-      setMetadata(prev => prev ? ({ ...prev, bpm: data.newBpm || prev.bpm, key: data.newKey || prev.key }) : null);
       const newStems: AudioStem[] = [
         stems.find(s => s.name.includes('Vocals')) || stems[0],
         ...(data.newStems || []).map((name: string, i: number) => ({ id: (i + 2).toString(), name, volume: 80, pan: 0, muted: false, color: ['blue-400', 'amber-400', 'purple-400'][i % 3] }))
       ];
-      setStems(newStems);
-      setSoloedIds([]);
+      commitEdit(`Remap to ${remapGenre}`, {
+        stems: newStems,
+        soloedIds: [],
+        metadata: { ...metadata, bpm: data.newBpm || metadata.bpm, key: normaliseKey(data.newKey, metadata.key), keyConfidence: undefined },
+      });
       setActiveModule('DAW');
     } catch (err) { console.error(err); } finally { setIsRemapping(false); }
   };
@@ -243,7 +1092,7 @@ const AudioLab: React.FC = () => {
       });
       const data = JSON.parse(response.text || '{}');
       setMetadata({
-        bpm: data.bpm || 120, key: data.key || 'Cmaj', chords: ['C', 'G', 'Am', 'F'],
+        bpm: data.bpm || 120, key: normaliseKey(data.key, 'Cmaj'), chords: ['C', 'G', 'Am', 'F'],
         lyrics: (data.lyrics || []).map((text: string, i: number) => ({ time: i * 8 + 4, text }))
       });
       const instrumentList = genInstruments.split(',').map(s => s.trim());
@@ -254,29 +1103,104 @@ const AudioLab: React.FC = () => {
         { id: '4', name: instrumentList[2] || 'Sub Bass', volume: 75, pan: 0, muted: false, color: 'purple-400' },
       ]);
       setSoloedIds([]);
+      setRegions([]);
+      setMarkers([]);
+      setRouting(createDefaultRouting());
+      setAutomationWriteIds([]);
+      resetLoudness();
+      setHistory(createHistory());
       setIsProjectGenerated(true);
+      setLibraryEntry(null);
+      resetSourceAudio();
+      setSourceInfo(null);
       setSongFile({ name: `${data.title || 'AI_GENERATED'}.vsonic` } as File);
       setActiveModule('DAW');
     } catch (err) { console.error(err); } finally { setIsGenerating(false); }
   };
 
-  const simulateProcessing = () => {
+  // Runs the separation worker over the source mix and routes each result to its stem channel.
+  // On failure the stems keep sharing the source mix.
+  const separateSource = async (buffer: AudioBuffer) => {
     setIsProcessing(true);
     setProcessingProgress(0);
-    let p = 0;
-    const interval = setInterval(() => {
-      p += 2;
-      setProcessingProgress(p);
-      if (p >= 100) {
-        clearInterval(interval);
-        finishProcessing();
+    setProcessingStatus('SPECTRAL_ISOLATION');
+    setProcessingLog(prev => [...prev, `[SEPARATE] Strength ${isolationThreshold}%${buffer.numberOfChannels < 2 ? ', mono source: centre extraction disabled' : ''}`]);
+    const started = performance.now();
+    let loggedStep = 0;
+    try {
+      const engine = getEngine();
+      const separated = await separateSourceStems(engine.getContext(), buffer, isolationThreshold / 100, fraction => {
+        setProcessingProgress(fraction * 100);
+        const step = Math.floor(fraction * 10);
+        if (step > loggedStep) {
+          loggedStep = step;
+          setProcessingLog(prev => [...prev, `[SEPARATE] ${step * 10}% of spectral frames resolved`]);
+        }
+      });
+      for (const [stem, stemId] of Object.entries(SEPARATED_STEM_IDS) as [SeparatedStem, string][]) {
+        engine.setStemBuffer(stemId, separated[stem]);
+        updateWaveform(stemId, separated[stem]);
       }
-    }, 40);
+      setProcessingLog(prev => [...prev, `[SEPARATE] ${Object.keys(separated).length} stems rendered in ${((performance.now() - started) / 1000).toFixed(1)}s`]);
+    } catch (err) {
+      console.error("Separation failed", err);
+      setProcessingLog(prev => [...prev, `[SEPARATE] Failed, stems fall back to the source mix`]);
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  const finishProcessing = () => {
+  const analyseSource = async (buffer: AudioBuffer): Promise<AudioAnalysis | null> => {
+    setIsProcessing(true);
+    setProcessingProgress(0);
+    setProcessingStatus('SIGNAL_ANALYSIS');
+    try {
+      const analysis = await analyseAudio(buffer, stage => {
+        setProcessingStatus(`${stage}_ANALYSIS`);
+        setProcessingLog(prev => [...prev, `[ANALYSE] ${stage.toLowerCase()} estimation`]);
+      });
+      const { tempo, key } = analysis;
+      setProcessingLog(prev => [...prev,
+        `[TEMPO] ${tempo.bpm} BPM (confidence ${Math.round(tempo.confidence * 100)}%), ${tempo.beatGrid.beats.length} beats, ${tempo.beatGrid.downbeats.length} bars`,
+        ...tempo.alternatives.map(alt => `[TEMPO] Alternative ${alt.bpm} BPM (${Math.round(alt.score * 100)}%)`),
+        `[KEY] ${describeKey(key.key)} (r=${key.confidence.toFixed(2)}), runner-up ${key.candidates.slice(1, 3).map(c => formatKey(c.key)).join(', ')}`,
+        `[CHORDS] ${analysis.chords.filter(c => c.symbol !== NO_CHORD).length} chord segments`,
+      ]);
+      return analysis;
+    } catch (err) {
+      console.error("Analysis failed", err);
+      setProcessingLog(prev => [...prev, `[ANALYSE] Failed, using default tempo`]);
+      return null;
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const applyTempoAlternative = (factor: number) => {
+    if (!metadata) return;
+    commitEdit(factor > 1 ? 'Double Tempo' : 'Halve Tempo', { metadata: {
+      ...metadata,
+      bpm: Math.round(metadata.bpm * factor * 10) / 10,
+      beatGrid: metadata.beatGrid && rescaleBeatGrid(metadata.beatGrid, factor),
+    } });
+  };
+
+  const handleReseparate = () => {
+    const buffer = getEngine().getSourceMix();
+    if (buffer && !isProcessing) separateSource(buffer);
+  };
+
+  const finishProcessing = (analysis: AudioAnalysis | null) => {
+    const tempo = analysis?.tempo.bpm ? analysis.tempo : null;
     setMetadata({ 
-      bpm: 124, key: 'Bm', chords: ['Bm', 'G', 'D', 'A', 'Em7', 'F#m'],
+      bpm: tempo?.bpm || 120,
+      bpmConfidence: tempo?.confidence,
+      bpmAlternatives: tempo?.alternatives,
+      beatGrid: tempo?.beatGrid,
+      key: analysis ? formatKey(analysis.key.key) : 'Cmaj',
+      keyConfidence: analysis?.key.confidence,
+      chords: analysis ? [...new Set(analysis.chords.map(c => c.symbol).filter(symbol => symbol !== NO_CHORD))] : [],
+      chordSegments: analysis?.chords,
       lyrics: [
         { time: 5, text: "Spectral isolation complete" },
         { time: 12, text: "Multitrack reconstruction active" },
@@ -291,38 +1215,200 @@ const AudioLab: React.FC = () => {
       { id: '4', name: 'Bass Line', volume: 75, pan: 0, muted: false, color: 'purple-400' },
     ]);
     setSoloedIds([]);
-    setIsProcessing(false);
+    setRegions([]);
+    setMarkers([]);
+    setRouting(createDefaultRouting());
+    setAutomationWriteIds([]);
+    resetLoudness();
+    setHistory(createHistory());
+  };
+
+  const exportBaseName = toFileSafeName(songFile?.name || 'virtual_sonics');
+  const isExportStretched = audioFormat === 'WAV' && isStretchExported && !isIdentityStretch(playbackSpeed, pitch);
+
+  const exportFormatLabel = audioFormat === 'MP3'
+    ? (mp3RateControl.mode === 'CBR' ? `MP3 ${mp3RateControl.bitrate}kbps CBR` : `MP3 V${mp3RateControl.quality} VBR`)
+    : `${wavBitDepth === 32 ? '32F' : wavBitDepth}-BIT ${((exportSampleRate || sourceInfo?.sampleRate || 48000) / 1000).toFixed(1)}kHz`;
+
+  const buildExportTag = (title: string) => buildId3v2Tag({
+    title,
+    bpm: metadata?.bpm,
+    key: metadata?.key,
+    encoder: 'Virtual Sonics',
+    cover: isCoverEmbedded && coverArtUrl ? dataUrlToBytes(coverArtUrl) : undefined,
+  });
+
+  const resetLoudness = () => {
+    loudnessRef.current = createLoudnessMeterState();
+    setLoudness(SILENT_LOUDNESS);
   };
 
-  const handleExportStems = () => {
-    if (!stems.length || isExporting) return;
+  /** Scales a rendered mix in place to a loudness target and logs the result. */
+  const normalizeRender = (rendered: AudioBuffer, target: LoudnessTarget) => {
+    const channels = audioBufferToChannels(rendered);
+    const stats = measureLoudness(channels, rendered.sampleRate);
+    if (!Number.isFinite(stats.integrated)) return; // Silence stays silent
+    const gainDb = normalizationGainDb(stats, target);
+    const gain = dbToLinear(gainDb);
+    for (const data of channels) {
+      for (let i = 0; i < data.length; i++) data[i] *= gain;
+    }
+    const reached = stats.integrated + gainDb;
+    const peakLimited = reached < target.lufs - 0.05;
+    setProcessingLog(prev => [...prev, `[LOUDNESS] ${stats.integrated.toFixed(1)} LUFS -> ${reached.toFixed(1)} LUFS (${gainDb >= 0 ? '+' : ''}${gainDb.toFixed(1)} dB)${peakLimited ? `, held back by the ${target.truePeak} dBTP ceiling` : ''}.`]);
+  };
+
+  // Offline render through the same channel strips as playback, then encode in the selected format
+  const renderAndEncode = async (
+    mix: ChannelMix[], sources: ChannelSource[], routing: MixRouting | null, title: string, progressBase: number, progressSpan: number,
+    loudnessTarget: LoudnessTarget | null = null
+  ) => {
+    const targetRate = exportSampleRate || sourceInfo?.sampleRate || 48000;
+    const sampleRate = audioFormat === 'MP3' ? Math.min(MP3_MAX_SAMPLE_RATE, targetRate) : targetRate;
+    const renderSpan = audioFormat === 'MP3' ? progressSpan / 2 : progressSpan;
+    const rendered = await renderMix(mix, sources, {
+      sampleRate,
+      duration: isExportStretched ? trackDuration / playbackSpeed : trackDuration,
+      routing,
+      rate: isExportStretched ? playbackSpeed : 1,
+      onProgress: f => setProcessingProgress(progressBase + f * renderSpan),
+    });
+    if (loudnessTarget) {
+      setProcessingStatus(`NORMALIZING // ${loudnessTarget.label}`);
+      normalizeRender(rendered, loudnessTarget);
+    }
+    if (audioFormat === 'MP3') {
+      setProcessingStatus(`ENCODING_MP3 // ${title}`);
+      return encodeMp3(rendered, mp3RateControl, buildExportTag(title), f => setProcessingProgress(progressBase + renderSpan + f * renderSpan));
+    }
+    const cues = markers.map(m => ({ frame: Math.round((isExportStretched ? m.time / playbackSpeed : m.time) * sampleRate), label: m.name }));
+    return encodeWav(audioBufferToChannels(rendered), sampleRate, { bitDepth: wavBitDepth, dither: isDitherEnabled && wavBitDepth !== 32, cues });
+  };
+
+  const exportExtension = audioFormat === 'MP3' ? 'mp3' : 'wav';
+
+  const getExportSources = async () => {
+    if (isExportStretched) {
+      setProcessingStatus('TIME_STRETCH');
+      await ensureTimeStretch();
+    }
+    return getEngine().getRenderSources(isExportStretched);
+  };
+
+  const handleExportMaster = async () => {
+    if (!sourceInfo || isExporting) return;
+    setIsExporting(true);
+    setProcessingProgress(0);
+    setProcessingStatus(`RENDERING_MASTER_${audioFormat}`);
+    try {
+      const { mix, sources, routing } = await getExportSources();
+      const title = songFile?.name.replace(/\.[^/.]+$/, '') || 'Virtual Sonics Master';
+      const loudnessTarget = LOUDNESS_TARGETS.find(t => t.id === loudnessTargetId) || null;
+      const blob = await renderAndEncode(mix, sources, routing, title, 0, 100, loudnessTarget);
+      downloadBlob(blob, `${exportBaseName}_master.${exportExtension}`);
+      setProcessingLog(prev => [...prev, `[EXPORT] Master mix rendered (${exportFormatLabel}).`]);
+    } catch (err) {
+      console.error("Master export failed", err);
+      alert("Master export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Every stem is rendered alone with its inserts, fader, pan and automation, regardless of mute/solo; buses, sends and the master strip are left out
+  const handleExportStems = async () => {
+    if (!stems.length || !sourceInfo || isExporting) return;
     setIsExporting(true);
+    setProcessingProgress(0);
     setProcessingStatus(`EXPORTING_STEMS_${audioFormat}`);
-    
-    let p = 0;
-    const interval = setInterval(() => {
-      p += 5;
-      setProcessingProgress(p);
-      if (p >= 100) {
-        clearInterval(interval);
-        setIsExporting(false);
-        alert(`Successfully exported ${stems.length} individual stems as ${audioFormat}.`);
+    try {
+      const { mix, sources } = await getExportSources();
+      const span = 100 / stems.length;
+      for (const [i, stem] of stems.entries()) {
+        setProcessingStatus(`EXPORTING_STEMS_${audioFormat} // ${stem.name}`);
+        const stemMix = mix.filter(m => m.id === stem.id).map(m => ({ ...m, gain: stem.volume / 100, audible: true }));
+        const blob = await renderAndEncode(stemMix, sources.filter(src => src.id === stem.id), null, stem.name, i * span, span);
+        downloadBlob(blob, `${exportBaseName}_${toFileSafeName(stem.name)}.${exportExtension}`);
+      }
+      setProcessingLog(prev => [...prev, `[EXPORT] ${stems.length} stems rendered (${exportFormatLabel}).`]);
+    } catch (err) {
+      console.error("Stem export failed", err);
+      alert("Stem export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleGenerateCoverArt = async () => {
+    if (isGeneratingCover) return;
+    setIsGeneratingCover(true);
+    try {
+      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const title = songFile?.name.replace(/\.[^/.]+$/, '') || 'Untitled';
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash-image',
+        contents: { parts: [{ text: `Square album cover art for a track titled "${title}"${metadata ? ` in ${metadata.key} at ${metadata.bpm} BPM` : ''}. Abstract, high-end, studio lighting. No text on image.` }] },
+        config: { imageConfig: { aspectRatio: "1:1" } }
+      });
+      const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+      if (part?.inlineData) {
+        setCoverArtUrl(`data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`);
+        setIsCoverEmbedded(true);
       }
-    }, 50);
+    } catch (err) {
+      console.error("Cover generation failed", err);
+      alert("Cover art generation failed.");
+    } finally {
+      setIsGeneratingCover(false);
+    }
   };
 
-  const handleExportLyrics = () => {
-    if (!metadata?.lyrics) {
-      alert("No lyrics available for SRT export.");
+  const handleExportLyrics = (format: LyricFormat) => {
+    if (!metadata?.lyrics?.length) {
+      alert(`No lyrics available for ${format} export.`);
       return;
     }
-    setIsExporting(true);
-    setProcessingStatus('EXPORTING_SRT_LEXICON');
-    
-    setTimeout(() => {
-      setIsExporting(false);
-      alert(`Lyrics exported as SubRip (SRT) format.`);
-    }, 1500);
+    const cues = toLyricCues(metadata.lyrics, { holdSeconds: lyricHoldSeconds, trackDuration });
+    const text = serializeLyrics(format, cues, { title: songFile?.name.replace(/\.[^/.]+$/, ''), length: trackDuration });
+    downloadBlob(new Blob([text], { type: LYRIC_MIME_TYPES[format] }), `${exportBaseName}.${LYRIC_FILE_EXTENSIONS[format]}`);
+    setProcessingLog(prev => [...prev, `[LEXICON] ${cues.length} lines exported as ${format}.`]);
+  };
+
+  const handleImportLyrics = async (file: File) => {
+    const text = await file.text();
+    const format = detectLyricFormat(file.name, text);
+    const lyrics = format ? parseLyrics(format, text) : [];
+    if (!lyrics.length) {
+      alert(`No timed lyrics found in "${file.name}". Supported formats: SRT, LRC, WebVTT.`);
+      return;
+    }
+    if (!metadata) return;
+    commitEdit(`Import ${format} Lyrics`, { metadata: { ...metadata, lyrics } });
+    setProcessingLog(prev => [...prev, `[LEXICON] ${lyrics.length} lines imported from ${format}.`]);
+  };
+
+  const commitLyricEdit = (index: number) => {
+    setEditingLyricIndex(null);
+    const text = lyricDraft.trim();
+    if (!metadata?.lyrics || !text || text === metadata.lyrics[index]?.text) return;
+    commitEdit('Edit Lyric', { metadata: { ...metadata, lyrics: metadata.lyrics.map((l, i) => i === index ? { ...l, text } : l) } });
+  };
+
+  const commitKeyEdit = () => {
+    const draft = keyDraft?.trim();
+    setKeyDraft(null);
+    if (!metadata || !draft || draft === metadata.key) return;
+    const parsed = parseKey(draft);
+    if (!parsed) {
+      alert(`"${draft}" is not a key. Try forms like Cmaj, Bm, F#m or a Camelot code such as 8A.`);
+      return;
+    }
+    setMetadataKey(parsed);
+  };
+
+  const setMetadataKey = (key: MusicalKey) => {
+    if (!metadata || formatKey(key) === metadata.key) return;
+    commitEdit('Set Key', { metadata: { ...metadata, key: formatKey(key), keyConfidence: undefined } });
   };
 
   const isStemActive = (stem: AudioStem) => {
@@ -330,6 +1416,12 @@ const AudioLab: React.FC = () => {
     return !stem.muted;
   };
 
+  const isVocalStem = (stem: AudioStem) => stem.name.toLowerCase().includes('vocal') || stem.id === '1';
+
+  // Reference mode keeps the vocal audible underneath as a guide
+  const getEffectiveVolume = (stem: AudioStem) =>
+    isVocalReference && isVocalStem(stem) ? Math.max(20, stem.volume * 0.25) : stem.volume;
+
   const currentLyricIndex = useMemo(() => {
     if (!metadata?.lyrics) return -1;
     const time = (playbackProgress / 100) * trackDuration;
@@ -337,21 +1429,37 @@ const AudioLab: React.FC = () => {
   }, [metadata, playbackProgress]);
 
   // Derived Scale Info based on Key
-  const getScaleNotes = (key: string) => {
-    const notes = ["B", "C#", "D", "E", "F#", "G", "A"]; // Hardcoded for Bm demo
-    return notes;
-  };
+  const parsedKey = useMemo(() => metadata ? parseKey(metadata.key) : null, [metadata?.key]);
 
   return (
     <div className="max-w-7xl mx-auto space-y-6 h-full flex flex-col pb-10">
+      {isLibraryOpen && (
+        <ProjectLibrary
+          currentProjectId={libraryEntry?.id || null}
+          refreshKey={libraryRefreshKey}
+          onOpen={openLibraryProject}
+          onRenamed={(entry) => setLibraryEntry(prev => prev?.id === entry.id ? entry : prev)}
+          onDeleted={(id) => setLibraryEntry(prev => prev?.id === id ? null : prev)}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
       {/* DAW MASTER BAR */}
       <div className="flex items-center justify-between bg-white/[0.03] border border-white/10 rounded-2xl p-4 px-8 sticky top-0 z-50 backdrop-blur-xl">
+        {isHistoryOpen && (
+          <HistoryPanel history={history} onJump={(position) => travelHistory(jumpToPosition(history, position))} onClose={() => setIsHistoryOpen(false)} />
+        )}
         <div className="flex items-center gap-8">
           <div className="flex gap-1.5">
             <button onClick={togglePlayback} className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${playbackStatus === 'PLAYING' ? 'bg-red-500 text-white' : 'bg-white text-black'}`}>
               {playbackStatus === 'PLAYING' ? '||' : '▶'}
             </button>
             <button onClick={stopPlayback} className="w-10 h-10 rounded-full bg-white/5 text-white flex items-center justify-center border border-white/10">■</button>
+            <button
+              onClick={() => isRecording ? togglePlayback() : startRecording()}
+              disabled={!armedStemId}
+              title={armedStemId ? (isRecording ? 'Stop recording' : 'Record the armed stem') : 'Arm a stem (R) to record'}
+              className={`w-10 h-10 rounded-full flex items-center justify-center border transition-all disabled:opacity-30 ${isRecording ? 'bg-red-500 border-red-500 text-white animate-pulse' : 'bg-white/5 border-white/10 text-red-500'}`}
+            >●</button>
           </div>
           
           <div className="flex items-center gap-6">
@@ -365,13 +1473,71 @@ const AudioLab: React.FC = () => {
             <div className="h-6 w-px bg-white/10" />
             <div className="text-center">
               <p className="text-[8px] mono text-white/30 uppercase">Tempo</p>
-              <p className="text-sm mono font-bold text-blue-400">{metadata?.bpm || '--'}</p>
+              {metadata ? (
+                <input
+                  type="number" min="20" max="300" value={metadata.bpm}
+                  onChange={(e) => {
+                    const bpm = parseFloat(e.target.value);
+                    if (bpm > 0) commitEdit('Set Tempo', { metadata: { ...metadata, bpm } }, 'bpm');
+                  }}
+                  className="w-12 bg-transparent text-sm mono font-bold text-blue-400 text-center outline-none"
+                  title={metadata.bpmConfidence !== undefined
+                    ? [`Detected, ${Math.round(metadata.bpmConfidence * 100)}% confidence`, ...(metadata.bpmAlternatives || []).map(alt => `Alt: ${alt.bpm} BPM (${Math.round(alt.score * 100)}%)`)].join('\n')
+                    : undefined}
+                />
+              ) : <p className="text-sm mono font-bold text-blue-400">--</p>}
             </div>
+            {metadata?.beatGrid && (
+              <div className="flex flex-col gap-0.5">
+                <button onClick={() => applyTempoAlternative(2)} title="Double time" className="px-1 text-[8px] mono font-bold text-white/30 hover:text-white leading-none">2×</button>
+                <button onClick={() => applyTempoAlternative(0.5)} title="Half time" className="px-1 text-[8px] mono font-bold text-white/30 hover:text-white leading-none">½×</button>
+              </div>
+            )}
             <div className="h-6 w-px bg-white/10" />
             <div className="text-center">
               <p className="text-[8px] mono text-white/30 uppercase">Key</p>
-              <p className="text-sm mono font-bold text-emerald-400">{metadata?.key || '--'}</p>
+              {metadata ? (
+                <input
+                  value={keyDraft ?? metadata.key}
+                  onFocus={() => setKeyDraft(metadata.key)}
+                  onChange={(e) => setKeyDraft(e.target.value)}
+                  onBlur={commitKeyEdit}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    if (e.key === 'Escape') setKeyDraft(null);
+                  }}
+                  className="w-12 bg-transparent text-sm mono font-bold text-emerald-400 text-center outline-none"
+                />
+              ) : <p className="text-sm mono font-bold text-emerald-400">--</p>}
             </div>
+            <div className="h-6 w-px bg-white/10" />
+            <div className="text-center" title="Playback speed, pitch preserved">
+              <p className="text-[8px] mono text-white/30 uppercase">Speed</p>
+              <input
+                type="number" min="50" max="150" step="5" value={Math.round(playbackSpeed * 100)}
+                onChange={(e) => {
+                  const percent = parseInt(e.target.value);
+                  if (percent >= 50 && percent <= 150) setPlaybackSpeed(percent / 100);
+                }}
+                className="w-12 bg-transparent text-sm mono font-bold text-center outline-none"
+              />
+            </div>
+            <div className="text-center" title="Transposition in semitones, tempo preserved">
+              <p className="text-[8px] mono text-white/30 uppercase">Pitch</p>
+              <input
+                type="number" min="-12" max="12" step="1" value={pitch}
+                onChange={(e) => {
+                  const semitones = parseInt(e.target.value);
+                  if (Math.abs(semitones) <= 12) setPitch(semitones);
+                }}
+                className="w-10 bg-transparent text-sm mono font-bold text-center outline-none"
+              />
+            </div>
+            {stretchProgress !== null && (
+              <span className="text-[8px] mono text-white/40 uppercase animate-pulse">Stretching {Math.floor(stretchProgress * 100)}%</span>
+            )}
+            <div className="h-6 w-px bg-white/10" />
+            <LoudnessMeter reading={loudness} onReset={resetLoudness} />
           </div>
         </div>
 
@@ -389,8 +1555,18 @@ const AudioLab: React.FC = () => {
           </div>
           <div className="h-6 w-px bg-white/10" />
           <div className="flex gap-2">
-            <button onClick={saveProjectToLocal} className="p-2 px-4 rounded-xl text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 transition-all">Save</button>
-            <button onClick={loadProjectFromLocal} className="p-2 px-4 rounded-xl text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 transition-all">Load</button>
+            <button onClick={saveProjectToLibrary} disabled={!songFile || isSavingProject} className="p-2 px-4 rounded-xl text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-20 transition-all">{isSavingProject ? 'Saving...' : 'Save'}</button>
+            <button onClick={() => travelHistory(undoCommand(history))} disabled={!canUndo(history)} title="Undo (Ctrl+Z)" className="p-2 px-3 rounded-xl text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-20 transition-all">Undo</button>
+            <button onClick={() => travelHistory(redoCommand(history))} disabled={!canRedo(history)} title="Redo (Ctrl+Shift+Z)" className="p-2 px-3 rounded-xl text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-20 transition-all">Redo</button>
+            <button onClick={() => setIsHistoryOpen(open => !open)} className={`p-2 px-3 rounded-xl text-[9px] mono uppercase font-bold border transition-all ${isHistoryOpen ? 'bg-white text-black border-white' : 'border-white/10 bg-white/5 hover:bg-white/10'}`}>History</button>
+            <button onClick={() => setIsLibraryOpen(true)} className="p-2 px-4 rounded-xl text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 transition-all">Library</button>
+            <button onClick={() => projectInputRef.current?.click()} className="p-2 px-4 rounded-xl text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 transition-all">Import</button>
+            <button onClick={handleExportProjectArchive} disabled={!songFile || isExporting} className="p-2 px-4 rounded-xl text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-20 transition-all">Export</button>
+            <input type="file" className="hidden" ref={projectInputRef} accept={`.${PROJECT_FILE_EXTENSION}`} onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImportProjectArchive(file);
+              e.target.value = '';
+            }} />
           </div>
         </div>
       </div>
@@ -470,14 +1646,35 @@ const AudioLab: React.FC = () => {
                   <p className="text-[7px] mono text-white/30 uppercase mb-2">Identified Key</p>
                   <div className="flex items-baseline gap-2">
                     <span className="text-4xl font-black text-emerald-400 italic tracking-tighter drop-shadow-[0_0_15px_rgba(52,211,153,0.3)]">{metadata.key}</span>
-                    <span className="text-[10px] mono text-white/40 uppercase italic">{metadata.key.includes('m') ? 'Minor Scale' : 'Major Scale'}</span>
+                    <span className="text-[10px] mono text-white/40 uppercase italic">{parsedKey ? `${parsedKey.mode} Scale` : 'Unrecognised Key'}</span>
+                    {metadata.keyConfidence !== undefined && (
+                      <span className="ml-auto text-[8px] mono text-white/30 uppercase">Match {Math.round(metadata.keyConfidence * 100)}%</span>
+                    )}
                   </div>
                 </div>
 
+                {parsedKey && (
+                  <div className="grid grid-cols-3 gap-2">
+                    {[
+                      { label: 'Relative', key: relativeKey(parsedKey) },
+                      { label: 'Parallel', key: parallelKey(parsedKey) },
+                    ].map(({ label, key }) => (
+                      <button key={label} onClick={() => setMetadataKey(key)} title={`Switch to ${describeKey(key)}`} className="bg-black/40 border border-white/5 p-3 rounded-2xl text-left hover:border-white/20 transition-all">
+                        <p className="text-[7px] mono text-white/30 uppercase mb-1">{label}</p>
+                        <p className="text-sm font-black text-white/80">{formatKey(key)}</p>
+                      </button>
+                    ))}
+                    <div className="bg-black/40 border border-white/5 p-3 rounded-2xl">
+                      <p className="text-[7px] mono text-white/30 uppercase mb-1">Camelot</p>
+                      <p className="text-sm font-black text-emerald-300">{camelotCode(parsedKey)}</p>
+                    </div>
+                  </div>
+                )}
+
                 <div className="bg-black/40 border border-white/5 p-4 rounded-2xl">
                   <p className="text-[7px] mono text-white/30 uppercase mb-3">Scale Notes</p>
                   <div className="flex justify-between gap-1">
-                    {getScaleNotes(metadata.key).map((note, i) => (
+                    {(parsedKey ? scaleNotes(parsedKey) : []).map((note, i) => (
                       <div key={i} className="flex flex-col items-center gap-1">
                         <span className="text-[10px] font-bold text-white/80">{note}</span>
                         <div className="w-1 h-1 rounded-full bg-white/10" />
@@ -507,17 +1704,108 @@ const AudioLab: React.FC = () => {
                 </div>
               </div>
 
+              {audioFormat === 'MP3' && (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <div className="flex p-1 bg-black/40 border border-white/5 rounded-xl">
+                      {(['CBR', 'VBR'] as const).map(m => (
+                        <button
+                          key={m}
+                          onClick={() => setMp3RateControl(m === 'CBR' ? { mode: 'CBR', bitrate: 320 } : { mode: 'VBR', quality: 2 })}
+                          className={`px-3 py-2 text-[10px] mono font-bold rounded-lg transition-all ${mp3RateControl.mode === m ? 'bg-white text-black' : 'text-white/40 hover:text-white'}`}
+                        >{m}</button>
+                      ))}
+                    </div>
+                    <select
+                      value={mp3RateControl.mode === 'CBR' ? mp3RateControl.bitrate : mp3RateControl.quality}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value);
+                        setMp3RateControl(mp3RateControl.mode === 'CBR'
+                          ? { mode: 'CBR', bitrate: value as typeof MP3_CBR_BITRATES[number] }
+                          : { mode: 'VBR', quality: value });
+                      }}
+                      className="flex-1 bg-black/40 border border-white/5 rounded-xl px-3 py-2 text-[10px] mono text-white/60 outline-none"
+                    >
+                      {mp3RateControl.mode === 'CBR'
+                        ? MP3_CBR_BITRATES.map(b => <option key={b} value={b}>{b} kbps</option>)
+                        : MP3_VBR_QUALITIES.map(q => <option key={q} value={q}>V{q}{q === 0 ? ' (Best)' : ''}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-3 p-2 bg-black/40 border border-white/5 rounded-xl">
+                    <div className="w-10 h-10 rounded-lg bg-white/5 border border-white/10 overflow-hidden flex-shrink-0">
+                      {coverArtUrl && <img src={coverArtUrl} alt="Cover art" className="w-full h-full object-cover" />}
+                    </div>
+                    <div className="flex-1 space-y-1">
+                      <button onClick={handleGenerateCoverArt} disabled={isGeneratingCover} className="text-[9px] mono uppercase font-bold text-white/60 hover:text-white disabled:opacity-40">
+                        {isGeneratingCover ? 'Generating...' : coverArtUrl ? 'Regenerate Cover' : 'Generate Cover'}
+                      </button>
+                      <label className="flex items-center gap-2 text-[8px] mono text-white/30 uppercase">
+                        <input type="checkbox" checked={isCoverEmbedded} disabled={!coverArtUrl} onChange={(e) => setIsCoverEmbedded(e.target.checked)} className="accent-white" />
+                        Embed in ID3
+                      </label>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {audioFormat === 'WAV' && (
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <label className="text-[8px] mono text-white/30 uppercase px-2">Bit Depth</label>
+                    <div className="flex p-1 bg-black/40 border border-white/5 rounded-xl">
+                      {([16, 24, 32] as WavBitDepth[]).map(d => (
+                        <button key={d} onClick={() => setWavBitDepth(d)} className={`flex-1 py-2 text-[10px] mono font-bold rounded-lg transition-all ${wavBitDepth === d ? 'bg-white text-black' : 'text-white/40 hover:text-white'}`}>{d === 32 ? '32F' : d}</button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={exportSampleRate ?? ''}
+                      onChange={(e) => setExportSampleRate(e.target.value ? parseInt(e.target.value) : null)}
+                      className="flex-1 bg-black/40 border border-white/5 rounded-xl px-3 py-2 text-[10px] mono text-white/60 outline-none"
+                    >
+                      <option value="">Source Rate{sourceInfo ? ` (${sourceInfo.sampleRate / 1000}kHz)` : ''}</option>
+                      {EXPORT_SAMPLE_RATES.map(r => <option key={r} value={r}>{r / 1000}kHz</option>)}
+                    </select>
+                    <button
+                      onClick={() => setIsDitherEnabled(!isDitherEnabled)}
+                      disabled={wavBitDepth === 32}
+                      className={`px-3 py-2 rounded-xl text-[9px] mono uppercase font-bold border transition-all disabled:opacity-20 ${isDitherEnabled && wavBitDepth !== 32 ? 'bg-white text-black border-white' : 'bg-black/40 border-white/5 text-white/40'}`}
+                    >
+                      Dither
+                    </button>
+                  </div>
+                  <label className="flex items-center gap-2 px-2 text-[8px] mono text-white/30 uppercase" title="Render at the current playback speed and pitch">
+                    <input type="checkbox" checked={isStretchExported} disabled={isIdentityStretch(playbackSpeed, pitch)} onChange={(e) => setIsStretchExported(e.target.checked)} className="accent-white" />
+                    Apply Speed / Pitch ({Math.round(playbackSpeed * 100)}%, {pitch > 0 ? '+' : ''}{pitch} st)
+                  </label>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="text-[8px] mono text-white/30 uppercase px-2">Master Loudness</label>
+                <select
+                  value={loudnessTargetId ?? ''}
+                  onChange={(e) => setLoudnessTargetId(e.target.value || null)}
+                  className="w-full bg-black/40 border border-white/5 rounded-xl px-3 py-2 text-[10px] mono text-white/60 outline-none"
+                  title="Normalize the master export to an integrated loudness (BS.1770), without pushing the true peak past -1 dBTP"
+                >
+                  <option value="">No Normalization</option>
+                  {LOUDNESS_TARGETS.map(t => <option key={t.id} value={t.id}>{t.label} / {t.truePeak} dBTP</option>)}
+                </select>
+              </div>
+
               <div className="space-y-2 pt-2">
                 <button 
-                  onClick={() => alert(`Master mix exported as ${audioFormat}`)}
-                  disabled={!songFile || isExporting}
+                  onClick={handleExportMaster}
+                  disabled={!sourceInfo || isExporting}
                   className="w-full py-4 bg-white text-black font-black uppercase tracking-widest text-[9px] rounded-xl hover:opacity-90 disabled:opacity-20 transition-all"
                 >
                   Export Master ({audioFormat})
                 </button>
                 <button 
                   onClick={handleExportStems}
-                  disabled={!stems.length || isExporting}
+                  disabled={!stems.length || !sourceInfo || isExporting}
                   className="w-full py-4 bg-white/5 border border-white/10 text-white font-black uppercase tracking-widest text-[9px] rounded-xl hover:bg-white/10 disabled:opacity-20 transition-all"
                 >
                   Export All Stems ({audioFormat})
@@ -539,12 +1827,13 @@ const AudioLab: React.FC = () => {
               </div>
               <div className="text-center">
                 <h3 className="text-2xl font-bold tracking-tight">Drop Audio to Initialize Timeline</h3>
-                <p className="text-white/40 mono text-xs uppercase tracking-widest mt-2">Or Navigate to Generator for AI Synthesis</p>
+                <p className="text-white/40 mono text-xs uppercase tracking-widest mt-2">Or Open a .{PROJECT_FILE_EXTENSION} Session / Navigate to Generator for AI Synthesis</p>
+                {error && <p className="text-red-400 mono text-[10px] uppercase tracking-widest mt-4">{error}</p>}
               </div>
               <input type="file" className="hidden" ref={fileInputRef} onChange={(e) => {
                 const file = e.target.files?.[0];
-                if (file) { setSongFile(file); simulateProcessing(); }
-              }} accept="audio/*" />
+                if (file) handleSongUpload(file);
+              }} accept={`audio/*,.${PROJECT_FILE_EXTENSION}`} />
             </div>
           ) : activeModule === 'DAW' ? (
             <div className="h-full flex flex-col">
@@ -553,15 +1842,30 @@ const AudioLab: React.FC = () => {
                 <div className="w-80 border-r border-white/10 flex items-center px-6">
                   <span className="text-[9px] mono text-white/40 uppercase tracking-widest">Spectral Track Interface</span>
                 </div>
-                <div className="flex-1 relative cursor-crosshair overflow-x-hidden" onClick={handleTimelineSeek}>
+                <div className="flex-1 relative cursor-crosshair overflow-x-hidden select-none" onMouseDown={handleRulerMouseDown} title="Click to seek, drag to select a loop">
                   {/* RULER */}
-                  <div className="flex h-full items-end pb-2 px-8 gap-12" style={{ width: `${100 * zoom}%` }}>
-                    {Array.from({ length: 15 }).map((_, i) => (
-                      <div key={i} className="flex flex-col gap-1 items-start min-w-[40px]">
-                        <span className="text-[7px] mono text-white/20">{i}:{(i*12).toString().padStart(2, '0')}</span>
-                        <div className="h-2 w-px bg-white/20" />
-                      </div>
+                  <div ref={rulerRef} className="relative h-full" style={{ width: `${100 * zoom}%` }}>
+                    {(loopDrag || loopRange) && (() => {
+                      const range = (loopDrag || loopRange)!;
+                      return (
+                        <div
+                          className={`absolute top-0 h-full border-x pointer-events-none ${isLoopEnabled || loopDrag ? 'bg-emerald-500/20 border-emerald-400' : 'bg-white/5 border-white/20'}`}
+                          style={{ left: `${(range.start / trackDuration) * 100}%`, width: `${((range.end - range.start) / trackDuration) * 100}%` }}
+                        />
+                      );
+                    })()}
+                    {markers.map(marker => (
+                      <div key={marker.id} className={`absolute top-0 h-full w-px pointer-events-none bg-${marker.color}/60`} style={{ left: `${(marker.time / trackDuration) * 100}%` }} />
                     ))}
+                    {Array.from({ length: Math.round(15 * zoom) }).map((_, i, marks) => {
+                      const time = (i / marks.length) * trackDuration;
+                      return (
+                        <div key={i} className="absolute bottom-2 flex flex-col gap-1 items-start" style={{ left: `${(i / marks.length) * 100}%` }}>
+                          <span className="text-[7px] mono text-white/20">{Math.floor(time / 60)}:{Math.floor(time % 60).toString().padStart(2, '0')}</span>
+                          <div className="h-2 w-px bg-white/20" />
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               </div>
@@ -575,162 +1879,527 @@ const AudioLab: React.FC = () => {
                     <span className="ml-auto text-[10px] font-black italic text-emerald-300">{metadata.key}</span>
                   </div>
                   <div className="flex-1 relative overflow-hidden bg-black/40">
-                    <div className="absolute inset-0 flex items-center px-8" style={{ width: `${100 * zoom}%` }}>
-                      {metadata.chords.map((chord, i) => (
-                        <div 
-                          key={i} 
-                          className="flex flex-col items-center justify-center border-l border-white/10 h-full px-12 group-hover/analysis:bg-white/[0.02] transition-colors cursor-pointer"
-                          onClick={() => jumpToTime(i * (trackDuration / metadata.chords.length))}
+                    {metadata.chordSegments ? (
+                      <div className="relative h-full" style={{ width: `${100 * zoom}%` }}>
+                        {metadata.chordSegments.filter(seg => seg.symbol !== NO_CHORD).map((seg, i) => (
+                          <div
+                            key={i}
+                            className="absolute top-0 h-full flex flex-col items-center justify-center border-l border-white/10 overflow-hidden hover:bg-white/[0.04] transition-colors cursor-pointer"
+                            style={{ left: `${(seg.start / trackDuration) * 100}%`, width: `${((seg.end - seg.start) / trackDuration) * 100}%` }}
+                            onClick={() => jumpToTime(seg.start)}
+                            title={`${seg.symbol} · ${seg.start.toFixed(2)}s · ${Math.round(seg.confidence * 100)}%`}
+                          >
+                            <span className="text-[11px] font-black mono text-white/40 group-hover/analysis:text-white transition-colors truncate" style={{ opacity: 0.4 + seg.confidence * 0.6 }}>{seg.symbol}</span>
+                            <div className="w-1 h-1 rounded-full bg-white/10 mt-1" />
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="absolute inset-0 flex items-center px-8" style={{ width: `${100 * zoom}%` }}>
+                        {metadata.chords.map((chord, i) => (
+                          <div 
+                            key={i} 
+                            className="flex flex-col items-center justify-center border-l border-white/10 h-full px-12 group-hover/analysis:bg-white/[0.02] transition-colors cursor-pointer"
+                            onClick={() => jumpToTime(i * (trackDuration / metadata.chords.length))}
+                          >
+                            <span className="text-[11px] font-black mono text-white/40 group-hover/analysis:text-white transition-colors">{chord}</span>
+                            <div className="w-1 h-1 rounded-full bg-white/10 mt-1" />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* SECTIONS / LOOP TRACK */}
+              <div className="flex h-10 border-b border-white/10 bg-white/[0.02]">
+                <div className="w-80 border-r border-white/10 px-4 flex items-center gap-2 bg-black/40">
+                  <button
+                    onClick={() => setIsLoopEnabled(!isLoopEnabled)}
+                    disabled={!loopRange}
+                    className={`px-2 h-7 rounded-lg text-[8px] mono font-black uppercase border transition-all disabled:opacity-20 ${isLoopEnabled ? 'bg-emerald-500 border-emerald-500 text-black' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                    title="Loop the selected range"
+                  >Loop</button>
+                  <button
+                    onClick={() => setIsSnapEnabled(!isSnapEnabled)}
+                    className={`px-2 h-7 rounded-lg text-[8px] mono font-black uppercase border transition-all ${isSnapEnabled ? 'bg-white border-white text-black' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                    title="Snap loop selection to the beat grid"
+                  >Snap</button>
+                  <select
+                    value={sectionType}
+                    onChange={(e) => setSectionType(e.target.value)}
+                    className="ml-auto bg-black/60 border border-white/10 rounded px-1 py-0.5 text-[9px] mono text-white outline-none"
+                  >
+                    {SECTION_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+                  <button
+                    onClick={addRegion}
+                    disabled={!loopRange}
+                    className="px-2 h-7 rounded-lg text-[8px] mono font-black uppercase border border-white/10 bg-white/5 text-white/60 hover:bg-white/10 disabled:opacity-20"
+                    title="Save the selected range as a song section"
+                  >+ Section</button>
+                </div>
+                <div className="flex-1 relative overflow-hidden bg-black/40">
+                  <div className="relative h-full" style={{ width: `${100 * zoom}%` }}>
+                    {regions.map(region => {
+                      const isLooped = isLoopEnabled && loopRange?.start === region.start && loopRange?.end === region.end;
+                      return (
+                        <div
+                          key={region.id}
+                          className={`absolute top-1 bottom-1 rounded-md border flex items-center gap-1 px-2 overflow-hidden cursor-pointer transition-colors group/region ${isLooped ? 'bg-emerald-500/30 border-emerald-400' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                          style={{ left: `${(region.start / trackDuration) * 100}%`, width: `${((region.end - region.start) / trackDuration) * 100}%` }}
+                          onClick={() => loopRegion(region)}
+                          onDoubleClick={() => { setEditingRegionId(region.id); setRegionDraft(region.name); }}
+                          title={`${region.name} · ${region.start.toFixed(2)}s – ${region.end.toFixed(2)}s (double-click to rename)`}
                         >
-                          <span className="text-[11px] font-black mono text-white/40 group-hover/analysis:text-white transition-colors">{chord}</span>
-                          <div className="w-1 h-1 rounded-full bg-white/10 mt-1" />
+                          {editingRegionId === region.id ? (
+                            <input
+                              autoFocus
+                              value={regionDraft}
+                              onChange={(e) => setRegionDraft(e.target.value)}
+                              onClick={(e) => e.stopPropagation()}
+                              onBlur={() => commitRegionRename(region)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') e.currentTarget.blur();
+                                if (e.key === 'Escape') setEditingRegionId(null);
+                              }}
+                              className="w-full bg-transparent text-[9px] mono font-bold text-white outline-none"
+                            />
+                          ) : (
+                            <span className="text-[9px] mono font-bold uppercase text-white/70 truncate">{region.name}</span>
+                          )}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              commitEdit(`Delete Section ${region.name}`, { regions: regions.filter(r => r.id !== region.id) });
+                            }}
+                            className="ml-auto text-[9px] text-white/30 hover:text-white opacity-0 group-hover/region:opacity-100"
+                            title="Delete section"
+                          >×</button>
                         </div>
-                      ))}
-                    </div>
+                      );
+                    })}
+                    {!regions.length && (
+                      <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[8px] mono text-white/20 uppercase">Drag on the ruler to select a loop, then save it as a section</span>
+                    )}
                   </div>
                 </div>
-              )}
+              </div>
+
+              {/* MARKERS TRACK */}
+              <div className="flex h-10 border-b border-white/10 bg-white/[0.02]">
+                <div className="w-80 border-r border-white/10 px-4 flex items-center gap-2 bg-black/40">
+                  <button
+                    onClick={() => jumpToMarker(-1)}
+                    disabled={!markers.length}
+                    className="w-7 h-7 rounded-lg text-[9px] mono font-black border border-white/5 bg-black/40 text-white/40 hover:border-white/20 disabled:opacity-20"
+                    title="Previous marker ( [ )"
+                  >◀</button>
+                  <button
+                    onClick={() => jumpToMarker(1)}
+                    disabled={!markers.length}
+                    className="w-7 h-7 rounded-lg text-[9px] mono font-black border border-white/5 bg-black/40 text-white/40 hover:border-white/20 disabled:opacity-20"
+                    title="Next marker ( ] )"
+                  >▶</button>
+                  <button
+                    onClick={() => addMarker(getEngine().getCurrentTime())}
+                    className="px-2 h-7 rounded-lg text-[8px] mono font-black uppercase border border-white/10 bg-white/5 text-white/60 hover:bg-white/10"
+                    title="Add a marker at the playhead (M)"
+                  >+ Marker</button>
+                  <button
+                    onClick={handleDetectStructure}
+                    disabled={structureProgress !== null || !getEngine().getSourceMix()}
+                    className="ml-auto px-2 h-7 rounded-lg text-[8px] mono font-black uppercase border border-emerald-500/20 bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 disabled:opacity-20"
+                    title="Propose section markers from the song's self-similarity"
+                  >{structureProgress !== null ? `Detecting ${Math.round(structureProgress * 100)}%` : 'Detect Structure'}</button>
+                </div>
+                <div className="flex-1 relative overflow-hidden bg-black/40">
+                  <div className="relative h-full" style={{ width: `${100 * zoom}%` }}>
+                    {markers.map(marker => (
+                      <div
+                        key={marker.id}
+                        className={`absolute top-0 h-full border-l-2 border-${marker.color} flex items-start group/marker`}
+                        style={{ left: `${(marker.time / trackDuration) * 100}%` }}
+                      >
+                        <div
+                          className="mt-1 flex items-center gap-1 pl-1 pr-2 py-0.5 rounded-r-md bg-black/80 cursor-pointer hover:bg-white/10"
+                          onClick={() => jumpToTime(marker.time)}
+                          onDoubleClick={() => { setEditingMarkerId(marker.id); setMarkerDraft(marker.name); }}
+                          title={`${marker.name} · ${marker.time.toFixed(2)}s (double-click to rename)`}
+                        >
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              updateMarker(marker.id, { color: nextMarkerColor(marker.color) }, `Recolor ${marker.name}`);
+                            }}
+                            className={`w-2 h-2 rounded-full shrink-0 bg-${marker.color}`}
+                            title="Change color"
+                          />
+                          {editingMarkerId === marker.id ? (
+                            <input
+                              autoFocus
+                              value={markerDraft}
+                              onChange={(e) => setMarkerDraft(e.target.value)}
+                              onClick={(e) => e.stopPropagation()}
+                              onBlur={() => commitMarkerRename(marker)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') e.currentTarget.blur();
+                                if (e.key === 'Escape') setEditingMarkerId(null);
+                              }}
+                              className="w-20 bg-transparent text-[9px] mono font-bold text-white outline-none"
+                            />
+                          ) : (
+                            <span className="text-[9px] mono font-bold uppercase text-white/70 whitespace-nowrap">{marker.name}</span>
+                          )}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              commitEdit(`Delete ${marker.name}`, { markers: markers.filter(m => m.id !== marker.id) });
+                            }}
+                            className="text-[9px] text-white/30 hover:text-white opacity-0 group-hover/marker:opacity-100"
+                            title="Delete marker"
+                          >×</button>
+                        </div>
+                      </div>
+                    ))}
+                    {!markers.length && (
+                      <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[8px] mono text-white/20 uppercase">Press M to drop a marker, [ and ] to jump between them</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* METRONOME TRACK */}
+              <div className="flex h-12 border-b border-white/10 bg-white/[0.02]">
+                <div className="w-80 border-r border-white/10 px-4 flex items-center gap-2 bg-black/40">
+                  <button
+                    onClick={() => updateMetronome({ enabled: !metronomeSettings.enabled })}
+                    className={`px-2 h-7 rounded-lg text-[8px] mono font-black uppercase border transition-all ${metronomeSettings.enabled ? 'bg-white border-white text-black' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                    title="Metronome"
+                  >Click</button>
+                  <button
+                    onClick={() => updateMetronome({ muted: !metronomeSettings.muted })}
+                    className={`w-7 h-7 rounded-lg text-[10px] mono font-black border transition-all ${metronomeSettings.muted ? 'bg-red-500 border-red-500 text-white' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                  >M</button>
+                  <input
+                    type="range" min="0" max="100" value={metronomeSettings.volume}
+                    onChange={(e) => updateMetronome({ volume: parseInt(e.target.value) })}
+                    className="w-16 h-1 bg-white/5 accent-white cursor-ew-resize"
+                    title={`Click volume ${metronomeSettings.volume}%`}
+                  />
+                  <select
+                    value={`${metronomeSettings.timeSignature.beats}/${metronomeSettings.timeSignature.unit}`}
+                    onChange={(e) => updateMetronome({ timeSignature: TIME_SIGNATURES.find(sig => `${sig.beats}/${sig.unit}` === e.target.value)! })}
+                    className="bg-black/60 border border-white/10 rounded px-1 py-0.5 text-[9px] mono text-white outline-none"
+                    title="Time signature"
+                  >
+                    {TIME_SIGNATURES.map(sig => <option key={`${sig.beats}/${sig.unit}`} value={`${sig.beats}/${sig.unit}`}>{sig.beats}/{sig.unit}</option>)}
+                  </select>
+                  <select
+                    value={metronomeSettings.countInBars}
+                    onChange={(e) => updateMetronome({ countInBars: parseInt(e.target.value) })}
+                    className="bg-black/60 border border-white/10 rounded px-1 py-0.5 text-[9px] mono text-white outline-none"
+                    title="Count-in before playback"
+                  >
+                    {COUNT_IN_BARS.map(bars => <option key={bars} value={bars}>{bars ? `${bars} bar${bars > 1 ? 's' : ''} in` : 'No count'}</option>)}
+                  </select>
+                  <span className="ml-auto text-[10px] mono font-black text-white/60">{Math.max(0, metronomeBar)}.{metronomeBeat}</span>
+                </div>
+                <div className="flex-1 relative overflow-hidden bg-black/40">
+                  <div className="relative h-full" style={{ width: `${100 * zoom}%` }}>
+                    {Array.from({ length: Math.max(0, Math.ceil((trackDuration - beatGridOffset) / metronomeBarSeconds)) }).map((_, bar) => (
+                      <div
+                        key={bar}
+                        className="absolute top-0 h-full border-l border-white/10 cursor-pointer hover:border-white/40"
+                        style={{ left: `${((beatGridOffset + bar * metronomeBarSeconds) / trackDuration) * 100}%` }}
+                        onClick={() => jumpToTime(beatGridOffset + bar * metronomeBarSeconds)}
+                      >
+                        {bar % 4 === 0 && <span className="absolute top-1 left-1 text-[7px] mono text-white/30">{bar + 1}</span>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
 
               {/* TRACKS AREA */}
               <div className="flex-1 overflow-y-auto custom-scrollbar relative">
                 {stems.map((stem, idx) => {
-                  const isVocalStem = stem.name.toLowerCase().includes('vocal') || stem.id === '1';
-                  const active = isVocalReference && isVocalStem ? true : isStemActive(stem);
+                  const isVocal = isVocalStem(stem);
+                  const active = isVocalReference && isVocal ? true : isStemActive(stem);
                   const isSoloed = soloedIds.includes(stem.id);
-                  const currentPeak = peakLevels[idx] || 0;
-                  const currentRms = rmsLevels[idx] || 0;
+                  const reading = meterReadings[idx];
+                  const currentPeak = dbToMeterPosition(reading?.peakDb ?? SILENCE_DB);
+                  const currentRms = dbToMeterPosition(reading?.rmsDb ?? SILENCE_DB);
+                  const currentHold = dbToMeterPosition(reading?.peakHoldDb ?? SILENCE_DB);
                   const currentFreqs = frequencyLevels[idx] || Array(EQ_BANDS).fill(0);
                   
-                  // Reference mode volume override
-                  const displayVolume = (isVocalReference && isVocalStem) ? Math.max(20, stem.volume * 0.25) : stem.volume;
+                  const playheadTime = (playbackProgress / 100) * trackDuration;
+                  const volumeLane = stem.automation?.volume;
+                  const sliderVolume = volumeLane?.length ? Math.round(automationValueAt(volumeLane, playheadTime)) : stem.volume;
+                  const sliderPan = stem.automation?.pan?.length ? Math.round(automationValueAt(stem.automation.pan, playheadTime)) : stem.pan || 0;
+                  const displayVolume = isVocalReference && isVocal ? getEffectiveVolume(stem) : sliderVolume;
+                  const automationLane = automationLanes[stem.id];
+                  const eqCurve = eqCurvePath(stem);
+                  const insertCount = stem.inserts?.filter(e => !e.bypassed).length || 0;
 
                   return (
-                    <div key={stem.id} className={`flex h-44 border-b border-white/5 transition-all group/track ${active ? 'bg-white/[0.02]' : 'bg-black/40 opacity-40'}`}>
-                      {/* TRACK CONTROLS & HIGH-FIDELITY VISUALIZERS */}
-                      <div className="w-80 border-r border-white/10 p-5 space-y-4 bg-black/40 flex flex-col justify-center relative">
-                        {isVocalReference && isVocalStem && (
-                          <div className="absolute top-2 right-2 px-2 py-0.5 bg-blue-500/20 border border-blue-500/40 rounded text-[7px] mono text-blue-400 font-bold animate-pulse">REF_MODE</div>
-                        )}
+                    <React.Fragment key={stem.id}>
+                      <div className={`flex h-44 border-b border-white/5 transition-all group/track ${active ? 'bg-white/[0.02]' : 'bg-black/40 opacity-40'}`}>
+                        {/* TRACK CONTROLS & HIGH-FIDELITY VISUALIZERS */}
+                        <div className="w-80 border-r border-white/10 p-5 space-y-4 bg-black/40 flex flex-col justify-center relative">
+                          {isVocalReference && isVocal && (
+                            <div className="absolute top-2 right-2 px-2 py-0.5 bg-blue-500/20 border border-blue-500/40 rounded text-[7px] mono text-blue-400 font-bold animate-pulse">REF_MODE</div>
+                          )}
                         
-                        <div className="flex justify-between items-start">
-                          <div className="flex items-center gap-4">
-                             {/* Segmented LED Peak Meter */}
-                             <div className="flex gap-1.5 h-16 w-4 bg-black/60 rounded-sm border border-white/5 p-1 flex-col-reverse items-center justify-start relative group/meter">
-                                {Array.from({ length: 20 }).map((_, segmentIdx) => (
-                                   <div 
-                                      key={segmentIdx} 
-                                      className={`w-full h-0.5 rounded-sm transition-all duration-75 ${
-                                         currentPeak * 20 > segmentIdx 
-                                         ? (segmentIdx > 17 ? 'bg-red-500' : segmentIdx > 14 ? 'bg-amber-400' : `bg-${stem.color}`) 
-                                         : 'bg-white/5'
-                                      }`}
-                                   />
-                                ))}
-                                {/* RMS indicator overlay */}
-                                <div 
-                                  className="absolute left-1/2 -translate-x-1/2 w-full h-[2px] bg-white transition-all duration-200 z-10 opacity-60" 
-                                  style={{ bottom: `${currentRms * 100}%` }}
-                                />
-                             </div>
+                          <div className="flex justify-between items-start">
+                            <div className="flex items-center gap-4">
+                               {/* Segmented LED Peak Meter */}
+                               <div className="flex gap-1.5 h-16 w-4 bg-black/60 rounded-sm border border-white/5 p-1 flex-col-reverse items-center justify-start relative group/meter">
+                                  {Array.from({ length: 20 }).map((_, segmentIdx) => (
+                                     <div 
+                                        key={segmentIdx} 
+                                        className={`w-full h-0.5 rounded-sm transition-all duration-75 ${
+                                           currentPeak * 20 > segmentIdx 
+                                           ? (segmentIdx > 17 ? 'bg-red-500' : segmentIdx > 14 ? 'bg-amber-400' : `bg-${stem.color}`) 
+                                           : 'bg-white/5'
+                                        }`}
+                                     />
+                                  ))}
+                                  {/* RMS indicator overlay */}
+                                  <div 
+                                    className="absolute left-1/2 -translate-x-1/2 w-full h-[2px] bg-white transition-all duration-200 z-10 opacity-60" 
+                                    style={{ bottom: `${currentRms * 100}%` }}
+                                  />
+                                  {/* Peak hold marker */}
+                                  {currentHold > 0 && (
+                                    <div 
+                                      className={`absolute left-0 w-full h-px z-10 ${currentHold > 0.9 ? 'bg-red-400' : 'bg-amber-300'}`} 
+                                      style={{ bottom: `${currentHold * 100}%` }}
+                                    />
+                                  )}
+                                  {/* Clip latch - click to reset */}
+                                  <button 
+                                    onClick={() => resetClip(stem.id)}
+                                    title="Clip indicator (click to reset)"
+                                    className={`absolute -top-2 left-1/2 -translate-x-1/2 w-3 h-1 rounded-sm ${reading?.clipped ? 'bg-red-500 shadow-[0_0_6px_rgba(239,68,68,0.8)]' : 'bg-white/10'}`}
+                                  />
+                               </div>
+
+                               <div className="space-y-2">
+                                  <div>
+                                     <p className="text-[11px] font-black uppercase truncate max-w-[130px] leading-none">{stem.name}</p>
+                                     <p className={`text-[8px] mono uppercase font-bold text-${stem.color} opacity-60 tracking-tighter`}>Neural_Core_{stem.id}</p>
+                                  </div>
+                                  {/* Numerical Peak/RMS Readout */}
+                                  <div className="flex gap-2 text-[8px] mono text-white/40 border-t border-white/5 pt-2">
+                                     <div className="flex flex-col">
+                                        <span className="text-[6px] uppercase tracking-tighter">Peak</span>
+                                        <span className={reading?.clipped ? 'text-red-400' : 'text-white'}>{formatDb(reading?.peakHoldDb ?? SILENCE_DB)}</span>
+                                     </div>
+                                     <div className="flex flex-col">
+                                        <span className="text-[6px] uppercase tracking-tighter">RMS</span>
+                                        <span>{formatDb(reading?.rmsDb ?? SILENCE_DB)}</span>
+                                     </div>
+                                  </div>
+                               </div>
+                            </div>
 
-                             <div className="space-y-2">
-                                <div>
-                                   <p className="text-[11px] font-black uppercase truncate max-w-[130px] leading-none">{stem.name}</p>
-                                   <p className={`text-[8px] mono uppercase font-bold text-${stem.color} opacity-60 tracking-tighter`}>Neural_Core_{stem.id}</p>
+                            <div className="flex gap-1">
+                              <button
+                                onClick={() => setFxStemId(fxStemId === stem.id ? null : stem.id)}
+                                className={`h-8 px-2 rounded-lg text-[9px] mono font-black border transition-all ${fxStemId === stem.id ? 'bg-white border-white text-black' : insertCount ? `bg-black/40 border-${stem.color} text-${stem.color}` : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                                title="Insert effects"
+                              >FX{insertCount ? ` ${insertCount}` : ''}</button>
+                              <button
+                                onClick={() => setAutomationLanes(prev => {
+                                  const { [stem.id]: shown, ...rest } = prev;
+                                  return shown ? rest : { ...prev, [stem.id]: 'volume' };
+                                })}
+                                className={`h-8 px-2 rounded-lg text-[9px] mono font-black border transition-all ${automationLane ? 'bg-white border-white text-black' : volumeLane?.length || stem.automation?.pan?.length ? `bg-black/40 border-${stem.color} text-${stem.color}` : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                                title="Volume and pan automation"
+                              >A</button>
+                              <button 
+                                onClick={() => commitEdit(`${isSoloed ? 'Unsolo' : 'Solo'} ${stem.name}`, { soloedIds: isSoloed ? soloedIds.filter(id => id !== stem.id) : [...soloedIds, stem.id] })} 
+                                className={`w-8 h-8 rounded-lg text-[10px] mono font-black border transition-all ${isSoloed ? 'bg-amber-400 border-amber-400 text-black' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                              >S</button>
+                              <button 
+                                onClick={() => updateStem(stem.id, { muted: !stem.muted }, `${stem.muted ? 'Unmute' : 'Mute'} ${stem.name}`)} 
+                                className={`w-8 h-8 rounded-lg text-[10px] mono font-black border transition-all ${stem.muted ? 'bg-red-500 border-red-500 text-white' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                              >M</button>
+                              <button
+                                onClick={() => toggleArm(stem.id)}
+                                disabled={isRecording}
+                                className={`w-8 h-8 rounded-lg text-[10px] mono font-black border transition-all ${armedStemId === stem.id ? `bg-red-500 border-red-500 text-white ${isRecording ? 'animate-pulse' : ''}` : 'bg-black/40 border-white/5 text-red-400/60 hover:border-white/20'}`}
+                                title="Record arm"
+                              >R</button>
+                            </div>
+                          </div>
+
+                          {/* Detailed Spectral EQ Bands */}
+                          <div className="space-y-1">
+                            <div className="flex justify-between items-center px-1">
+                               <span className="text-[7px] mono text-white/20 uppercase tracking-[0.2em]">Spectral Dist.</span>
+                               {eqCurve && (
+                                 <button
+                                   onClick={() => setIsEqCurveVisible(!isEqCurveVisible)}
+                                   className={`text-[7px] mono uppercase ${isEqCurveVisible ? 'text-white/60' : 'text-white/20'} hover:text-white`}
+                                   title="Show the EQ curve over the spectrum"
+                                 >EQ Curve</button>
+                               )}
+                               <span className="text-[7px] mono text-white/10">32Hz — 22kHz</span>
+                            </div>
+                            <div className="relative flex gap-[2px] items-end h-12 w-full bg-black/40 p-1.5 rounded-xl border border-white/10">
+                               {currentFreqs.map((freq, bIdx) => (
+                                 <div 
+                                   key={bIdx}
+                                   className={`flex-1 transition-all duration-100 rounded-sm hover:opacity-100 ${
+                                      active ? (freq > 0.8 ? 'bg-white' : `bg-${stem.color}`) : 'bg-white/5'
+                                   }`}
+                                   style={{ height: `${Math.max(2, freq * 100)}%`, opacity: active ? (0.2 + freq * 0.8) : 0.05 }}
+                                 />
+                               ))}
+                               {eqCurve && isEqCurveVisible && (
+                                 <svg className="absolute inset-1.5 w-[calc(100%-0.75rem)] h-[calc(100%-0.75rem)] pointer-events-none overflow-visible" viewBox="0 0 100 100" preserveAspectRatio="none">
+                                   <line x1="0" y1="50" x2="100" y2="50" stroke="white" strokeOpacity="0.1" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+                                   <path d={eqCurve} fill="none" stroke="white" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+                                 </svg>
+                               )}
+                            </div>
+                          </div>
+                        
+                          <div className="grid grid-cols-2 gap-4">
+                             <div className="space-y-1">
+                                <div className="flex justify-between text-[7px] mono text-white/30 uppercase">
+                                  <span>Gain{volumeLane?.length ? ' · Auto' : ''}</span>
+                                  <span>{Math.floor(displayVolume)}%</span>
                                 </div>
-                                {/* Numerical Peak/RMS Readout */}
-                                <div className="flex gap-2 text-[8px] mono text-white/40 border-t border-white/5 pt-2">
-                                   <div className="flex flex-col">
-                                      <span className="text-[6px] uppercase tracking-tighter">Peak</span>
-                                      <span className={currentPeak > 0.9 ? 'text-red-400' : 'text-white'}>-{( (1 - currentPeak) * 60).toFixed(1)} dB</span>
-                                   </div>
-                                   <div className="flex flex-col">
-                                      <span className="text-[6px] uppercase tracking-tighter">RMS</span>
-                                      <span>-{( (1 - currentRms) * 72).toFixed(1)} dB</span>
-                                   </div>
+                                <input 
+                                  type="range" min="0" max="100" value={sliderVolume} 
+                                  onChange={(e) => isAutomated(stem, 'volume')
+                                    ? writeStemAutomation(stem, 'volume', parseInt(e.target.value))
+                                    : updateStem(stem.id, { volume: parseInt(e.target.value) }, `${stem.name} Gain`, `volume:${stem.id}`)} 
+                                  onPointerUp={() => lastWrittenRef.current.delete(`${stem.id}:volume`)}
+                                  className={`w-full h-1 bg-white/5 accent-${stem.color} cursor-ew-resize`} 
+                                />
+                             </div>
+                             <div className="space-y-1">
+                                <div className="flex justify-between text-[7px] mono text-white/30 uppercase">
+                                  <span>Pan{stem.automation?.pan?.length ? ' · Auto' : ''}</span>
+                                  <span className={sliderPan === 0 ? 'text-white/40' : 'text-white'}>{sliderPan === 0 ? 'C' : sliderPan < 0 ? `${Math.abs(sliderPan)}L` : `${sliderPan}R`}</span>
                                 </div>
+                                <input 
+                                  type="range" min="-100" max="100" step="1" value={sliderPan} 
+                                  onChange={(e) => isAutomated(stem, 'pan')
+                                    ? writeStemAutomation(stem, 'pan', parseInt(e.target.value))
+                                    : updateStem(stem.id, { pan: parseInt(e.target.value) }, `${stem.name} Pan`, `pan:${stem.id}`)} 
+                                  onPointerUp={() => lastWrittenRef.current.delete(`${stem.id}:pan`)}
+                                  className={`w-full h-1 bg-white/5 accent-white cursor-ew-resize`} 
+                                />
                              </div>
                           </div>
-
-                          <div className="flex gap-1">
-                            <button 
-                              onClick={() => setSoloedIds(prev => prev.includes(stem.id) ? prev.filter(id => id !== stem.id) : [...prev, stem.id])} 
-                              className={`w-8 h-8 rounded-lg text-[10px] mono font-black border transition-all ${isSoloed ? 'bg-amber-400 border-amber-400 text-black' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
-                            >S</button>
-                            <button 
-                              onClick={() => setStems(stems.map(s => s.id === stem.id ? { ...s, muted: !s.muted } : s))} 
-                              className={`w-8 h-8 rounded-lg text-[10px] mono font-black border transition-all ${stem.muted ? 'bg-red-500 border-red-500 text-white' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
-                            >M</button>
-                          </div>
                         </div>
 
-                        {/* Detailed Spectral EQ Bands */}
-                        <div className="space-y-1">
-                          <div className="flex justify-between items-center px-1">
-                             <span className="text-[7px] mono text-white/20 uppercase tracking-[0.2em]">Spectral Dist.</span>
-                             <span className="text-[7px] mono text-white/10">32Hz — 22kHz</span>
-                          </div>
-                          <div className="flex gap-[2px] items-end h-12 w-full bg-black/40 p-1.5 rounded-xl border border-white/10">
-                             {currentFreqs.map((freq, bIdx) => (
-                               <div 
-                                 key={bIdx}
-                                 className={`flex-1 transition-all duration-100 rounded-sm hover:opacity-100 ${
-                                    active ? (freq > 0.8 ? 'bg-white' : `bg-${stem.color}`) : 'bg-white/5'
-                                 }`}
-                                 style={{ height: `${Math.max(2, freq * 100)}%`, opacity: active ? (0.2 + freq * 0.8) : 0.05 }}
-                               />
-                             ))}
+                        {/* TRACK TIMELINE VIEW */}
+                        <div 
+                          className="flex-1 relative overflow-hidden bg-black/20"
+                          ref={timelineRef}
+                          onClick={handleTimelineSeek}
+                        >
+                          <div className="absolute inset-0 flex items-center px-8 gap-[1px]" style={{ width: `${100 * zoom}%` }}>
+                            {stemWaveforms[idx]?.map((bar, i) => {
+                              const gain = displayVolume / 100;
+                              return (
+                                <div 
+                                  key={i} 
+                                  className={`flex-1 min-w-[2px] rounded-full relative transition-all duration-500 bg-${stem.color} ${active ? 'opacity-40' : 'opacity-5'}`} 
+                                  style={{ 
+                                    height: `${Math.max(1, (bar.max - bar.min) * gain * 50)}%`,
+                                    top: `${-(bar.max + bar.min) * gain * 25}%`
+                                  }} 
+                                />
+                              );
+                            })}
                           </div>
-                        </div>
-                        
-                        <div className="grid grid-cols-2 gap-4">
-                           <div className="space-y-1">
-                              <div className="flex justify-between text-[7px] mono text-white/30 uppercase">
-                                <span>Gain</span>
-                                <span>{Math.floor(displayVolume)}%</span>
-                              </div>
-                              <input 
-                                type="range" min="0" max="100" value={stem.volume} 
-                                onChange={(e) => setStems(stems.map(s => s.id === stem.id ? { ...s, volume: parseInt(e.target.value) } : s))} 
-                                className={`w-full h-1 bg-white/5 accent-${stem.color} cursor-ew-resize`} 
-                              />
-                           </div>
-                           <div className="space-y-1">
-                              <div className="flex justify-between text-[7px] mono text-white/30 uppercase">
-                                <span>Pan</span>
-                                <span className={stem.pan === 0 ? 'text-white/40' : 'text-white'}>{stem.pan === 0 ? 'C' : stem.pan! < 0 ? `${Math.abs(stem.pan!)}L` : `${stem.pan}R`}</span>
+                          {stem.clips && (
+                            <div className="absolute inset-y-0 left-0 px-8 pointer-events-none" style={{ width: `${100 * zoom}%` }}>
+                              <div className="relative h-full">
+                                <TakeClips
+                                  stem={stem}
+                                  duration={trackDuration}
+                                  onChange={(clips, label, coalesceKey) => updateStem(stem.id, { clips }, label, coalesceKey)}
+                                />
                               </div>
-                              <input 
-                                type="range" min="-100" max="100" step="1" value={stem.pan || 0} 
-                                onChange={(e) => setStems(stems.map(s => s.id === stem.id ? { ...s, pan: parseInt(e.target.value) } : s))} 
-                                className={`w-full h-1 bg-white/5 accent-white cursor-ew-resize`} 
-                              />
-                           </div>
-                        </div>
-                      </div>
-
-                      {/* TRACK TIMELINE VIEW */}
-                      <div 
-                        className="flex-1 relative overflow-hidden bg-black/20"
-                        ref={timelineRef}
-                        onClick={handleTimelineSeek}
-                      >
-                        <div className="absolute inset-0 flex items-center px-8 gap-[1px]" style={{ width: `${100 * zoom}%` }}>
-                          {stemWaveforms[idx]?.map((val, i) => (
-                            <div 
-                              key={i} 
-                              className={`flex-1 min-w-[2px] rounded-full transition-all duration-500 bg-${stem.color} ${active ? 'opacity-40' : 'opacity-5'}`} 
-                              style={{ 
-                                height: `${val * (displayVolume / 100) * (playbackStatus === 'PLAYING' && active ? (0.8 + Math.random() * 0.4) : 1) * 100}%` 
-                              }} 
-                            />
-                          ))}
+                            </div>
+                          )}
                         </div>
                       </div>
-                    </div>
+                      {automationLane && (
+                        <AutomationLane
+                          stem={stem}
+                          param={automationLane}
+                          duration={trackDuration}
+                          zoom={zoom}
+                          isWriting={automationWriteIds.includes(stem.id)}
+                          onParamChange={(param) => setAutomationLanes(prev => ({ ...prev, [stem.id]: param }))}
+                          onToggleWrite={() => setAutomationWriteIds(prev => prev.includes(stem.id) ? prev.filter(id => id !== stem.id) : [...prev, stem.id])}
+                          onChange={(points, label, coalesceKey) => updateStem(stem.id, { automation: { ...stem.automation, [automationLane]: points } }, label, coalesceKey)}
+                        />
+                      )}
+                      {fxStemId === stem.id && (
+                        <InsertRack
+                          stem={stem}
+                          buses={routing.buses}
+                          returns={routing.returns}
+                          onChange={(inserts, label, coalesceKey) => updateStem(stem.id, { inserts }, label, coalesceKey)}
+                          onRoute={(changes, label, coalesceKey) => updateStem(stem.id, changes, label, coalesceKey)}
+                        />
+                      )}
+                    </React.Fragment>
                   );
                 })}
 
+                {/* RECORDING */}
+                <div className="flex h-12 border-b border-white/10 bg-white/[0.02]">
+                  <div className="w-80 border-r border-white/10 px-4 flex items-center gap-2 bg-black/40">
+                    <button
+                      onClick={addRecordingTrack}
+                      disabled={isRecording}
+                      className="px-2 h-7 rounded-lg text-[8px] mono font-black uppercase border bg-black/40 border-white/5 text-white/60 hover:border-white/20 disabled:opacity-30"
+                      title="Add a stem to record into and arm it"
+                    >+ Rec Track</button>
+                    <button
+                      onClick={() => updateRecordingSettings({ monitoring: !recordingSettings.monitoring })}
+                      className={`px-2 h-7 rounded-lg text-[8px] mono font-black uppercase border transition-all ${recordingSettings.monitoring ? 'bg-white border-white text-black' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                      title="Hear the input through the armed stem (use headphones)"
+                    >Mon</button>
+                    <button
+                      onClick={() => updateRecordingSettings({ punch: !recordingSettings.punch })}
+                      className={`px-2 h-7 rounded-lg text-[8px] mono font-black uppercase border transition-all ${recordingSettings.punch ? 'bg-emerald-500 border-emerald-500 text-black' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+                      title="Punch in/out: keep only what is recorded inside the loop region"
+                    >Punch</button>
+                    <input
+                      type="number" min="-500" max="500" value={recordingSettings.latencyOffsetMs}
+                      onChange={(e) => updateRecordingSettings({ latencyOffsetMs: parseInt(e.target.value) || 0 })}
+                      className="w-12 bg-black/60 border border-white/10 rounded px-1 py-0.5 text-[9px] mono text-white outline-none"
+                      title="Latency offset in ms, added to the latency the browser reports; raise it if takes land late"
+                    />
+                    <span className="ml-auto text-[8px] mono text-white/30" title="Input and output latency reported by the browser">
+                      {armedStemId ? `${Math.round(inputLatency * 1000)} ms` : 'No input'}
+                    </span>
+                  </div>
+                  <div className="flex-1 relative overflow-hidden bg-black/40">
+                    {recordingSettings.punch && loopRange && (
+                      <div className="relative h-full" style={{ width: `${100 * zoom}%` }}>
+                        <div
+                          className="absolute top-0 h-full bg-red-500/10 border-x border-red-500/40"
+                          style={{ left: `${(loopRange.start / trackDuration) * 100}%`, width: `${((loopRange.end - loopRange.start) / trackDuration) * 100}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
+
                 {/* SHARED PLAYHEAD */}
                 <div 
                   className="absolute top-0 bottom-0 w-[2px] bg-white shadow-[0_0_15px_white] z-50 pointer-events-none" 
@@ -740,6 +2409,44 @@ const AudioLab: React.FC = () => {
                 </div>
               </div>
               
+              {isAnalysisOpen && (
+                <div className="flex border-t border-white/10">
+                  <div className="flex-1 min-w-0">
+                    <SpectrogramLane
+                      spectrogram={spectrogram}
+                      isAnalysing={isSpectrogramBusy}
+                      duration={trackDuration}
+                      playbackProgress={playbackProgress}
+                      sourceLabel={stems.find(s => s.id === analysisSourceId)?.name || 'Master'}
+                      onAnalyse={() => analyseSpectrogram(analysisSourceId)}
+                    />
+                  </div>
+                  <div className="w-56 shrink-0 border-l border-white/10 bg-black/40 p-3 space-y-2">
+                    <select
+                      value={analysisSourceId ?? ''}
+                      onChange={(e) => selectAnalysisSource(e.target.value || null)}
+                      className="w-full bg-black border border-white/10 rounded-md h-6 px-1 text-[8px] mono uppercase text-white/60 outline-none"
+                    >
+                      <option value="">Master</option>
+                      {stems.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <StereoScope isActive={playbackStatus === 'PLAYING'} read={() => getEngine().readStereoSamples(analysisSourceId)} />
+                  </div>
+                </div>
+              )}
+
+              <MixerConsole
+                routing={routing}
+                stems={stems}
+                masterReading={masterReading}
+                onChange={(next, label, coalesceKey) => commitEdit(label, { routing: next }, coalesceKey)}
+                onDeleteBus={deleteBus}
+                onResetClip={() => {
+                  masterHoldRef.current = createPeakHoldState();
+                  setMasterReading(prev => prev && { ...prev, peakHoldDb: SILENCE_DB, clipped: false });
+                }}
+              />
+
               {/* DAW BOTTOM BAR */}
               <div className="h-10 border-t border-white/10 bg-black/60 px-8 flex items-center justify-between">
                 <div className="flex items-center gap-6">
@@ -749,16 +2456,28 @@ const AudioLab: React.FC = () => {
                    </div>
                    <div className="h-4 w-[1px] bg-white/10" />
                    <div className="flex gap-4">
-                      <p className="text-[9px] mono text-white/20 uppercase">Sample Rate: <span className="text-white/40">48kHz</span></p>
+                      <p className="text-[9px] mono text-white/20 uppercase">Sample Rate: <span className="text-white/40">{sourceInfo ? `${(sourceInfo.sampleRate / 1000).toFixed(1)}kHz` : '--'}</span></p>
+                      <p className="text-[9px] mono text-white/20 uppercase">Channels: <span className="text-white/40">{sourceInfo ? (sourceInfo.channelCount === 1 ? 'Mono' : sourceInfo.channelCount === 2 ? 'Stereo' : sourceInfo.channelCount) : '--'}</span></p>
                       <p className="text-[9px] mono text-white/20 uppercase">Bit Depth: <span className="text-white/40">32-Bit Floating</span></p>
                    </div>
                 </div>
                 <div className="flex items-center gap-6">
+                  <div className="flex items-center gap-2" title="Separation strength: higher values make harder, more selective stem masks">
+                    <span className="text-[9px] mono text-white/20 uppercase">Isolation</span>
+                    <input type="range" min="0" max="100" value={isolationThreshold} onChange={(e) => setIsolationThreshold(parseInt(e.target.value))} className="w-20 accent-white h-1 bg-white/10 rounded" />
+                    <span className="text-[9px] mono text-white/40 w-8">{isolationThreshold}%</span>
+                    <button onClick={handleReseparate} disabled={!sourceInfo || isProcessing || isProjectGenerated} className="px-2 py-1 rounded border border-white/10 text-[9px] mono font-bold uppercase text-white/60 hover:bg-white/10 disabled:opacity-20">Re-Separate</button>
+                  </div>
+                  <button
+                    onClick={() => setIsAnalysisOpen(open => !open)}
+                    className={`px-2 py-1 rounded border text-[9px] mono font-bold uppercase ${isAnalysisOpen ? 'bg-white border-white text-black' : 'border-white/10 text-white/60 hover:bg-white/10'}`}
+                    title="Spectrogram, goniometer and phase correlation"
+                  >Analysis</button>
                   <div className="flex items-center gap-2">
                     <span className="text-[9px] mono text-white/20 uppercase">Timeline Scale</span>
                     <input type="range" min="1" max="5" step="0.1" value={zoom} onChange={(e) => setZoom(parseFloat(e.target.value))} className="w-24 accent-white h-1 bg-white/10 rounded" />
                   </div>
-                  <button onClick={() => alert('Multi-track archive exported.')} className="bg-white text-black px-4 py-1 rounded text-[9px] mono font-black uppercase hover:opacity-80">Export Session</button>
+                  <button onClick={handleExportProjectArchive} disabled={isExporting} className="bg-white text-black px-4 py-1 rounded text-[9px] mono font-black uppercase hover:opacity-80">Export Session</button>
                 </div>
               </div>
             </div>
@@ -813,11 +2532,79 @@ const AudioLab: React.FC = () => {
           ) : activeModule === 'KARAOKE' ? (
             <div className="h-full bg-black p-12 flex flex-col items-center justify-center relative">
               <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-emerald-500/20 to-transparent" />
+              {regions.length > 0 && (
+                <div className="absolute top-6 left-8 z-10 flex items-center gap-2">
+                  <button
+                    onClick={() => setIsLoopEnabled(!isLoopEnabled)}
+                    disabled={!loopRange}
+                    className={`px-3 py-1.5 rounded-lg text-[9px] mono uppercase font-bold border transition-all disabled:opacity-20 ${isLoopEnabled ? 'bg-emerald-500 border-emerald-500 text-black' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`}
+                  >
+                    Loop
+                  </button>
+                  {regions.map(region => (
+                    <button
+                      key={region.id}
+                      onClick={() => loopRegion(region)}
+                      className={`px-3 py-1.5 rounded-lg text-[9px] mono uppercase font-bold border transition-all ${isLoopEnabled && loopRange?.start === region.start && loopRange?.end === region.end ? 'bg-white text-black border-white' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`}
+                    >
+                      {region.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="absolute top-6 right-8 z-10 flex items-center gap-2">
+                <label className="flex items-center gap-2 text-[8px] mono text-white/30 uppercase mr-2" title="Longest time a line stays up before the next one">
+                  Hold
+                  <input
+                    type="number" min="1" max="30" step="0.5" value={lyricHoldSeconds}
+                    onChange={(e) => setLyricHoldSeconds(Math.max(0.5, parseFloat(e.target.value) || 6))}
+                    className="w-12 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white outline-none"
+                  />
+                  s
+                </label>
+                {(['SRT', 'LRC', 'VTT'] as LyricFormat[]).map(f => (
+                  <button
+                    key={f}
+                    onClick={() => handleExportLyrics(f)}
+                    disabled={!metadata?.lyrics?.length}
+                    className="px-3 py-1.5 rounded-lg text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-20 transition-all"
+                  >
+                    {f}
+                  </button>
+                ))}
+                <button
+                  onClick={() => lyricsInputRef.current?.click()}
+                  disabled={!metadata}
+                  className="px-3 py-1.5 rounded-lg text-[9px] mono uppercase font-bold bg-white text-black hover:opacity-80 disabled:opacity-20 transition-all"
+                >
+                  Import
+                </button>
+                <input type="file" className="hidden" ref={lyricsInputRef} accept=".srt,.lrc,.vtt,text/vtt" onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportLyrics(file);
+                  e.target.value = '';
+                }} />
+              </div>
               <div className="w-full flex-1 overflow-y-auto custom-scrollbar-hidden py-32 flex flex-col gap-12 mask-fade text-center">
-                {metadata?.lyrics?.map((line, idx) => (
+                {metadata?.lyrics?.map((line, idx) => editingLyricIndex === idx ? (
+                  <input
+                    key={idx}
+                    autoFocus
+                    value={lyricDraft}
+                    onChange={(e) => setLyricDraft(e.target.value)}
+                    onBlur={() => commitLyricEdit(idx)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setEditingLyricIndex(null);
+                    }}
+                    className="w-full bg-transparent border-b border-white/20 text-4xl lg:text-7xl font-black italic tracking-tighter text-center text-white outline-none"
+                  />
+                ) : (
                   <h4 
                     key={idx} 
                     onClick={() => jumpToTime(line.time)}
+                    onDoubleClick={() => { setEditingLyricIndex(idx); setLyricDraft(line.text); }}
+                    title="Double-click to edit"
                     className={`text-4xl lg:text-7xl font-black italic tracking-tighter transition-all duration-700 cursor-pointer ${idx === currentLyricIndex ? 'text-white scale-110 opacity-100' : 'text-white/10 scale-90 blur-[1px]'}`}
                   >
                     {line.text}
@@ -844,7 +2631,7 @@ const AudioLab: React.FC = () => {
                  <div className="h-full bg-gradient-to-r from-emerald-500 via-blue-500 to-purple-500 animate-pulse transition-all duration-300" style={{ width: `${processingProgress}%` }} />
               </div>
               <div className="h-32 bg-black/40 rounded-2xl border border-white/5 p-6 overflow-hidden font-mono text-[10px] text-emerald-500/80 italic space-y-1">
-                 {processingLog.map((log, i) => <div key={i} className="animate-in fade-in slide-in-from-left-2 opacity-60">>> {log}</div>)}
+                 {processingLog.map((log, i) => <div key={i} className="animate-in fade-in slide-in-from-left-2 opacity-60">{'>>'} {log}</div>)}
                  <div ref={logEndRef} />
               </div>
            </div>
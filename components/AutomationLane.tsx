@@ -0,0 +1,147 @@
+import React, { useRef } from 'react';
+import { AudioStem, AutomationParam, AutomationPoint } from '../types';
+import { AUTOMATION_PARAMS, AUTOMATION_RANGES, curveShape, setAutomationPoint } from '../utils/automation';
+
+interface AutomationLaneProps {
+  stem: AudioStem;
+  param: AutomationParam;
+  duration: number; // Song seconds across the timeline
+  zoom: number;
+  isWriting: boolean;
+  onParamChange: (param: AutomationParam) => void;
+  onToggleWrite: () => void;
+  onChange: (points: AutomationPoint[], label: string, coalesceKey?: string) => void;
+}
+
+const VIEW_WIDTH = 1000;
+const CURVE_STEPS = 24;
+const MIN_POINT_GAP = 0.02; // Seconds between a dragged point and its neighbours
+
+/** Automation lane under a stem track: click to add a breakpoint, drag to move, double-click to delete, right-click to toggle its curve. */
+const AutomationLane: React.FC<AutomationLaneProps> = ({ stem, param, duration, zoom, isWriting, onParamChange, onToggleWrite, onChange }) => {
+  const laneRef = useRef<HTMLDivElement>(null);
+  const pointsRef = useRef<AutomationPoint[]>([]);
+  const points = stem.automation?.[param] || [];
+  pointsRef.current = points;
+  const range = AUTOMATION_RANGES[param];
+  const staticValue = param === 'volume' ? stem.volume : stem.pan || 0;
+
+  const toX = (time: number) => (time / duration) * VIEW_WIDTH;
+  const toY = (value: number) => (1 - (value - range.min) / (range.max - range.min)) * 100;
+
+  const fromPointer = (e: MouseEvent | React.MouseEvent) => {
+    const rect = laneRef.current!.getBoundingClientRect();
+    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const y = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height));
+    return { time: x * duration, value: Math.round(range.max - y * (range.max - range.min)) };
+  };
+
+  const linePath = () => {
+    if (!points.length) return '';
+    const parts = [`M 0 ${toY(points[0].value)}`];
+    points.forEach((p, i) => {
+      const next = points[i + 1];
+      parts.push(`L ${toX(p.time)} ${toY(p.value)}`);
+      if (next && p.curve === 'curved') {
+        for (let s = 1; s < CURVE_STEPS; s++) {
+          const t = s / CURVE_STEPS;
+          parts.push(`L ${toX(p.time + (next.time - p.time) * t)} ${toY(p.value + (next.value - p.value) * curveShape(t))}`);
+        }
+      }
+    });
+    parts.push(`L ${VIEW_WIDTH} ${toY(points[points.length - 1].value)}`);
+    return parts.join(' ');
+  };
+
+  // Drags by index: moves are clamped between the neighbours, so the order never changes
+  const startDrag = (index: number) => {
+    const onMove = (e: MouseEvent) => {
+      const current = pointsRef.current;
+      const { time, value } = fromPointer(e);
+      const min = index > 0 ? current[index - 1].time + MIN_POINT_GAP : 0;
+      const max = index < current.length - 1 ? current[index + 1].time - MIN_POINT_GAP : duration;
+      const moved = current.map((p, i) => i === index ? { ...p, time: Math.max(min, Math.min(max, time)), value } : p);
+      onChange(moved, `Move ${stem.name} ${range.label} Point`, `automation-drag:${stem.id}:${param}`);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const handleLaneMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    const point: AutomationPoint = { ...fromPointer(e), curve: 'linear' };
+    const next = setAutomationPoint(points, point);
+    onChange(next, `Add ${stem.name} ${range.label} Point`);
+    startDrag(next.indexOf(point));
+  };
+
+  return (
+    <div className="flex h-20 border-b border-white/5 bg-black/40">
+      <div className="w-80 shrink-0 border-r border-white/10 px-4 flex items-center gap-2">
+        <span className={`text-[8px] mono font-black uppercase text-${stem.color}`}>Auto</span>
+        {AUTOMATION_PARAMS.map(p => (
+          <button
+            key={p}
+            onClick={() => onParamChange(p)}
+            className={`px-2 h-6 rounded-md text-[8px] mono font-black uppercase border transition-all ${p === param ? 'bg-white border-white text-black' : stem.automation?.[p]?.length ? 'border-white/20 text-white/70' : 'border-white/5 text-white/30 hover:border-white/20'}`}
+          >{AUTOMATION_RANGES[p].label}</button>
+        ))}
+        <button
+          onClick={onToggleWrite}
+          className={`px-2 h-6 rounded-md text-[8px] mono font-black uppercase border transition-all ${isWriting ? 'bg-red-500 border-red-500 text-white animate-pulse' : 'border-white/5 text-white/40 hover:border-white/20'}`}
+          title="Write: slider moves during playback are recorded into the lanes"
+        >Write</button>
+        <button
+          onClick={() => onChange([], `Clear ${stem.name} ${range.label} Automation`)}
+          disabled={!points.length}
+          className="ml-auto text-[8px] mono uppercase text-white/30 hover:text-white disabled:opacity-20"
+        >Clear</button>
+      </div>
+      <div className="flex-1 relative overflow-hidden">
+        <div className="relative h-full py-2" style={{ width: `${100 * zoom}%` }}>
+          <div ref={laneRef} className="relative h-full cursor-crosshair" onMouseDown={handleLaneMouseDown}>
+            <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none" viewBox={`0 0 ${VIEW_WIDTH} 100`} preserveAspectRatio="none">
+              {points.length ? (
+                <path d={linePath()} fill="none" stroke="white" strokeOpacity="0.8" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+              ) : (
+                <line x1="0" y1={toY(staticValue)} x2={VIEW_WIDTH} y2={toY(staticValue)} stroke="white" strokeOpacity="0.2" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+              )}
+            </svg>
+            {points.map((p, i) => (
+              <div
+                key={i}
+                onMouseDown={(e) => {
+                  if (e.button !== 0) return;
+                  e.stopPropagation();
+                  startDrag(i);
+                }}
+                onDoubleClick={(e) => {
+                  e.stopPropagation();
+                  onChange(points.filter((_, j) => j !== i), `Delete ${stem.name} ${range.label} Point`);
+                }}
+                onContextMenu={(e) => {
+                  e.preventDefault();
+                  onChange(points.map((q, j) => j === i ? { ...q, curve: q.curve === 'curved' ? 'linear' : 'curved' } : q), `${stem.name} ${range.label} Curve`);
+                }}
+                className={`absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 border border-white cursor-move ${p.curve === 'curved' ? 'rounded-full' : 'rotate-45'} bg-${stem.color}`}
+                style={{ left: `${(p.time / duration) * 100}%`, top: `${toY(p.value)}%` }}
+                title={`${p.time.toFixed(2)}s · ${p.value} · ${p.curve} (double-click to delete, right-click to toggle curve)`}
+              />
+            ))}
+            {!points.length && (
+              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[8px] mono text-white/20 uppercase pointer-events-none">
+                Click to add {range.label.toLowerCase()} breakpoints, or arm Write and move the slider during playback
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutomationLane;
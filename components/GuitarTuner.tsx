@@ -1,7 +1,10 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-
-type TuningMode = 'Standard' | 'Drop D';
+import { PitchDetection, detectPitch, findNearestString, frequencyToMidi, midiToFrequency, midiToNoteName, centsBetween } from '../utils/pitchDetection';
+import {
+  A4_DEFAULT, A4_MAX, A4_MIN, INSTRUMENTS, InstrumentId, PRESET_TUNINGS, Tuning,
+  getFrequencyRange, loadCustomTunings, parseTuningNotes, saveCustomTunings
+} from '../utils/tunings';
 
 interface StringStatus {
   note: string;
@@ -10,54 +13,161 @@ interface StringStatus {
   active: boolean;
 }
 
-const TUNINGS: Record<TuningMode, string[]> = {
-  'Standard': ['E2', 'A2', 'D3', 'G3', 'B3', 'E4'],
-  'Drop D': ['D2', 'A2', 'D3', 'G3', 'B3', 'E4'],
-};
+interface ChromaticReading {
+  note: string;
+  cents: number;
+}
+
+const CHROMATIC_RANGE = { minFrequency: 27, maxFrequency: 2100 };
+const IN_TUNE_CENTS = 5;
+const MIN_CONFIDENCE = 0.8;
+const ANALYSIS_INTERVAL_MS = 40;
+const CENTS_SMOOTHING = 0.35; // Weight of each new reading
 
 const GuitarTuner: React.FC = () => {
-  const [mode, setMode] = useState<TuningMode>('Standard');
+  const [instrument, setInstrument] = useState<InstrumentId>('GUITAR_6');
+  const [customTunings, setCustomTunings] = useState<Tuning[]>(() => loadCustomTunings());
+  const [tuningId, setTuningId] = useState('standard');
+  const [isChromatic, setIsChromatic] = useState(false);
+  const [referencePitch, setReferencePitch] = useState(A4_DEFAULT);
+  const [isEditingCustom, setIsEditingCustom] = useState(false);
+  const [customName, setCustomName] = useState('');
+  const [customNotes, setCustomNotes] = useState('');
+  const [customError, setCustomError] = useState<string | null>(null);
+
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [stringStates, setStringStates] = useState<StringStatus[]>([]);
+  const [chromatic, setChromatic] = useState<ChromaticReading | null>(null);
+  const [detection, setDetection] = useState<PitchDetection | null>(null);
+  const [noiseGateDb, setNoiseGateDb] = useState(-50);
   const animationRef = useRef<number>(null);
   const audioContextRef = useRef<AudioContext>(null);
   const analyserRef = useRef<AnalyserNode>(null);
+  const streamRef = useRef<MediaStream>(null);
+
+  const instrumentTunings = [...PRESET_TUNINGS, ...customTunings].filter(t => t.instrument === instrument);
+  const tuning = instrumentTunings.find(t => t.id === tuningId) || instrumentTunings[0];
+
+  // The analysis loop runs on an interval, so it reads the latest settings through a ref
+  const settingsRef = useRef({ tuning, isChromatic, referencePitch, noiseGateDb });
+  settingsRef.current = { tuning, isChromatic, referencePitch, noiseGateDb };
 
   useEffect(() => {
-    setStringStates(TUNINGS[mode].map(note => ({
+    setStringStates(tuning.notes.map(note => ({
       note,
-      cents: (Math.random() * 40) - 20, // Initial random offset
+      cents: 0,
       inTune: false,
       active: false
     })));
-  }, [mode]);
+  }, [tuning.id, tuning.notes.join(' ')]);
+
+  useEffect(() => () => stopMonitoring(), []);
+
+  const stopMonitoring = () => {
+    if (animationRef.current) clearInterval(animationRef.current);
+    animationRef.current = null;
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    analyserRef.current = null;
+    setDetection(null);
+    setStringStates(prev => prev.map(s => ({ ...s, active: false })));
+  };
+
+  const analyseFrame = (buffer: Float32Array) => {
+    const analyser = analyserRef.current;
+    const ctx = audioContextRef.current;
+    if (!analyser || !ctx) return;
+
+    const settings = settingsRef.current;
+    analyser.getFloatTimeDomainData(buffer);
+    const range = settings.isChromatic ? CHROMATIC_RANGE : getFrequencyRange(settings.tuning.notes, settings.referencePitch);
+    const result = detectPitch(buffer, ctx.sampleRate, { ...range, noiseGateDb: settings.noiseGateDb });
+    setDetection(result);
+
+    const confident = result.frequency && result.confidence >= MIN_CONFIDENCE ? result.frequency : null;
+
+    if (settings.isChromatic) {
+      if (!confident) return setChromatic(null);
+      const midi = Math.round(frequencyToMidi(confident, settings.referencePitch));
+      setChromatic({
+        note: midiToNoteName(midi),
+        cents: centsBetween(confident, midiToFrequency(midi, settings.referencePitch))
+      });
+      return;
+    }
+
+    const nearest = confident ? findNearestString(confident, settings.tuning.notes, settings.referencePitch) : null;
+
+    setStringStates(prev => prev.map((s, idx) => {
+      if (!nearest || nearest.index !== idx) return { ...s, active: false };
+      const cents = s.active ? s.cents + (nearest.cents - s.cents) * CENTS_SMOOTHING : nearest.cents;
+      return {
+        ...s,
+        cents: Math.max(-50, Math.min(50, cents)),
+        inTune: Math.abs(cents) < IN_TUNE_CENTS,
+        active: true
+      };
+    }));
+  };
+
+  const selectInstrument = (id: InstrumentId) => {
+    setInstrument(id);
+    const first = [...PRESET_TUNINGS, ...customTunings].find(t => t.instrument === id);
+    if (first) setTuningId(first.id);
+    setIsEditingCustom(false);
+  };
+
+  const saveCustomTuning = () => {
+    const notes = parseTuningNotes(customNotes);
+    const expected = INSTRUMENTS.find(i => i.id === instrument)!.stringCount;
+    if (!customName.trim()) return setCustomError('Name the tuning first.');
+    if (!notes) return setCustomError('Use notes like E2 A2 D3 G3 B3 E4.');
+    if (notes.length !== expected) return setCustomError(`Expected ${expected} notes, got ${notes.length}.`);
+
+    const created: Tuning = { id: `custom-${Date.now()}`, name: customName.trim(), instrument, notes, custom: true };
+    const next = [...customTunings, created];
+    setCustomTunings(next);
+    saveCustomTunings(next);
+    setTuningId(created.id);
+    setIsEditingCustom(false);
+    setCustomName('');
+    setCustomNotes('');
+    setCustomError(null);
+  };
+
+  const deleteCustomTuning = (id: string) => {
+    const next = customTunings.filter(t => t.id !== id);
+    setCustomTunings(next);
+    saveCustomTunings(next);
+    if (tuningId === id) setTuningId(instrumentTunings[0].id);
+  };
 
   const toggleMonitor = async () => {
     if (isMonitoring) {
       setIsMonitoring(false);
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+      stopMonitoring();
       return;
     }
 
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Browser voice processing smears pitch, so ask for the raw signal
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+      });
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 4096;
+      ctx.createMediaStreamSource(stream).connect(analyser);
+
+      streamRef.current = stream;
+      audioContextRef.current = ctx;
+      analyserRef.current = analyser;
       setIsMonitoring(true);
-      
-      // Simulation logic for visual feedback
-      const updateLoop = () => {
-        setStringStates(prev => prev.map(s => {
-          const jitter = (Math.random() - 0.5) * 2;
-          const newCents = Math.max(-50, Math.min(50, s.cents + jitter));
-          return {
-            ...s,
-            cents: newCents,
-            inTune: Math.abs(newCents) < 5,
-            active: Math.random() > 0.8 // Randomly simulate which string is "heard"
-          };
-        }));
-        animationRef.current = requestAnimationFrame(updateLoop);
-      };
-      updateLoop();
+
+      const buffer = new Float32Array(analyser.fftSize);
+      animationRef.current = window.setInterval(() => analyseFrame(buffer), ANALYSIS_INTERVAL_MS);
     } catch (err) {
       console.error("Mic access denied", err);
       alert("Microphone access is required for the tuner.");
@@ -74,17 +184,22 @@ const GuitarTuner: React.FC = () => {
 
         <div className="flex items-center gap-4">
           <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
-            {(['Standard', 'Drop D'] as TuningMode[]).map((m) => (
-              <button
-                key={m}
-                onClick={() => setMode(m)}
-                className={`px-4 py-2 text-[10px] mono uppercase font-bold rounded-lg transition-all ${
-                  mode === m ? 'bg-white text-black' : 'text-white/40 hover:text-white'
-                }`}
-              >
-                {m}
-              </button>
-            ))}
+            <button
+              onClick={() => setIsChromatic(false)}
+              className={`px-4 py-2 text-[10px] mono uppercase font-bold rounded-lg transition-all ${
+                !isChromatic ? 'bg-white text-black' : 'text-white/40 hover:text-white'
+              }`}
+            >
+              Strings
+            </button>
+            <button
+              onClick={() => setIsChromatic(true)}
+              className={`px-4 py-2 text-[10px] mono uppercase font-bold rounded-lg transition-all ${
+                isChromatic ? 'bg-white text-black' : 'text-white/40 hover:text-white'
+              }`}
+            >
+              Chromatic
+            </button>
           </div>
           
           <button
@@ -98,7 +213,96 @@ const GuitarTuner: React.FC = () => {
         </div>
       </div>
 
-      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 h-64">
+      {!isChromatic && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap bg-black/40 p-1 rounded-xl border border-white/5 w-fit">
+            {INSTRUMENTS.map(i => (
+              <button
+                key={i.id}
+                onClick={() => selectInstrument(i.id)}
+                className={`px-4 py-2 text-[10px] mono uppercase font-bold rounded-lg transition-all ${
+                  instrument === i.id ? 'bg-white text-black' : 'text-white/40 hover:text-white'
+                }`}
+              >
+                {i.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {instrumentTunings.map(t => (
+              <div key={t.id} className="flex items-center">
+                <button
+                  onClick={() => setTuningId(t.id)}
+                  title={t.notes.join(' ')}
+                  className={`px-3 py-1.5 text-[9px] mono uppercase font-bold border transition-all ${t.custom ? 'rounded-l-lg' : 'rounded-lg'} ${
+                    tuning.id === t.id ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'
+                  }`}
+                >
+                  {t.name}
+                </button>
+                {t.custom && (
+                  <button
+                    onClick={() => deleteCustomTuning(t.id)}
+                    title="Delete custom tuning"
+                    className="px-2 py-1.5 text-[9px] mono border border-l-0 border-white/10 rounded-r-lg text-white/30 hover:text-red-400"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => { setIsEditingCustom(!isEditingCustom); setCustomNotes(tuning.notes.join(' ')); setCustomError(null); }}
+              className="px-3 py-1.5 text-[9px] mono uppercase font-bold rounded-lg border border-dashed border-white/20 text-white/40 hover:text-white"
+            >
+              + Custom
+            </button>
+          </div>
+
+          {isEditingCustom && (
+            <div className="flex flex-wrap items-center gap-2 bg-black/40 border border-white/5 p-3 rounded-2xl">
+              <input
+                value={customName}
+                onChange={(e) => setCustomName(e.target.value)}
+                placeholder="Tuning name"
+                className="bg-black border border-white/10 rounded-lg px-3 py-2 text-xs outline-none focus:border-white/40"
+              />
+              <input
+                value={customNotes}
+                onChange={(e) => setCustomNotes(e.target.value)}
+                placeholder="Low to high, e.g. C2 G2 C3 F3 A3 D4"
+                className="flex-1 min-w-[200px] bg-black border border-white/10 rounded-lg px-3 py-2 text-xs mono outline-none focus:border-white/40"
+              />
+              <button onClick={saveCustomTuning} className="px-4 py-2 bg-white text-black text-[9px] mono uppercase font-bold rounded-lg">Save</button>
+              {customError && <p className="w-full text-[10px] mono text-red-400">{customError}</p>}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isChromatic ? (
+        <div className="h-64 flex flex-col items-center justify-center gap-6">
+          <div className={`text-8xl font-black italic tracking-tighter transition-colors ${
+            chromatic && Math.abs(chromatic.cents) < IN_TUNE_CENTS ? 'text-emerald-400' : chromatic ? 'text-amber-400' : 'text-white/10'
+          }`}>
+            {chromatic?.note || '--'}
+          </div>
+          <div className="relative w-full max-w-md h-2 bg-white/5 rounded-full">
+            <div className="absolute left-1/2 -translate-x-1/2 -top-1 w-px h-4 bg-white/40" />
+            {chromatic && (
+              <div
+                className="absolute -top-1 w-4 h-4 rounded-full bg-white -translate-x-1/2 transition-all duration-150"
+                style={{ left: `${50 + chromatic.cents}%` }}
+              />
+            )}
+          </div>
+          <p className="text-[10px] mono text-white/40 uppercase">
+            {chromatic ? `${chromatic.cents >= 0 ? '+' : ''}${chromatic.cents.toFixed(1)} cents` : 'Play any note'}
+          </p>
+        </div>
+      ) : (
+      <div className="grid grid-cols-2 md:grid-cols-[repeat(var(--strings),minmax(0,1fr))] gap-4 h-64" style={{ '--strings': stringStates.length } as React.CSSProperties}>
         {stringStates.map((s, idx) => (
           <div key={idx} className="relative flex flex-col items-center justify-between group">
             {/* Tuning Meter */}
@@ -127,7 +331,7 @@ const GuitarTuner: React.FC = () => {
               <div className={`text-2xl font-black italic transition-colors ${s.inTune ? 'text-emerald-400' : 'text-white/20'}`}>
                 {s.note.replace(/[0-9]/, '')}
               </div>
-              <div className="text-[10px] mono text-white/40 uppercase tracking-widest">String {6 - idx}</div>
+              <div className="text-[10px] mono text-white/40 uppercase tracking-widest">String {stringStates.length - idx}</div>
             </div>
 
             {/* Visual String Vibration */}
@@ -142,6 +346,37 @@ const GuitarTuner: React.FC = () => {
           </div>
         ))}
       </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-black/40 border border-white/5 p-4 rounded-2xl">
+          <p className="text-[8px] mono text-white/30 uppercase mb-1">Detected Pitch</p>
+          <p className="text-xl mono font-bold">{detection?.frequency ? `${detection.frequency.toFixed(2)} Hz` : '--'}</p>
+        </div>
+        <div className="bg-black/40 border border-white/5 p-4 rounded-2xl">
+          <p className="text-[8px] mono text-white/30 uppercase mb-1">Confidence</p>
+          <div className="flex items-center gap-3">
+            <p className={`text-xl mono font-bold ${(detection?.confidence || 0) >= MIN_CONFIDENCE ? 'text-emerald-400' : 'text-white/40'}`}>
+              {Math.round((detection?.confidence || 0) * 100)}%
+            </p>
+            <div className="flex-1 h-1 bg-white/5 rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-400 transition-all duration-100" style={{ width: `${(detection?.confidence || 0) * 100}%` }} />
+            </div>
+          </div>
+        </div>
+        <div className="bg-black/40 border border-white/5 p-4 rounded-2xl space-y-2">
+          <div className="flex justify-between text-[8px] mono text-white/30 uppercase">
+            <span>Noise Gate</span>
+            <span className={detection?.gated ? 'text-amber-400' : 'text-emerald-400'}>
+              {detection ? (detection.gated ? 'Closed' : 'Open') : 'Idle'} · {noiseGateDb} dB
+            </span>
+          </div>
+          <div className="relative h-1 bg-white/5 rounded-full overflow-hidden">
+            <div className="absolute inset-y-0 left-0 bg-white/40 transition-all duration-100" style={{ width: `${Math.max(0, Math.min(100, ((detection?.rmsDb ?? -80) + 80) / 80 * 100))}%` }} />
+          </div>
+          <input type="range" min="-80" max="-20" value={noiseGateDb} onChange={(e) => setNoiseGateDb(parseInt(e.target.value))} className="w-full h-1 accent-white" />
+        </div>
+      </div>
 
       <div className="flex justify-center">
          <div className="px-6 py-3 bg-white/5 border border-white/5 rounded-2xl flex items-center gap-6">
@@ -154,7 +389,14 @@ const GuitarTuner: React.FC = () => {
                <span className="text-[10px] mono text-white/40 uppercase">Flat / Sharp</span>
             </div>
             <div className="h-4 w-px bg-white/10" />
-            <p className="text-[10px] mono text-white/40 uppercase italic">Calibration: A=440Hz</p>
+            <label className="flex items-center gap-3 text-[10px] mono text-white/40 uppercase italic">
+              <span onDoubleClick={() => setReferencePitch(A4_DEFAULT)} title="Double-click to reset">Calibration: A={referencePitch}Hz</span>
+              <input
+                type="range" min={A4_MIN} max={A4_MAX} value={referencePitch}
+                onChange={(e) => setReferencePitch(parseInt(e.target.value))}
+                className="w-24 h-1 accent-white"
+              />
+            </label>
          </div>
       </div>
 
@@ -0,0 +1,41 @@
+import React from 'react';
+import { EditHistory } from '../utils/editHistory';
+
+interface HistoryPanelProps {
+  history: EditHistory<unknown>;
+  onJump: (position: number) => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => {
+  const timeline = [...history.past, ...history.future];
+  const position = history.past.length;
+
+  // Position 0 is the state the session was opened in; position n follows the nth command
+  const rows = [{ label: 'Session Opened', timestamp: null as number | null }, ...timeline.map(c => ({ label: c.label, timestamp: c.timestamp as number | null }))];
+
+  return (
+    <div className="absolute right-8 top-full mt-2 w-72 max-h-96 flex flex-col bg-[#0a0a0a] border border-white/10 rounded-2xl shadow-2xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/5">
+        <span className="text-[9px] mono uppercase font-bold text-white/60 tracking-widest">Edit History</span>
+        <button onClick={onClose} className="text-[9px] mono uppercase text-white/30 hover:text-white">Close</button>
+      </div>
+      <div className="flex-1 overflow-y-auto py-1">
+        {rows.map((row, i) => (
+          <button
+            key={i}
+            onClick={() => onJump(i)}
+            className={`w-full flex items-center justify-between px-4 py-2 text-left transition-all ${
+              i === position ? 'bg-white/10 text-white' : i > position ? 'text-white/20 hover:bg-white/5' : 'text-white/60 hover:bg-white/5'
+            }`}
+          >
+            <span className="text-[10px] mono uppercase truncate">{row.label}</span>
+            {row.timestamp && <span className="text-[8px] mono text-white/20 shrink-0 ml-2">{new Date(row.timestamp).toLocaleTimeString()}</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
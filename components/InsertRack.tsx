@@ -0,0 +1,150 @@
+import React from 'react';
+import ParamSlider from './ParamSlider';
+import { AudioStem, AuxReturn, EqBand, InsertEffect, InsertEffectType, MixBus } from '../types';
+import { INSERT_EFFECT_LABELS, INSERT_EFFECT_TYPES, createInsertEffect, effectParamControls, formatParamValue, setEffectParam } from '../utils/insertEffects';
+
+interface InsertRackProps {
+  stem: AudioStem;
+  buses: MixBus[];
+  returns: AuxReturn[];
+  onChange: (inserts: InsertEffect[], label: string, coalesceKey?: string) => void;
+  onRoute: (changes: Partial<AudioStem>, label: string, coalesceKey?: string) => void;
+}
+
+const BAND_LABELS: Record<EqBand['type'], string> = { lowshelf: 'Low Shelf', peaking: 'Peak', highshelf: 'High Shelf' };
+const EQ_GAIN_RANGE_DB = 18;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const FREQUENCY_STEPS = 1000;
+
+// Frequency sliders move in equal steps per octave
+const frequencyToSlider = (hz: number) => Math.round((Math.log(hz / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY)) * FREQUENCY_STEPS);
+const sliderToFrequency = (value: number) => Math.round(MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, value / FREQUENCY_STEPS));
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)}k` : `${Math.round(hz)}`);
+
+/** Insert chain editor for one stem (effects run left to right, before the fader), with its output and aux sends. */
+const InsertRack: React.FC<InsertRackProps> = ({ stem, buses, returns, onChange, onRoute }) => {
+  const inserts = stem.inserts || [];
+
+  const update = (effect: InsertEffect, label: string, coalesceKey?: string) =>
+    onChange(inserts.map(e => e.id === effect.id ? effect : e), label, coalesceKey);
+
+  const add = (type: InsertEffectType) => onChange([...inserts, createInsertEffect(type)], `Add ${INSERT_EFFECT_LABELS[type]} to ${stem.name}`);
+
+  const move = (index: number, direction: 1 | -1) => {
+    const target = index + direction;
+    if (target < 0 || target >= inserts.length) return;
+    const reordered = [...inserts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered, `Reorder ${stem.name} Inserts`);
+  };
+
+  const setBand = (effect: InsertEffect, index: number, changes: Partial<EqBand>) => {
+    if (effect.type !== 'eq') return;
+    const bands = effect.params.bands.map((band, i) => i === index ? { ...band, ...changes } : band);
+    update({ ...effect, params: { bands } }, `${stem.name} EQ Band ${index + 1}`, `insert:${effect.id}:band${index}`);
+  };
+
+  return (
+    <div className="flex border-b border-white/5 bg-black/60">
+      <div className="w-80 shrink-0 border-r border-white/10 p-4 flex flex-col gap-2">
+        <span className="text-[8px] mono text-white/40 uppercase tracking-widest">{stem.name} Inserts</span>
+        <div className="flex flex-wrap gap-1">
+          {INSERT_EFFECT_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => add(type)}
+              className="px-2 h-6 rounded-lg text-[8px] mono font-black uppercase border border-white/10 bg-white/5 text-white/60 hover:bg-white/10"
+            >+ {INSERT_EFFECT_LABELS[type]}</button>
+          ))}
+        </div>
+        <div className="space-y-2 border-t border-white/5 pt-2 mt-1">
+          <div className="flex items-center justify-between">
+            <span className="text-[7px] mono text-white/30 uppercase">Output</span>
+            <select
+              value={stem.busId || ''}
+              onChange={(e) => onRoute({ busId: e.target.value || undefined }, `Route ${stem.name} to ${buses.find(b => b.id === e.target.value)?.name || 'Master'}`)}
+              className="bg-black/60 border border-white/10 rounded px-1 py-0.5 text-[9px] mono text-white outline-none"
+            >
+              <option value="">Master</option>
+              {buses.map(bus => <option key={bus.id} value={bus.id}>{bus.name}</option>)}
+            </select>
+          </div>
+          {returns.map(ret => {
+            const level = stem.sends?.[ret.id] ?? 0;
+            return (
+              <ParamSlider
+                key={ret.id}
+                label={`Send ${ret.name}`} display={`${level}%`}
+                value={level} min={0} max={100} step={1}
+                onChange={(v) => onRoute({ sends: { ...stem.sends, [ret.id]: v } }, `${stem.name} ${ret.name} Send`, `send:${stem.id}:${ret.id}`)}
+              />
+            );
+          })}
+        </div>
+      </div>
+      <div className="flex-1 flex gap-3 p-4 overflow-x-auto custom-scrollbar">
+        {inserts.map((effect, index) => (
+          <div
+            key={effect.id}
+            className={`w-56 shrink-0 rounded-2xl border p-3 space-y-2 transition-all ${effect.bypassed ? 'border-white/5 bg-black/40 opacity-50' : 'border-white/10 bg-white/[0.03]'}`}
+          >
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => update({ ...effect, bypassed: !effect.bypassed }, `${effect.bypassed ? 'Enable' : 'Bypass'} ${stem.name} ${INSERT_EFFECT_LABELS[effect.type]}`)}
+                className={`w-3 h-3 rounded-full border ${effect.bypassed ? 'border-white/20' : `bg-${stem.color} border-transparent`}`}
+                title={effect.bypassed ? 'Enable' : 'Bypass'}
+              />
+              <span className="text-[9px] mono font-black uppercase text-white/80 ml-1">{index + 1}. {INSERT_EFFECT_LABELS[effect.type]}</span>
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="ml-auto text-[9px] text-white/30 hover:text-white disabled:opacity-20" title="Move earlier">◀</button>
+              <button onClick={() => move(index, 1)} disabled={index === inserts.length - 1} className="text-[9px] text-white/30 hover:text-white disabled:opacity-20" title="Move later">▶</button>
+              <button
+                onClick={() => onChange(inserts.filter(e => e.id !== effect.id), `Remove ${stem.name} ${INSERT_EFFECT_LABELS[effect.type]}`)}
+                className="text-[10px] text-white/30 hover:text-white ml-1"
+                title="Remove"
+              >×</button>
+            </div>
+
+            {effect.type === 'eq' ? (
+              effect.params.bands.map((band, b) => (
+                <div key={b} className="space-y-1 border-t border-white/5 pt-1">
+                  <span className="text-[7px] mono text-white/40 uppercase">{BAND_LABELS[band.type]}</span>
+                  <div className="grid grid-cols-2 gap-2">
+                    <ParamSlider
+                      label="Freq" display={`${formatFrequency(band.frequency)}Hz`}
+                      value={frequencyToSlider(band.frequency)} min={0} max={FREQUENCY_STEPS} step={1}
+                      onChange={(v) => setBand(effect, b, { frequency: sliderToFrequency(v) })}
+                    />
+                    <ParamSlider
+                      label="Gain" display={`${band.gain > 0 ? '+' : ''}${band.gain}dB`}
+                      value={band.gain} min={-EQ_GAIN_RANGE_DB} max={EQ_GAIN_RANGE_DB} step={0.5}
+                      onChange={(v) => setBand(effect, b, { gain: v })}
+                    />
+                  </div>
+                  {band.type === 'peaking' && (
+                    <ParamSlider label="Q" display={band.q.toFixed(1)} value={band.q} min={0.3} max={8} step={0.1} onChange={(v) => setBand(effect, b, { q: v })} />
+                  )}
+                </div>
+              ))
+            ) : (
+              effectParamControls(effect).map(({ spec, value }) => (
+                <ParamSlider
+                  key={spec.key}
+                  label={spec.label} display={formatParamValue(value, spec.unit)}
+                  value={value} min={spec.min} max={spec.max} step={spec.step}
+                  onChange={(v) => update(setEffectParam(effect, spec.key, v), `${stem.name} ${INSERT_EFFECT_LABELS[effect.type]} ${spec.key}`, `insert:${effect.id}:${spec.key}`)}
+                />
+              ))
+            )}
+          </div>
+        ))}
+        {!inserts.length && (
+          <span className="self-center text-[8px] mono text-white/20 uppercase">No inserts - add an effect to process this stem before its fader</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InsertRack;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { LoudnessReading } from '../utils/loudness';
+
+interface LoudnessMeterProps {
+  reading: LoudnessReading;
+  onReset: () => void;
+}
+
+const formatLoudness = (value: number) => (Number.isFinite(value) ? value.toFixed(1) : '--');
+
+/** EBU R128 readout of the master: momentary, short-term, integrated, loudness range and max true peak. */
+const LoudnessMeter: React.FC<LoudnessMeterProps> = ({ reading, onReset }) => {
+  const values = [
+    { label: 'M', value: formatLoudness(reading.momentary), title: 'Momentary loudness (400 ms), LUFS' },
+    { label: 'S', value: formatLoudness(reading.shortTerm), title: 'Short-term loudness (3 s), LUFS' },
+    { label: 'I', value: formatLoudness(reading.integrated), title: 'Integrated loudness since the reset, LUFS' },
+    { label: 'LRA', value: reading.range.toFixed(1), title: 'Loudness range, LU' },
+    { label: 'TP', value: formatLoudness(reading.truePeak), title: 'Highest true peak since the reset, dBTP' },
+  ];
+  return (
+    <div className="flex items-center gap-3">
+      {values.map(({ label, value, title }) => (
+        <div key={label} className="text-center" title={title}>
+          <p className="text-[8px] mono text-white/30 uppercase">{label}</p>
+          <p className={`text-sm mono font-bold ${label === 'TP' && reading.truePeak > -1 ? 'text-red-400' : label === 'I' ? 'text-amber-300' : 'text-white/80'}`}>{value}</p>
+        </div>
+      ))}
+      <button onClick={onReset} className="text-[8px] mono uppercase text-white/30 hover:text-white" title="Reset integrated loudness, range and true peak">Reset</button>
+    </div>
+  );
+};
+
+export default LoudnessMeter;
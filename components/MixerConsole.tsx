@@ -0,0 +1,132 @@
+import React from 'react';
+import ParamSlider from './ParamSlider';
+import { AudioStem, AuxReturn, MasterChannel, MixBus, MixerRouting } from '../types';
+import { INSERT_EFFECT_LABELS, effectParamControls, formatParamValue, setEffectParam } from '../utils/insertEffects';
+import { createBus } from '../utils/mixRouting';
+import { MeterReading, SILENCE_DB, dbToMeterPosition, formatDb } from '../utils/metering';
+
+interface MixerConsoleProps {
+  routing: MixerRouting;
+  stems: AudioStem[];
+  masterReading: MeterReading | null; // Peak values are true peak
+  onChange: (routing: MixerRouting, label: string, coalesceKey?: string) => void;
+  onDeleteBus: (bus: MixBus) => void;
+  onResetClip: () => void;
+}
+
+const TRUE_PEAK_FLOOR_DB = -48;
+
+const MuteButton: React.FC<{ muted: boolean; onClick: () => void }> = ({ muted, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`w-6 h-6 rounded-md text-[9px] mono font-black border transition-all ${muted ? 'bg-red-500 border-red-500 text-white' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+  >M</button>
+);
+
+/** Group buses, aux returns and the master strip, below the stem tracks. */
+const MixerConsole: React.FC<MixerConsoleProps> = ({ routing, stems, masterReading, onChange, onDeleteBus, onResetClip }) => {
+  const { buses, returns, master } = routing;
+
+  const updateBus = (bus: MixBus, changes: Partial<MixBus>, label: string, coalesceKey?: string) =>
+    onChange({ ...routing, buses: buses.map(b => b.id === bus.id ? { ...b, ...changes } : b) }, label, coalesceKey);
+
+  const updateReturn = (ret: AuxReturn, changes: Partial<AuxReturn>, label: string, coalesceKey?: string) =>
+    onChange({ ...routing, returns: returns.map(r => r.id === ret.id ? { ...r, ...changes } : r) }, label, coalesceKey);
+
+  const updateMaster = (changes: Partial<MasterChannel>, label: string, coalesceKey?: string) =>
+    onChange({ ...routing, master: { ...master, ...changes } }, label, coalesceKey);
+
+  const truePeakDb = masterReading?.peakHoldDb ?? SILENCE_DB;
+
+  return (
+    <div className="flex gap-3 px-4 py-3 border-t border-white/10 bg-black/60 overflow-x-auto custom-scrollbar">
+      {buses.map(bus => {
+        const members = stems.filter(s => s.busId === bus.id).length;
+        return (
+          <div key={bus.id} className="w-40 shrink-0 rounded-2xl border border-white/10 bg-white/[0.03] p-3 space-y-2">
+            <div className="flex items-center gap-1">
+              <input
+                value={bus.name}
+                onChange={(e) => updateBus(bus, { name: e.target.value }, `Rename ${bus.name}`, `bus-name:${bus.id}`)}
+                className="w-full bg-transparent text-[9px] mono font-black uppercase text-white/80 outline-none"
+              />
+              <MuteButton muted={bus.muted} onClick={() => updateBus(bus, { muted: !bus.muted }, `${bus.muted ? 'Unmute' : 'Mute'} ${bus.name}`)} />
+              <button onClick={() => onDeleteBus(bus)} className="text-[10px] text-white/30 hover:text-white" title="Delete bus">×</button>
+            </div>
+            <ParamSlider label="Gain" display={`${bus.volume}%`} value={bus.volume} min={0} max={100} step={1} onChange={(v) => updateBus(bus, { volume: v }, `${bus.name} Gain`, `bus-volume:${bus.id}`)} />
+            <ParamSlider label="Pan" display={bus.pan === 0 ? 'C' : bus.pan < 0 ? `${-bus.pan}L` : `${bus.pan}R`} value={bus.pan} min={-100} max={100} step={1} onChange={(v) => updateBus(bus, { pan: v }, `${bus.name} Pan`, `bus-pan:${bus.id}`)} />
+            <p className="text-[7px] mono text-white/20 uppercase">{members} stem{members === 1 ? '' : 's'}</p>
+          </div>
+        );
+      })}
+      <button
+        onClick={() => {
+          const bus = createBus(buses);
+          onChange({ ...routing, buses: [...buses, bus] }, `Add ${bus.name}`);
+        }}
+        className="w-20 shrink-0 rounded-2xl border border-dashed border-white/10 text-[8px] mono font-black uppercase text-white/40 hover:text-white hover:border-white/30"
+        title="Add a group bus; assign stems to it from their FX panel"
+      >+ Bus</button>
+
+      <div className="w-px shrink-0 bg-white/10" />
+
+      {returns.map(ret => (
+        <div key={ret.id} className="w-44 shrink-0 rounded-2xl border border-white/10 bg-white/[0.03] p-3 space-y-2">
+          <div className="flex items-center gap-1">
+            <span className="text-[9px] mono font-black uppercase text-white/80">{ret.name} Return</span>
+            <span className="ml-auto" />
+            <MuteButton muted={ret.muted} onClick={() => updateReturn(ret, { muted: !ret.muted }, `${ret.muted ? 'Unmute' : 'Mute'} ${ret.name} Return`)} />
+          </div>
+          <ParamSlider label="Gain" display={`${ret.volume}%`} value={ret.volume} min={0} max={100} step={1} onChange={(v) => updateReturn(ret, { volume: v }, `${ret.name} Return Gain`, `return-volume:${ret.id}`)} />
+          {effectParamControls(ret.effect).filter(({ spec }) => spec.key !== 'mix').map(({ spec, value }) => (
+            <ParamSlider
+              key={spec.key}
+              label={spec.label} display={formatParamValue(value, spec.unit)}
+              value={value} min={spec.min} max={spec.max} step={spec.step}
+              onChange={(v) => updateReturn(
+                ret,
+                { effect: setEffectParam(ret.effect, spec.key, v) },
+                `${ret.name} ${INSERT_EFFECT_LABELS[ret.effect.type]} ${spec.key}`,
+                `return-param:${ret.id}:${spec.key}`
+              )}
+            />
+          ))}
+        </div>
+      ))}
+
+      <div className="w-64 shrink-0 ml-auto rounded-2xl border border-white/20 bg-white/[0.05] p-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <span className="text-[9px] mono font-black uppercase text-white">Master</span>
+          <button
+            onClick={() => updateMaster({ limiter: !master.limiter }, `${master.limiter ? 'Disable' : 'Enable'} Master Limiter`)}
+            className={`ml-auto px-2 h-6 rounded-md text-[8px] mono font-black uppercase border transition-all ${master.limiter ? 'bg-emerald-500 border-emerald-500 text-black' : 'bg-black/40 border-white/5 text-white/40 hover:border-white/20'}`}
+          >Limiter</button>
+        </div>
+        <ParamSlider label="Gain" display={`${master.volume}%`} value={master.volume} min={0} max={100} step={1} onChange={(v) => updateMaster({ volume: v }, 'Master Gain', 'master-volume')} />
+        <div className={`grid grid-cols-2 gap-2 ${master.limiter ? '' : 'opacity-30'}`}>
+          <ParamSlider label="Ceiling" display={`${master.ceiling.toFixed(1)}dBTP`} value={master.ceiling} min={-6} max={0} step={0.1} onChange={(v) => updateMaster({ ceiling: v }, 'Limiter Ceiling', 'master-ceiling')} />
+          <ParamSlider label="Release" display={`${master.release}ms`} value={master.release} min={10} max={1000} step={10} onChange={(v) => updateMaster({ release: v }, 'Limiter Release', 'master-release')} />
+        </div>
+        {/* True-peak meter */}
+        <div className="flex items-center gap-2">
+          <span className="text-[7px] mono text-white/30 uppercase">TP</span>
+          <div className="relative flex-1 h-2 rounded-sm bg-black/60 border border-white/5 overflow-hidden">
+            <div
+              className={`absolute inset-y-0 left-0 transition-all duration-75 ${truePeakDb > master.ceiling ? 'bg-red-500' : truePeakDb > -6 ? 'bg-amber-400' : 'bg-emerald-400'}`}
+              style={{ width: `${dbToMeterPosition(masterReading?.peakDb ?? SILENCE_DB, TRUE_PEAK_FLOOR_DB) * 100}%` }}
+            />
+            <div className="absolute inset-y-0 w-px bg-white/60" style={{ left: `${dbToMeterPosition(truePeakDb, TRUE_PEAK_FLOOR_DB) * 100}%` }} />
+          </div>
+          <span className={`text-[8px] mono w-16 text-right ${masterReading?.clipped ? 'text-red-400' : 'text-white/60'}`}>{formatDb(truePeakDb)}</span>
+          <button
+            onClick={onResetClip}
+            title="True peak over 0 dBTP (click to reset)"
+            className={`w-2 h-2 rounded-full ${masterReading?.clipped ? 'bg-red-500 shadow-[0_0_6px_rgba(239,68,68,0.8)]' : 'bg-white/10'}`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MixerConsole;
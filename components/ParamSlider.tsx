@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface ParamSliderProps {
+  label: string;
+  display: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const ParamSlider: React.FC<ParamSliderProps> = ({ label, display, value, min, max, step, onChange }) => (
+  <div className="space-y-0.5">
+    <div className="flex justify-between text-[7px] mono text-white/30 uppercase">
+      <span>{label}</span>
+      <span className="text-white/60">{display}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step} value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-white/5 accent-white cursor-ew-resize"
+    />
+  </div>
+);
+
+export default ParamSlider;
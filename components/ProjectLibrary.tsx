@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  LibraryEntry,
+  StorageQuota,
+  deleteProject,
+  duplicateProject,
+  getStorageQuota,
+  listProjects,
+  migrateLegacySlot,
+  renameProject,
+} from '../services/projectLibrary';
+
+interface ProjectLibraryProps {
+  currentProjectId: string | null;
+  refreshKey: number; // Bumped by the parent after every save
+  onOpen: (id: string) => void;
+  onRenamed: (entry: LibraryEntry) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1048576) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1073741824) return `${(bytes / 1048576).toFixed(1)} MB`;
+  return `${(bytes / 1073741824).toFixed(2)} GB`;
+};
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ currentProjectId, refreshKey, onOpen, onRenamed, onDeleted, onClose }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [quota, setQuota] = useState<StorageQuota | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listProjects());
+      setQuota(await getStorageQuota());
+      setError(null);
+    } catch (err) {
+      console.error("Library read failed", err);
+      setError("Project library is unavailable in this browser.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    migrateLegacySlot().finally(refresh);
+  }, [refreshKey]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error("Library update failed", err);
+      alert("Library update failed.");
+    }
+    refresh();
+  };
+
+  const commitRename = (id: string) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name) return;
+    runAction(async () => onRenamed(await renameProject(id, name)));
+  };
+
+  const handleDelete = (entry: LibraryEntry) => {
+    if (!confirm(`Delete "${entry.name}" and its audio from this browser?`)) return;
+    runAction(async () => {
+      await deleteProject(entry.id);
+      onDeleted(entry.id);
+    });
+  };
+
+  const quotaRatio = quota && quota.quota > 0 ? Math.min(1, quota.usage / quota.quota) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-xl flex items-center justify-center p-8" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-full flex flex-col bg-[#0a0a0a] border border-white/10 rounded-[2rem] overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-white/5">
+          <div>
+            <h3 className="text-lg font-black uppercase tracking-tight">Project Library</h3>
+            <p className="text-[9px] mono text-white/30 uppercase tracking-widest mt-1">{entries.length} Sessions Stored Locally</p>
+          </div>
+          <button onClick={onClose} className="p-2 px-4 rounded-xl text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 transition-all">Close</button>
+        </div>
+
+        {quota && (
+          <div className="px-6 py-4 border-b border-white/5 space-y-2">
+            <div className="flex justify-between text-[9px] mono uppercase text-white/40">
+              <span>Storage</span>
+              <span>{formatBytes(quota.usage)} / {formatBytes(quota.quota)}</span>
+            </div>
+            <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+              <div className={`h-full ${quotaRatio > 0.9 ? 'bg-red-500' : quotaRatio > 0.7 ? 'bg-amber-400' : 'bg-emerald-400'}`} style={{ width: `${quotaRatio * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {error && <p className="text-[10px] mono text-red-400 uppercase">{error}</p>}
+          {!isLoading && !error && entries.length === 0 && (
+            <p className="text-center py-16 text-[10px] mono text-white/20 uppercase tracking-widest">No saved sessions yet. Use Save in the master bar.</p>
+          )}
+          {entries.map(entry => (
+            <div key={entry.id} className={`flex items-center gap-4 p-3 rounded-2xl border transition-all ${entry.id === currentProjectId ? 'border-white/30 bg-white/5' : 'border-white/5 hover:border-white/10'}`}>
+              <div className="w-14 h-14 shrink-0 rounded-xl overflow-hidden bg-white/5 border border-white/10 flex items-center justify-center">
+                {entry.thumbnail
+                  ? <img src={entry.thumbnail} alt="" className="w-full h-full object-cover" />
+                  : <span className="text-lg font-black text-white/20">{entry.name.charAt(0).toUpperCase()}</span>}
+              </div>
+              <div className="flex-1 min-w-0">
+                {renamingId === entry.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={() => commitRename(entry.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(entry.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full bg-black border border-white/20 rounded-lg px-2 py-1 text-sm font-bold outline-none"
+                  />
+                ) : (
+                  <p className="text-sm font-bold truncate">{entry.name}</p>
+                )}
+                <p className="text-[9px] mono text-white/30 uppercase mt-1">
+                  {new Date(entry.updatedAt).toLocaleString()} · {entry.stemCount} Stems · {entry.duration ? formatDuration(entry.duration) : 'No Audio'} · {formatBytes(entry.sizeBytes)}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => onOpen(entry.id)} className="p-2 px-3 rounded-lg text-[9px] mono uppercase font-bold bg-white text-black hover:bg-white/80 transition-all">Open</button>
+                <button onClick={() => { setRenamingId(entry.id); setRenameValue(entry.name); }} className="p-2 px-3 rounded-lg text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 transition-all">Rename</button>
+                <button onClick={() => runAction(() => duplicateProject(entry.id))} className="p-2 px-3 rounded-lg text-[9px] mono uppercase font-bold border border-white/10 bg-white/5 hover:bg-white/10 transition-all">Duplicate</button>
+                <button onClick={() => handleDelete(entry)} className="p-2 px-3 rounded-lg text-[9px] mono uppercase font-bold border border-red-500/20 text-red-400 hover:bg-red-500/10 transition-all">Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
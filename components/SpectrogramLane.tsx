@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { COLORMAPS, Colormap, FrequencyScale, Spectrogram, frequencyAtPosition, paintSpectrogram } from '../utils/spectrogram';
+
+interface SpectrogramLaneProps {
+  spectrogram: Spectrogram | null;
+  isAnalysing: boolean;
+  duration: number; // Song seconds across the lane
+  playbackProgress: number; // 0..100
+  sourceLabel: string;
+  onAnalyse: () => void;
+}
+
+const HEIGHT = 160;
+const MAX_CANVAS_WIDTH = 16384;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+const LOG_TICKS = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+const LINEAR_TICK_HZ = 4000;
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : `${hz}`);
+
+/** Scrollable spectrogram of one stem or the master. Ctrl/Cmd + wheel zooms around the pointer. */
+const SpectrogramLane: React.FC<SpectrogramLaneProps> = ({ spectrogram, isAnalysing, duration, playbackProgress, sourceLabel, onAnalyse }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [scale, setScale] = useState<FrequencyScale>('log');
+  const [colormap, setColormap] = useState<Colormap>('magma');
+  const [zoom, setZoom] = useState(1);
+  const [viewWidth, setViewWidth] = useState(0);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewWidth(el.clientWidth));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const canvasWidth = Math.min(MAX_CANVAS_WIDTH, Math.round(viewWidth * zoom));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !spectrogram || !canvasWidth) return;
+    canvas.width = canvasWidth;
+    canvas.height = HEIGHT;
+    const pixels = paintSpectrogram(spectrogram, canvasWidth, HEIGHT, duration, scale, colormap);
+    canvas.getContext('2d')!.putImageData(new ImageData(pixels, canvasWidth, HEIGHT), 0, 0);
+  }, [spectrogram, canvasWidth, duration, scale, colormap]);
+
+  // Native listener: React's wheel handlers are passive and cannot stop the page zooming
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      const pointer = e.clientX - el.getBoundingClientRect().left;
+      const anchor = (el.scrollLeft + pointer) / el.scrollWidth;
+      setZoom(prev => {
+        const next = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev * (e.deltaY < 0 ? 1.25 : 0.8)));
+        requestAnimationFrame(() => { el.scrollLeft = anchor * el.scrollWidth - pointer; });
+        return next;
+      });
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const nyquist = (spectrogram?.sampleRate || 44100) / 2;
+  const ticks = scale === 'log'
+    ? LOG_TICKS.filter(hz => hz < nyquist)
+    : Array.from({ length: Math.floor(nyquist / LINEAR_TICK_HZ) }, (_, i) => (i + 1) * LINEAR_TICK_HZ);
+  const tickPosition = (hz: number) => {
+    if (scale === 'linear') return hz / nyquist;
+    // Inverse of frequencyAtPosition for the log scale
+    const bottom = frequencyAtPosition(0, 'log', nyquist);
+    return Math.log(hz / bottom) / Math.log(nyquist / bottom);
+  };
+
+  return (
+    <div className="flex h-full border-b border-white/5 bg-black/40" style={{ minHeight: HEIGHT + 16 }}>
+      <div className="w-80 shrink-0 border-r border-white/10 px-4 py-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <span className="text-[8px] mono font-black uppercase text-white/60">Spectrogram</span>
+          <span className="text-[8px] mono uppercase text-white/30 truncate">{sourceLabel}</span>
+          <button
+            onClick={onAnalyse}
+            disabled={isAnalysing}
+            className="ml-auto px-2 h-6 rounded-md text-[8px] mono font-black uppercase border border-white/10 text-white/60 hover:bg-white/10 disabled:opacity-30"
+          >{isAnalysing ? 'Analysing...' : spectrogram ? 'Refresh' : 'Analyse'}</button>
+        </div>
+        <div className="flex items-center gap-1">
+          {(['log', 'linear'] as FrequencyScale[]).map(s => (
+            <button
+              key={s}
+              onClick={() => setScale(s)}
+              className={`px-2 h-6 rounded-md text-[8px] mono font-black uppercase border transition-all ${s === scale ? 'bg-white border-white text-black' : 'border-white/5 text-white/40 hover:border-white/20'}`}
+            >{s}</button>
+          ))}
+          <select
+            value={colormap}
+            onChange={(e) => setColormap(e.target.value as Colormap)}
+            className="ml-auto bg-black border border-white/10 rounded-md h-6 px-1 text-[8px] mono uppercase text-white/60 outline-none"
+          >
+            {COLORMAPS.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-[8px] mono text-white/30 uppercase">Zoom</span>
+          <input type="range" min={MIN_ZOOM} max={MAX_ZOOM} step="0.5" value={zoom} onChange={(e) => setZoom(parseFloat(e.target.value))} className="flex-1 accent-white h-1 bg-white/10 rounded" />
+          <span className="text-[8px] mono text-white/40 w-8">{zoom.toFixed(1)}x</span>
+        </div>
+      </div>
+      <div className="flex-1 relative min-w-0">
+        <div ref={scrollRef} className="absolute inset-0 overflow-x-auto overflow-y-hidden custom-scrollbar">
+          <div className="relative" style={{ width: canvasWidth || '100%', height: HEIGHT }}>
+            <canvas ref={canvasRef} className="block w-full" style={{ height: HEIGHT, imageRendering: 'pixelated' }} />
+            <div className="absolute top-0 bottom-0 w-[1px] bg-white/80 pointer-events-none" style={{ left: `${playbackProgress}%` }} />
+          </div>
+        </div>
+        <div className="absolute left-0 top-0 pointer-events-none" style={{ height: HEIGHT }}>
+          {spectrogram && ticks.map(hz => (
+            <span key={hz} className="absolute left-1 text-[7px] mono text-white/50 -translate-y-1/2" style={{ top: `${(1 - tickPosition(hz)) * 100}%` }}>{formatHz(hz)}</span>
+          ))}
+        </div>
+        {!spectrogram && (
+          <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[8px] mono text-white/20 uppercase pointer-events-none">
+            {isAnalysing ? 'Computing spectrogram...' : 'Analyse to compute the spectrogram of the selected source'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpectrogramLane;
@@ -0,0 +1,90 @@
+import React, { useEffect, useRef } from 'react';
+import { phaseCorrelation } from '../utils/metering';
+
+interface StereoScopeProps {
+  isActive: boolean; // Polls while playing
+  read: () => [Float32Array, Float32Array] | null;
+}
+
+const SIZE = 140;
+const TRAIL_FADE = 0.25; // Share of the previous frame wiped each redraw
+const CORRELATION_SMOOTHING = 0.8;
+
+/**
+ * Goniometer (vectorscope) and phase-correlation meter. Mono plots as a vertical line,
+ * wide material spreads sideways and out-of-phase content leans towards the horizontal;
+ * a correlation below zero means the source partly cancels when folded to mono.
+ */
+const StereoScope: React.FC<StereoScopeProps> = ({ isActive, read }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const needleRef = useRef<HTMLDivElement>(null);
+  const valueRef = useRef<HTMLSpanElement>(null);
+  const readRef = useRef(read);
+  readRef.current = read;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const g = canvas.getContext('2d')!;
+    let correlation = 0;
+    let frame = 0;
+
+    const showCorrelation = (value: number) => {
+      needleRef.current!.style.left = `${(value + 1) * 50}%`;
+      needleRef.current!.style.backgroundColor = value < 0 ? '#f87171' : '#34d399';
+      valueRef.current!.textContent = `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+    };
+
+    if (!isActive) {
+      g.clearRect(0, 0, SIZE, SIZE);
+      showCorrelation(0);
+      return;
+    }
+
+    const draw = () => {
+      g.fillStyle = `rgba(0, 0, 0, ${TRAIL_FADE})`;
+      g.fillRect(0, 0, SIZE, SIZE);
+      const samples = readRef.current();
+      if (samples) {
+        const [left, right] = samples;
+        const half = SIZE / 2;
+        g.fillStyle = 'rgba(52, 211, 153, 0.6)';
+        // Rotate 45 degrees: side (R - L) across, mid (L + R) up
+        for (let i = 0; i < left.length; i += 2) {
+          const x = half + ((right[i] - left[i]) / Math.SQRT2) * half;
+          const y = half - ((left[i] + right[i]) / Math.SQRT2) * half;
+          g.fillRect(x, y, 1, 1);
+        }
+        correlation = correlation * CORRELATION_SMOOTHING + phaseCorrelation(left, right) * (1 - CORRELATION_SMOOTHING);
+        showCorrelation(correlation);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [isActive]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative mx-auto rounded-full overflow-hidden border border-white/10 bg-black" style={{ width: SIZE, height: SIZE }}>
+        <canvas ref={canvasRef} width={SIZE} height={SIZE} className="absolute inset-0" />
+        <div className="absolute left-1/2 top-0 bottom-0 w-[1px] bg-white/10 pointer-events-none" />
+        <div className="absolute top-1/2 left-0 right-0 h-[1px] bg-white/10 pointer-events-none" />
+        <span className="absolute left-3 top-3 text-[7px] mono text-white/30">L</span>
+        <span className="absolute right-3 top-3 text-[7px] mono text-white/30">R</span>
+        <span className="absolute left-1/2 top-1 -translate-x-1/2 text-[7px] mono text-white/30">M</span>
+      </div>
+      <div className="flex items-center gap-2" title="Phase correlation: +1 mono, 0 unrelated channels, -1 out of phase">
+        <span className="text-[7px] mono text-white/30">-1</span>
+        <div className="relative flex-1 h-2 rounded-full bg-gradient-to-r from-red-500/30 via-white/10 to-emerald-500/30">
+          <div className="absolute left-1/2 top-0 bottom-0 w-[1px] bg-white/30" />
+          <div ref={needleRef} className="absolute top-[-2px] bottom-[-2px] w-1 -translate-x-1/2 rounded-full" style={{ left: '50%' }} />
+        </div>
+        <span className="text-[7px] mono text-white/30">+1</span>
+        <span ref={valueRef} className="text-[9px] mono font-bold text-white/70 w-8 text-right">+0.00</span>
+      </div>
+    </div>
+  );
+};
+
+export default StereoScope;
@@ -0,0 +1,64 @@
+import React, { useRef } from 'react';
+import { AudioClip, AudioStem } from '../types';
+import { moveClip, raiseClip } from '../utils/recording';
+
+interface TakeClipsProps {
+  stem: AudioStem;
+  duration: number; // Song seconds across the timeline
+  onChange: (clips: AudioClip[], label: string, coalesceKey?: string) => void;
+}
+
+/** Recorded clips over a stem's waveform: drag to move, right-click to bring to the top, double-click to delete. */
+const TakeClips: React.FC<TakeClipsProps> = ({ stem, duration, onChange }) => {
+  const clipsRef = useRef<AudioClip[]>([]);
+  const clips = stem.clips || [];
+  clipsRef.current = clips;
+  const top = clips[clips.length - 1];
+
+  const startDrag = (e: React.MouseEvent, clip: AudioClip) => {
+    const width = (e.currentTarget.parentElement as HTMLElement).getBoundingClientRect().width;
+    const originX = e.clientX;
+    const length = clip.end - clip.start;
+    const onMove = (ev: MouseEvent) => {
+      const start = Math.max(0, Math.min(duration - length, clip.start + ((ev.clientX - originX) / width) * duration));
+      onChange(moveClip(clipsRef.current, clip.id, start), `Move ${clip.name}`, `clip-move:${clip.id}`);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {clips.map(clip => (
+        <div
+          key={clip.id}
+          onMouseDown={(e) => {
+            if (e.button !== 0) return;
+            e.stopPropagation();
+            startDrag(e, clip);
+          }}
+          onClick={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            onChange(clips.filter(c => c.id !== clip.id), `Delete ${clip.name}`);
+          }}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            if (clip !== top) onChange(raiseClip(clips, clip.id), `Bring ${clip.name} to Top`);
+          }}
+          className={`absolute top-3 bottom-3 rounded-md border pointer-events-auto cursor-move bg-${stem.color}/10 ${clip === top ? `border-${stem.color}` : `border-${stem.color}/40 border-dashed`}`}
+          style={{ left: `${(clip.start / duration) * 100}%`, width: `${((clip.end - clip.start) / duration) * 100}%` }}
+          title={`${clip.name} · ${clip.start.toFixed(2)}s - ${clip.end.toFixed(2)}s (drag to move, right-click to bring to top, double-click to delete)`}
+        >
+          <span className={`absolute left-1 top-0.5 text-[7px] mono font-black uppercase text-${stem.color} truncate max-w-full`}>{clip.name}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TakeClips;
@@ -0,0 +1,93 @@
+/**
+ * Checks utils/loudness.ts against the reference signals of EBU Tech 3341 (loudness meters)
+ * and Tech 3342 (loudness range), built here as 1 kHz stereo sines at the stated levels.
+ * Each case runs through both the offline measurement and the live meter fed on a 100 ms hop.
+ * Exits non-zero if any reading is outside the spec's tolerance.
+ *
+ *   npm run check:loudness
+ */
+import {
+  MOMENTARY_SECONDS, SILENT_LOUDNESS, blockPowers, createLoudnessMeterState, kWeight, kWeightingFilters, measureLoudness, updateLoudnessMeter,
+} from '../utils/loudness';
+
+const SAMPLE_RATE = 48000;
+const HOP_SECONDS = 0.1;
+
+// Stereo 1 kHz sine, `dbfs` being the peak level of each channel, in consecutive stretches
+const sineSteps = (steps: [seconds: number, dbfs: number][]): Float32Array[] => {
+  const length = steps.reduce((sum, [seconds]) => sum + Math.round(seconds * SAMPLE_RATE), 0);
+  const channel = new Float32Array(length);
+  let offset = 0;
+  for (const [seconds, dbfs] of steps) {
+    const amplitude = Math.pow(10, dbfs / 20);
+    const frames = Math.round(seconds * SAMPLE_RATE);
+    for (let i = 0; i < frames; i++) channel[offset + i] = amplitude * Math.sin((2 * Math.PI * 1000 * (offset + i)) / SAMPLE_RATE);
+    offset += frames;
+  }
+  return [channel, channel.slice()];
+};
+
+// The live meter as the UI drives it: one momentary block per poll
+const meterReading = (channels: Float32Array[]) => {
+  const weighted = channels.map(c => kWeight(c, SAMPLE_RATE));
+  const state = createLoudnessMeterState();
+  let reading = SILENT_LOUDNESS;
+  blockPowers(weighted, SAMPLE_RATE, MOMENTARY_SECONDS, HOP_SECONDS).forEach((power, i) => {
+    reading = updateLoudnessMeter(state, power, 0, i * HOP_SECONDS * 1000);
+  });
+  return reading;
+};
+
+let failures = 0;
+const expect = (label: string, actual: number, expected: number, tolerance: number) => {
+  const ok = Math.abs(actual - expected) <= tolerance;
+  if (!ok) failures++;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}: ${actual.toFixed(tolerance < 0.01 ? 9 : 3)} (expected ${expected} ±${tolerance})`);
+};
+
+// BS.1770-4 tables the coefficients are derived to match at 48 kHz
+const [shelf, highpass] = kWeightingFilters(SAMPLE_RATE);
+const COEFFICIENT_TOLERANCE = 1e-6;
+expect('K-weighting shelf b0', shelf.b[0], 1.53512485958697, COEFFICIENT_TOLERANCE);
+expect('K-weighting shelf b1', shelf.b[1], -2.69169618940638, COEFFICIENT_TOLERANCE);
+expect('K-weighting shelf b2', shelf.b[2], 1.19839281085285, COEFFICIENT_TOLERANCE);
+expect('K-weighting shelf a1', shelf.a[1], -1.69065929318241, COEFFICIENT_TOLERANCE);
+expect('K-weighting shelf a2', shelf.a[2], 0.73248077421585, COEFFICIENT_TOLERANCE);
+expect('K-weighting high-pass a1', highpass.a[1], -1.99004745483398, COEFFICIENT_TOLERANCE);
+expect('K-weighting high-pass a2', highpass.a[2], 0.99007225036621, COEFFICIENT_TOLERANCE);
+
+// Tech 3341 table 1, integrated loudness within ±0.1 LU
+const INTEGRATED_CASES: { name: string; steps: [number, number][]; lufs: number }[] = [
+  { name: 'Tech 3341 case 1 (-23 dBFS)', steps: [[20, -23]], lufs: -23 },
+  { name: 'Tech 3341 case 2 (-33 dBFS)', steps: [[20, -33]], lufs: -33 },
+  { name: 'Tech 3341 case 3 (relative gate)', steps: [[10, -36], [60, -23], [10, -36]], lufs: -23 },
+  { name: 'Tech 3341 case 4 (absolute and relative gate)', steps: [[10, -72], [10, -36], [60, -23], [10, -36], [10, -72]], lufs: -23 },
+  { name: 'Tech 3341 case 5 (level steps)', steps: [[20, -26], [20.1, -20], [20, -26]], lufs: -23 },
+];
+
+for (const { name, steps, lufs } of INTEGRATED_CASES) {
+  const channels = sineSteps(steps);
+  expect(`${name}, integrated`, measureLoudness(channels, SAMPLE_RATE).integrated, lufs, 0.1);
+  expect(`${name}, live meter integrated`, meterReading(channels).integrated, lufs, 0.1);
+}
+
+const steady = measureLoudness(sineSteps([[20, -23]]), SAMPLE_RATE);
+expect('Tech 3341 case 1, momentary max', steady.momentaryMax, -23, 0.1);
+expect('Tech 3341 case 1, short-term max', steady.shortTermMax, -23, 0.1);
+
+// Tech 3342 table 1, loudness range within ±1 LU
+const RANGE_CASES: { name: string; steps: [number, number][]; lu: number }[] = [
+  { name: 'Tech 3342 case 1', steps: [[20, -20], [20, -30]], lu: 10 },
+  { name: 'Tech 3342 case 2', steps: [[20, -20], [20, -15]], lu: 5 },
+  { name: 'Tech 3342 case 3', steps: [[20, -40], [20, -20]], lu: 20 },
+  { name: 'Tech 3342 case 4', steps: [[20, -50], [20, -35], [20, -20], [20, -35], [20, -50]], lu: 15 },
+];
+
+for (const { name, steps, lu } of RANGE_CASES) {
+  const channels = sineSteps(steps);
+  expect(`${name}, range`, measureLoudness(channels, SAMPLE_RATE).range, lu, 1);
+  expect(`${name}, live meter range`, meterReading(channels).range, lu, 1);
+}
+
+console.log(failures ? `${failures} check(s) failed` : 'All loudness checks passed');
+process.exit(failures ? 1 : 0);
@@ -0,0 +1,59 @@
+import type { AnalysisMessage, AnalysisRequest, AudioAnalysis } from '../workers/audioAnalysis.worker';
+import type { StructureMessage, StructureRequest } from '../workers/structureAnalysis.worker';
+import type { StructureSection } from '../utils/structureDetection';
+
+export type { AudioAnalysis, StructureSection };
+
+/** Runs tempo, key and chord analysis over a decoded buffer on a worker thread. */
+export const analyseAudio = (buffer: AudioBuffer, onStage?: (stage: string) => void): Promise<AudioAnalysis> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/audioAnalysis.worker.ts', import.meta.url), { type: 'module' });
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+    const request: AnalysisRequest = { channels, sampleRate: buffer.sampleRate };
+
+    worker.onmessage = (e: MessageEvent<AnalysisMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onStage?.(message.stage);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.analysis);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+};
+
+/** Proposes song sections (intro, verse, chorus, ...) from the buffer's self-similarity on a worker thread. */
+export const analyseStructure = (
+  buffer: AudioBuffer,
+  downbeats: number[] = [],
+  onProgress?: (fraction: number) => void
+): Promise<StructureSection[]> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/structureAnalysis.worker.ts', import.meta.url), { type: 'module' });
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+    const request: StructureRequest = { channels, sampleRate: buffer.sampleRate, downbeats };
+
+    worker.onmessage = (e: MessageEvent<StructureMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.sections);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+};
@@ -0,0 +1,544 @@
+import { computeBandLevels, measurePeak, measureRms, measureTruePeak } from '../utils/metering';
+import { MOMENTARY_SECONDS, kWeightingFilters } from '../utils/loudness';
+import {
+  ChannelMix, ChannelSource, ChannelStrip, applyChannelMix, createChannelStrip, resetChannelAutomation, resolveChannelSources, scheduleChannelAutomation,
+} from './channelStrip';
+import { MixGraph, MixRouting, applyMixRouting, createMixGraph, routeChannel } from './mixGraph';
+
+interface EngineChannel extends ChannelStrip {
+  analysers: [AnalyserNode, AnalyserNode]; // Post-fader, left and right
+}
+
+export interface ChannelLevels {
+  peak: number; // Linear sample peak
+  rms: number; // Linear RMS
+  bandsDb: number[];
+}
+
+export interface MasterLevels {
+  peak: number; // Linear sample peak
+  truePeak: number; // Linear, 4x oversampled
+  rms: number;
+  momentaryPower: number; // K-weighted mean square over the last 400 ms, summed across channels (see utils/loudness.ts)
+}
+
+const FALLBACK_DURATION = 180; // Projects without decoded audio still get a timeline
+const METER_FFT_SIZE = 4096; // Long enough to cover the UI polling interval without gaps
+const LOUDNESS_FFT_SIZE = 32768; // The largest analyser window; covers 400 ms up to 81.9 kHz
+const AUTOMATION_INTERVAL_MS = 250;
+const AUTOMATION_LOOKAHEAD_SECONDS = 1;
+
+/** Pre-rendered tempo/pitch-shifted copies of the playback buffers, keyed by the original. */
+export interface TimeStretch {
+  tempo: number;
+  semitones: number;
+  buffers: Map<AudioBuffer, AudioBuffer>;
+}
+
+export interface LoopRange {
+  start: number; // Song seconds
+  end: number;
+}
+
+/** Maps song time to context time while playing: songTime plays at contextTime, advancing at `rate`. */
+export interface TransportAnchor {
+  contextTime: number;
+  songTime: number;
+  rate: number;
+  loop: LoopRange | null; // Set when playback wraps from loop.end back to loop.start
+}
+
+/** A stretch of context time over which song time advances linearly from songStart. */
+export interface TransportSegment {
+  contextStart: number;
+  contextEnd: number;
+  songStart: number;
+}
+
+/**
+ * Owns the AudioContext and the playback graph:
+ * source -> channel strip (see channelStrip.ts) -> [bus] -> master strip (see mixGraph.ts) -> monitor -> destination,
+ * with post-fader aux sends into shared returns, and L/R analyser pairs tapped off every
+ * channel and the master output for metering.
+ *
+ * Automation lanes are queued as AudioParam events a second ahead of the transport (following
+ * loop wraps and the playback rate), topped up by a timer and requeued whenever the transport
+ * or the lanes change.
+ */
+export class AudioEngine {
+  private context: AudioContext | null = null;
+  private monitor: GainNode | null = null;
+  private graph: MixGraph | null = null;
+  private masterAnalysers: [AnalyserNode, AnalyserNode] | null = null;
+  private loudnessAnalysers: [AnalyserNode, AnalyserNode] | null = null; // K-weighted master
+  private channels = new Map<string, EngineChannel>();
+  private mix: ChannelMix[] = [];
+  private routing: MixRouting | null = null;
+  private sourceMix: AudioBuffer | null = null;
+  private stemBuffers = new Map<string, AudioBuffer>();
+  private activeSources: { node: AudioBufferSourceNode; scale: number }[] = []; // scale: song seconds per buffer second
+  private stretch: TimeStretch | null = null;
+  private loop: LoopRange | null = null;
+  private automationTimer: number | null = null;
+  private automatedUntil = 0; // Context time up to which automation is queued
+
+  private playing = false;
+  private startContextTime = 0;
+  private startOffset = 0;
+  private rate = 1;
+
+  getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.monitor = this.context.createGain();
+      this.monitor.connect(this.context.destination);
+      this.graph = createMixGraph(this.context, this.monitor);
+      this.masterAnalysers = [this.context.createAnalyser(), this.context.createAnalyser()];
+      const splitter = this.context.createChannelSplitter(2);
+      this.graph.master.output.connect(splitter);
+      this.masterAnalysers.forEach((analyser, side) => {
+        analyser.fftSize = METER_FFT_SIZE;
+        splitter.connect(analyser, side);
+      });
+      // K-weighting runs in IIR filter nodes so the meter reads the filtered signal directly
+      const weighting = kWeightingFilters(this.context.sampleRate).map(({ b, a }) => this.context!.createIIRFilter(b, a));
+      const weightedSplitter = this.context.createChannelSplitter(2);
+      this.graph.master.output.connect(weighting[0]);
+      weighting[0].connect(weighting[1]);
+      weighting[1].connect(weightedSplitter);
+      this.loudnessAnalysers = [this.context.createAnalyser(), this.context.createAnalyser()];
+      this.loudnessAnalysers.forEach((analyser, side) => {
+        analyser.fftSize = LOUDNESS_FFT_SIZE;
+        weightedSplitter.connect(analyser, side);
+      });
+      if (this.routing) applyMixRouting(this.context, this.graph, this.routing);
+    }
+    return this.context;
+  }
+
+  /** Monitor output after the master strip, for auxiliary sources such as the metronome; they are neither limited nor metered. */
+  getOutput(): AudioNode {
+    this.getContext();
+    return this.monitor!;
+  }
+
+  async decode(data: Blob | ArrayBuffer): Promise<AudioBuffer> {
+    const bytes = data instanceof Blob ? await data.arrayBuffer() : data.slice(0);
+    return this.getContext().decodeAudioData(bytes);
+  }
+
+  setSourceMix(buffer: AudioBuffer | null) {
+    this.sourceMix = buffer;
+    this.restartIfPlaying();
+  }
+
+  setStemBuffer(id: string, buffer: AudioBuffer | null) {
+    if (buffer) this.stemBuffers.set(id, buffer);
+    else this.stemBuffers.delete(id);
+    this.restartIfPlaying();
+  }
+
+  clearBuffers() {
+    this.sourceMix = null;
+    this.stemBuffers.clear();
+    this.restartIfPlaying();
+  }
+
+  getDuration(): number {
+    const lengths = [this.sourceMix, ...this.stemBuffers.values()]
+      .filter((b): b is AudioBuffer => !!b)
+      .map(b => b.duration);
+    // Without a source mix, recorded takes must not shrink the timeline to their own length
+    if (!this.sourceMix) lengths.push(FALLBACK_DURATION);
+    return Math.max(...lengths);
+  }
+
+  /** Creates, updates or removes channel strips so they mirror the mixer state. */
+  setMix(mix: ChannelMix[]) {
+    const ctx = this.getContext();
+    const structureChanged =
+      mix.length !== this.mix.length || mix.some((m, i) => m.id !== this.mix[i]?.id);
+    const automationChanged = mix.some(m => m.automation !== this.mix.find(prev => prev.id === m.id)?.automation);
+    this.mix = mix;
+
+    for (const [id, channel] of this.channels) {
+      if (!mix.some(m => m.id === id)) {
+        channel.panner.disconnect();
+        this.channels.delete(id);
+      }
+    }
+
+    for (const m of mix) {
+      let channel = this.channels.get(m.id);
+      if (!channel) {
+        channel = {
+          ...createChannelStrip(ctx, this.graph!.master.input),
+          analysers: [ctx.createAnalyser(), ctx.createAnalyser()],
+        };
+
+        const splitter = ctx.createChannelSplitter(2);
+        channel.panner.connect(splitter);
+        channel.analysers.forEach((analyser, side) => {
+          analyser.fftSize = METER_FFT_SIZE;
+          analyser.smoothingTimeConstant = 0.6;
+          splitter.connect(analyser, side);
+        });
+        this.channels.set(m.id, channel);
+      }
+      applyChannelMix(ctx, channel, m);
+      routeChannel(ctx, this.graph!, channel, m);
+    }
+
+    if (structureChanged) this.restartIfPlaying();
+    else if (automationChanged && this.playing) this.requeueAutomation(Math.max(ctx.currentTime, this.startContextTime));
+  }
+
+  /** Updates buses, aux returns and the master strip, then re-routes every channel onto them. */
+  setRouting(routing: MixRouting) {
+    const ctx = this.getContext();
+    this.routing = routing;
+    applyMixRouting(ctx, this.graph!, routing);
+    for (const m of this.mix) {
+      const channel = this.channels.get(m.id);
+      if (channel) routeChannel(ctx, this.graph!, channel, m);
+    }
+  }
+
+  /** Most recent window of the master output: sample peak, true peak, RMS and momentary loudness power. */
+  readMasterLevels(): MasterLevels | null {
+    if (!this.masterAnalysers || !this.loudnessAnalysers || !this.context) return null;
+    const samples = this.masterAnalysers.map(a => {
+      const data = new Float32Array(a.fftSize);
+      a.getFloatTimeDomainData(data);
+      return data;
+    });
+    const momentaryLength = Math.min(LOUDNESS_FFT_SIZE, Math.round(MOMENTARY_SECONDS * this.context.sampleRate));
+    const momentaryPower = this.loudnessAnalysers.reduce((sum, a) => {
+      const data = new Float32Array(a.fftSize);
+      a.getFloatTimeDomainData(data);
+      let power = 0;
+      for (let i = data.length - momentaryLength; i < data.length; i++) power += data[i] * data[i];
+      return sum + power / momentaryLength;
+    }, 0);
+    return { peak: measurePeak(samples), truePeak: measureTruePeak(samples), rms: measureRms(samples), momentaryPower };
+  }
+
+  /** Node where live signals (input monitoring) enter a channel strip: past the source share gain, ahead of its inserts and fader. */
+  getChannelInput(id: string): AudioNode | null {
+    return this.channels.get(id)?.insertInput || null;
+  }
+
+  /** Most recent left/right sample windows of a channel, or of the master output when `id` is null. */
+  readStereoSamples(id: string | null): [Float32Array, Float32Array] | null {
+    const analysers = id === null ? this.masterAnalysers : this.channels.get(id)?.analysers;
+    if (!analysers) return null;
+    const [left, right] = analysers.map(a => {
+      const data = new Float32Array(a.fftSize);
+      a.getFloatTimeDomainData(data);
+      return data;
+    });
+    return [left, right];
+  }
+
+  /** Reads the most recent analyser window for a channel: true sample peak, RMS and log-spaced band levels. */
+  readChannelLevels(id: string, bandCount: number): ChannelLevels | null {
+    const channel = this.channels.get(id);
+    if (!channel || !this.context) return null;
+
+    const [left, right] = channel.analysers;
+    const samples = channel.analysers.map(a => {
+      const data = new Float32Array(a.fftSize);
+      a.getFloatTimeDomainData(data);
+      return data;
+    });
+
+    // Average left/right power per bin before banding
+    const spectrum = new Float32Array(left.frequencyBinCount);
+    const rightSpectrum = new Float32Array(right.frequencyBinCount);
+    left.getFloatFrequencyData(spectrum);
+    right.getFloatFrequencyData(rightSpectrum);
+    for (let i = 0; i < spectrum.length; i++) {
+      spectrum[i] = 10 * Math.log10((Math.pow(10, spectrum[i] / 10) + Math.pow(10, rightSpectrum[i] / 10)) / 2);
+    }
+
+    return {
+      peak: measurePeak(samples),
+      rms: measureRms(samples),
+      bandsDb: computeBandLevels(spectrum, this.context.sampleRate, bandCount),
+    };
+  }
+
+  /**
+   * Current mixer state and the buffers feeding it, for offline rendering. With `stretched`,
+   * sources are swapped for their time-stretched copies where those exist.
+   */
+  getRenderSources(stretched = false): { mix: ChannelMix[]; sources: ChannelSource[]; routing: MixRouting | null } {
+    const sources = resolveChannelSources(this.mix, this.sourceMix, this.stemBuffers);
+    if (!stretched || !this.stretch) return { mix: this.mix, sources, routing: this.routing };
+    const { buffers } = this.stretch;
+    return { mix: this.mix, sources: sources.map(src => ({ ...src, buffer: buffers.get(src.buffer) || src.buffer })), routing: this.routing };
+  }
+
+  /** Buffers playback currently reads from, each listed once. */
+  getPlaybackBuffers(): AudioBuffer[] {
+    return [...new Set(resolveChannelSources(this.mix, this.sourceMix, this.stemBuffers).map(src => src.buffer))];
+  }
+
+  /**
+   * Swaps in time-stretched buffers. Playback uses them while the playback rate matches
+   * their tempo and falls back to varispeed on the originals otherwise.
+   */
+  setTimeStretch(stretch: TimeStretch | null) {
+    this.stretch = stretch;
+    this.restartIfPlaying();
+  }
+
+  /** Whether every playback buffer has a stretched copy for these settings. */
+  hasTimeStretch(tempo: number, semitones: number) {
+    const stretch = this.stretch;
+    return !!stretch && stretch.tempo === tempo && stretch.semitones === semitones
+      && this.getPlaybackBuffers().every(buffer => stretch.buffers.has(buffer));
+  }
+
+  getSourceMix(): AudioBuffer | null {
+    return this.sourceMix;
+  }
+
+  getStemBuffers(): Map<string, AudioBuffer> {
+    return new Map(this.stemBuffers);
+  }
+
+  hasAudio() {
+    return !!this.sourceMix || this.stemBuffers.size > 0;
+  }
+
+  isPlaying() {
+    return this.playing;
+  }
+
+  getCurrentTime(): number {
+    if (!this.playing || !this.context) return this.startOffset;
+    // Negative while a delayed start (count-in) is still pending
+    const elapsed = Math.max(0, this.context.currentTime - this.startContextTime) * this.rate;
+    const position = this.startOffset + elapsed;
+    const loop = this.activeLoop();
+    if (loop && position >= loop.end) return loop.start + ((position - loop.start) % (loop.end - loop.start));
+    return Math.min(this.getDuration(), position);
+  }
+
+  getTransportAnchor(): TransportAnchor | null {
+    if (!this.playing) return null;
+    return { contextTime: this.startContextTime, songTime: this.startOffset, rate: this.rate, loop: this.activeLoop() };
+  }
+
+  /** Linear pieces of the song timeline that play between two context times, split at loop wraps. */
+  getTransportSegments(from: number, to: number): TransportSegment[] {
+    if (!this.playing) return [];
+    const loop = this.activeLoop();
+    let contextStart = this.startContextTime;
+    let songStart = this.startOffset;
+    const segments: TransportSegment[] = [];
+
+    while (contextStart < to) {
+      const contextEnd = loop ? contextStart + (loop.end - songStart) / this.rate : Infinity;
+      if (contextEnd > from) segments.push({ contextStart, contextEnd, songStart });
+      if (!loop) break;
+      // Skip whole loop passes that finished before `from`
+      const passSeconds = (loop.end - loop.start) / this.rate;
+      contextStart = contextEnd + Math.max(0, Math.floor((from - contextEnd) / passSeconds)) * passSeconds;
+      songStart = loop.start;
+    }
+    return segments;
+  }
+
+  /** Loops playback between two song times, or plays straight through with null. */
+  setLoop(loop: LoopRange | null) {
+    const current = this.loop;
+    if (current?.start === loop?.start && current?.end === loop?.end) return;
+    if (this.playing) {
+      const position = this.getCurrentTime();
+      this.loop = loop;
+      this.stopSources();
+      this.startSources(position, Math.max(this.getContext().currentTime, this.startContextTime));
+    } else {
+      this.loop = loop;
+    }
+  }
+
+  /** Starts playback `delay` seconds from now on the audio clock. Resolves with the start context time. */
+  async play(delay = 0): Promise<number> {
+    const ctx = this.getContext();
+    if (this.playing) return this.startContextTime;
+    if (ctx.state === 'suspended') await ctx.resume();
+    if (this.startOffset >= this.getDuration()) this.startOffset = 0;
+    this.startSources(this.startOffset, ctx.currentTime + delay);
+    this.playing = true;
+    this.requeueAutomation(this.startContextTime);
+    this.automationTimer = window.setInterval(() => this.queueAutomation(), AUTOMATION_INTERVAL_MS);
+    return this.startContextTime;
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.startOffset = this.getCurrentTime();
+    this.stopSources();
+    this.playing = false;
+    this.stopAutomation();
+  }
+
+  stop() {
+    this.stopSources();
+    this.playing = false;
+    this.startOffset = 0;
+    this.stopAutomation();
+  }
+
+  seek(time: number) {
+    const clamped = Math.max(0, Math.min(this.getDuration(), time));
+    if (this.playing) {
+      this.stopSources();
+      this.startSources(clamped);
+    } else {
+      this.startOffset = clamped;
+    }
+  }
+
+  setPlaybackRate(rate: number) {
+    if (rate === this.rate) return;
+    if (this.playing && this.getContext().currentTime >= this.startContextTime) {
+      // Rebase the clock so the new rate applies from the current position onwards
+      this.startOffset = this.getCurrentTime();
+      this.startContextTime = this.getContext().currentTime;
+    }
+    const wasStretched = this.usesStretch();
+    this.rate = rate;
+    if (wasStretched || this.usesStretch()) {
+      // Stretched buffers only fit their own tempo; switch buffers at the current position
+      this.restartIfPlaying();
+      return;
+    }
+    for (const { node, scale } of this.activeSources) {
+      node.playbackRate.setValueAtTime(rate / scale, this.getContext().currentTime);
+    }
+    if (this.playing) this.requeueAutomation(Math.max(this.getContext().currentTime, this.startContextTime));
+  }
+
+  dispose() {
+    this.stopSources();
+    this.playing = false;
+    this.stopAutomation();
+    this.stretch = null;
+    this.channels.clear();
+    this.context?.close();
+    this.context = null;
+    this.monitor = null;
+    this.graph = null;
+    this.masterAnalysers = null;
+    this.loudnessAnalysers = null;
+  }
+
+  private startSources(offset: number, when = this.getContext().currentTime) {
+    const ctx = this.getContext();
+    const stretch = this.usesStretch() ? this.stretch : null;
+    // Starting past the loop jumps back into it
+    if (this.loop && offset >= this.loop.end) offset = this.loop.start;
+    const loop = this.loop && offset < this.loop.end ? this.loop : null;
+
+    for (const { id, buffer, shareGain } of resolveChannelSources(this.mix, this.sourceMix, this.stemBuffers)) {
+      const channel = this.channels.get(id);
+      if (!channel || offset >= buffer.duration) continue;
+
+      const stretched = stretch?.buffers.get(buffer);
+      const scale = stretched ? stretch!.tempo : 1;
+      channel.input.gain.setValueAtTime(shareGain, when);
+      const source = ctx.createBufferSource();
+      source.buffer = stretched || buffer;
+      source.playbackRate.value = this.rate / scale;
+      if (loop) {
+        // Looping inside the source node wraps sample-accurately, without a gap
+        source.loop = true;
+        source.loopStart = loop.start / scale;
+        source.loopEnd = loop.end / scale;
+      }
+      source.connect(channel.input);
+      source.start(when, offset / scale);
+      this.activeSources.push({ node: source, scale });
+    }
+
+    this.startContextTime = when;
+    this.startOffset = offset;
+    if (this.playing) this.requeueAutomation(when);
+  }
+
+  private stopSources() {
+    for (const { node } of this.activeSources) {
+      try {
+        node.stop();
+      } catch {
+        // Source was never started or already ended
+      }
+      node.disconnect();
+    }
+    this.activeSources = [];
+  }
+
+  /** Cancels queued automation from `time` (a context time at or after the transport start) and queues it afresh. */
+  private requeueAutomation(time: number) {
+    const [segment] = this.getTransportSegments(time, time);
+    const songTime = segment ? segment.songStart + (time - segment.contextStart) * this.rate : this.startOffset;
+    for (const m of this.mix) {
+      const channel = this.channels.get(m.id);
+      if (channel) resetChannelAutomation(channel, m.automation, time, songTime);
+    }
+    this.automatedUntil = time;
+    this.queueAutomation();
+  }
+
+  /** Queues automation for every channel up to the lookahead horizon, split at loop wraps. */
+  private queueAutomation() {
+    if (!this.playing || !this.context) return;
+    const until = this.context.currentTime + AUTOMATION_LOOKAHEAD_SECONDS;
+    if (until <= this.automatedUntil) return;
+    const lanes = this.mix.filter(m => m.automation?.volume?.length || m.automation?.pan?.length);
+
+    for (const segment of this.getTransportSegments(this.automatedUntil, until)) {
+      const contextStart = Math.max(segment.contextStart, this.automatedUntil);
+      const contextEnd = Math.min(segment.contextEnd, until);
+      const span = {
+        contextStart,
+        contextEnd,
+        songStart: segment.songStart + (contextStart - segment.contextStart) * this.rate,
+        songEnd: segment.songStart + (contextEnd - segment.contextStart) * this.rate,
+        rate: this.rate,
+        // Lanes continue from the last pass; only a loop wrap jumps (requeueAutomation sets the value at the transport start)
+        jumps: contextStart === segment.contextStart && segment.contextStart !== this.startContextTime,
+      };
+      for (const m of lanes) {
+        const channel = this.channels.get(m.id);
+        if (channel) scheduleChannelAutomation(channel, m.automation, span);
+      }
+    }
+    this.automatedUntil = until;
+  }
+
+  private stopAutomation() {
+    if (this.automationTimer !== null) window.clearInterval(this.automationTimer);
+    this.automationTimer = null;
+  }
+
+  private activeLoop(): LoopRange | null {
+    return this.loop && this.startOffset < this.loop.end ? this.loop : null;
+  }
+
+  private usesStretch() {
+    return !!this.stretch && this.stretch.tempo === this.rate;
+  }
+
+  private restartIfPlaying() {
+    if (!this.playing) return;
+    const position = this.getCurrentTime();
+    this.stopSources();
+    // Keep a pending delayed start (count-in) where it was
+    this.startSources(position, Math.max(this.getContext().currentTime, this.startContextTime));
+  }
+}
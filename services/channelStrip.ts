@@ -0,0 +1,189 @@
+import { AutomationPoint, Effect, StemAutomation } from '../types';
+import { automationValueAt, sampleAutomation } from '../utils/automation';
+import { InsertChain, createInsertChain, syncInsertChain } from './insertChain';
+
+export interface ChannelMix {
+  id: string;
+  gain: number; // Linear, 0 to 1
+  pan: number; // -1 (Left) to 1 (Right)
+  audible: boolean;
+  inserts?: Effect[];
+  busId?: string; // Bus the channel feeds; the master when unset or missing
+  sends?: Record<string, number>; // Aux return id -> linear post-fader send gain
+  automation?: StemAutomation; // On the stem's 0-100 volume and -100..100 pan scales; lanes override gain and pan
+  ownsAudio?: boolean; // Plays only its own buffer (recorded stems), silent without one rather than sharing the source mix
+}
+
+export interface ChannelStrip {
+  input: GainNode; // Source share gain
+  insertInput: GainNode; // Unity, past the share gain; live signals (input monitoring) join here
+  inserts: InsertChain;
+  fader: GainNode;
+  automationGain: GainNode; // Volume lane, unity without one
+  panner: StereoPannerNode;
+  panAutomated: boolean; // Whether the pan lane currently owns panner.pan
+  output: AudioNode; // Where the panner currently feeds
+  sends: Map<string, { gain: GainNode; target: AudioNode }>;
+}
+
+export interface ChannelSource {
+  id: string;
+  buffer: AudioBuffer;
+  shareGain: number;
+}
+
+export const PARAM_SMOOTHING = 0.015; // Seconds, avoids zipper noise on fader moves
+
+/** Builds input -> insert input -> inserts -> fader -> automation gain -> StereoPanner -> output on any context, live or offline. */
+export const createChannelStrip = (ctx: BaseAudioContext, output: AudioNode): ChannelStrip => {
+  const strip: ChannelStrip = {
+    input: ctx.createGain(),
+    insertInput: ctx.createGain(),
+    inserts: createInsertChain(),
+    fader: ctx.createGain(),
+    automationGain: ctx.createGain(),
+    panner: ctx.createStereoPanner(),
+    panAutomated: false,
+    output,
+    sends: new Map(),
+  };
+  strip.input.connect(strip.insertInput);
+  strip.insertInput.connect(strip.fader);
+  strip.fader.connect(strip.automationGain);
+  strip.automationGain.connect(strip.panner);
+  strip.panner.connect(output);
+  return strip;
+};
+
+/** Static gain and pan. With an automation lane the fader sits at unity (mute/solo still apply) and the lane takes over. */
+export const applyChannelMix = (ctx: BaseAudioContext, strip: ChannelStrip, mix: ChannelMix, smooth = true) => {
+  const level = mix.automation?.volume?.length ? 1 : Math.max(0, Math.min(1, mix.gain));
+  const gain = mix.audible ? level : 0;
+  const pan = Math.max(-1, Math.min(1, mix.pan));
+  const panStatic = !mix.automation?.pan?.length;
+  syncInsertChain(ctx, strip.inserts, strip.insertInput, strip.fader, mix.inserts || [], smooth);
+  if (smooth) {
+    strip.fader.gain.setTargetAtTime(gain, ctx.currentTime, PARAM_SMOOTHING);
+    if (panStatic) strip.panner.pan.setTargetAtTime(pan, ctx.currentTime, PARAM_SMOOTHING);
+  } else {
+    strip.fader.gain.value = gain;
+    if (panStatic) strip.panner.pan.value = pan;
+  }
+};
+
+/** A stretch of song time played on the audio clock from contextStart, advancing `rate` song seconds per second. */
+export interface AutomationSpan {
+  contextStart: number;
+  contextEnd: number; // Where songEnd plays; the next span of a continuing schedule starts at exactly this time
+  songStart: number;
+  songEnd: number;
+  rate: number;
+  jumps: boolean; // Song time jumps to songStart here (a fresh start or a loop wrap); otherwise the span continues the last one
+}
+
+const CURVE_SAMPLES_PER_SECOND = 200; // Song-time resolution of curved segments
+
+/**
+ * Queues one lane over a span: linear segments become linear ramps, which the AudioParam
+ * computes per sample, and curved segments become value curves. Breakpoint values are
+ * multiplied by `scale` on the way in.
+ */
+const scheduleLane = (param: AudioParam, points: AutomationPoint[], { contextStart, contextEnd, songStart, songEnd, rate, jumps }: AutomationSpan, scale: number) => {
+  // Every event ends exactly where the next begins: a setValueAtTime or curve start that
+  // lands inside an earlier curve, even by rounding, throws
+  const toContext = (song: number) => (song >= songEnd ? contextEnd : Math.min(contextEnd, contextStart + (song - songStart) / rate));
+  if (jumps) param.setValueAtTime(automationValueAt(points, songStart) * scale, contextStart);
+
+  let next = points.findIndex(p => p.time > songStart); // First breakpoint after the current position
+  let from = songStart;
+  let fromContext = contextStart;
+  while (from < songEnd) {
+    const to = next >= 0 && next < points.length ? Math.min(songEnd, points[next].time) : songEnd;
+    const toContextTime = toContext(to);
+    if (next > 0 && points[next - 1].curve === 'curved' && points[next - 1].value !== points[next].value && toContextTime > fromContext) {
+      const curve = sampleAutomation(points, from, to, Math.ceil((to - from) * CURVE_SAMPLES_PER_SECOND) + 1).map(v => v * scale);
+      param.setValueCurveAtTime(curve, fromContext, toContextTime - fromContext);
+    } else {
+      param.linearRampToValueAtTime(automationValueAt(points, to) * scale, toContextTime);
+    }
+    from = to;
+    fromContext = toContextTime;
+    if (next >= 0) next++;
+    if (next >= points.length) next = -1;
+  }
+};
+
+/** Queues a channel's automation lanes over a span. Lanes without points are left to applyChannelMix. */
+export const scheduleChannelAutomation = (strip: ChannelStrip, automation: StemAutomation | undefined, span: AutomationSpan) => {
+  if (span.songEnd <= span.songStart) return;
+  if (automation?.volume?.length) scheduleLane(strip.automationGain.gain, automation.volume, span, 1 / 100);
+  if (automation?.pan?.length) scheduleLane(strip.panner.pan, automation.pan, span, 1 / 100);
+};
+
+// A curve already running at `time` must be cut there too, or the value set next lands inside it and throws
+const cancelFrom = (param: AudioParam, time: number) => {
+  if (typeof param.cancelAndHoldAtTime === 'function') param.cancelAndHoldAtTime(time);
+  else param.cancelScheduledValues(time);
+};
+
+/** Drops automation queued from `time` on and holds each lane at its value for `songTime`, ready for a new schedule. */
+export const resetChannelAutomation = (strip: ChannelStrip, automation: StemAutomation | undefined, time: number, songTime: number) => {
+  const { volume, pan } = automation || {};
+  cancelFrom(strip.automationGain.gain, time);
+  strip.automationGain.gain.setValueAtTime(volume?.length ? automationValueAt(volume, songTime) / 100 : 1, time);
+  if (strip.panAutomated || pan?.length) cancelFrom(strip.panner.pan, time);
+  if (pan?.length) strip.panner.pan.setValueAtTime(automationValueAt(pan, songTime) / 100, time);
+  strip.panAutomated = !!pan?.length;
+};
+
+export interface ChannelSend {
+  id: string;
+  target: AudioNode; // Input of the aux return
+  gain: number; // Linear
+}
+
+/** Points the strip at a new output and keeps one post-fader send per aux return. */
+export const routeChannelStrip = (ctx: BaseAudioContext, strip: ChannelStrip, output: AudioNode, sends: ChannelSend[], smooth = true) => {
+  if (strip.output !== output) {
+    strip.panner.disconnect(strip.output);
+    strip.panner.connect(output);
+    strip.output = output;
+  }
+
+  for (const [id, send] of strip.sends) {
+    if (sends.some(s => s.id === id && s.target === send.target)) continue;
+    strip.panner.disconnect(send.gain);
+    send.gain.disconnect();
+    strip.sends.delete(id);
+  }
+  for (const { id, target, gain } of sends) {
+    let send = strip.sends.get(id);
+    if (!send) {
+      send = { gain: ctx.createGain(), target };
+      send.gain.gain.value = 0;
+      strip.panner.connect(send.gain);
+      send.gain.connect(target);
+      strip.sends.set(id, send);
+    }
+    if (smooth) send.gain.gain.setTargetAtTime(gain, ctx.currentTime, PARAM_SMOOTHING);
+    else send.gain.gain.value = gain;
+  }
+};
+
+/**
+ * Resolves which buffer feeds each channel. Stems without their own decoded audio
+ * (simulated or generated projects) share the source mix, split evenly across them
+ * so the sum stays at unity gain.
+ */
+export const resolveChannelSources = (
+  mix: ChannelMix[],
+  sourceMix: AudioBuffer | null,
+  stemBuffers: Map<string, AudioBuffer>
+): ChannelSource[] => {
+  const sharing = mix.filter(m => !stemBuffers.has(m.id) && !m.ownsAudio).length;
+  return mix.flatMap(m => {
+    const own = stemBuffers.get(m.id);
+    if (own) return [{ id: m.id, buffer: own, shareGain: 1 }];
+    return sourceMix && !m.ownsAudio ? [{ id: m.id, buffer: sourceMix, shareGain: 1 / sharing }] : [];
+  });
+};
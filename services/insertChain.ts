@@ -0,0 +1,258 @@
+import { Effect, EffectType } from '../types';
+import { DEFAULT_EQ_BANDS, MAX_DELAY_SECONDS, MAX_PRE_DELAY_SECONDS, dbToGain, gateCurve, rectifierCurve, reverbImpulse, saturationCurve } from '../utils/insertEffects';
+
+interface InsertUnit {
+  type: EffectType;
+  input: AudioNode;
+  output: AudioNode;
+  apply: (effect: Effect, smooth: boolean) => void;
+}
+
+/** The insert units living on one channel strip, keyed by effect id. */
+export interface InsertChain {
+  units: Map<string, InsertUnit>;
+  wiring: string | null; // Ids of the units currently in the signal path, in order
+}
+
+const PARAM_SMOOTHING = 0.015; // Same as the channel strip faders
+
+const setParam = (ctx: BaseAudioContext, param: AudioParam, value: number, smooth: boolean) => {
+  if (smooth) param.setTargetAtTime(value, ctx.currentTime, PARAM_SMOOTHING);
+  else param.value = value;
+};
+
+const createEq = (ctx: BaseAudioContext): InsertUnit => {
+  const filters = DEFAULT_EQ_BANDS.map(band => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = band.type;
+    return filter;
+  });
+  filters.slice(1).forEach((filter, i) => filters[i].connect(filter));
+  return {
+    type: 'eq',
+    input: filters[0],
+    output: filters[filters.length - 1],
+    apply: (effect, smooth) => {
+      if (effect.type !== 'eq') return;
+      filters.forEach((filter, i) => {
+        const band = effect.params.bands[i];
+        if (!band) return;
+        filter.type = band.type;
+        setParam(ctx, filter.frequency, band.frequency, smooth);
+        setParam(ctx, filter.gain, band.gain, smooth);
+        setParam(ctx, filter.Q, band.q, smooth);
+      });
+    },
+  };
+};
+
+const createCompressor = (ctx: BaseAudioContext): InsertUnit => {
+  const compressor = ctx.createDynamicsCompressor();
+  const makeup = ctx.createGain();
+  compressor.connect(makeup);
+  return {
+    type: 'compressor',
+    input: compressor,
+    output: makeup,
+    apply: (effect, smooth) => {
+      if (effect.type !== 'compressor') return;
+      const { threshold, ratio, attack, release, knee } = effect.params;
+      setParam(ctx, compressor.threshold, threshold, smooth);
+      setParam(ctx, compressor.ratio, ratio, smooth);
+      setParam(ctx, compressor.attack, attack / 1000, smooth);
+      setParam(ctx, compressor.release, release / 1000, smooth);
+      setParam(ctx, compressor.knee, knee, smooth);
+      setParam(ctx, makeup.gain, dbToGain(effect.params.makeup), smooth);
+    },
+  };
+};
+
+/**
+ * Gate built from stock nodes: a rectified, low-passed copy of the signal is the envelope,
+ * and a WaveShaper maps that envelope to the gain of a VCA on the dry path.
+ */
+const createGate = (ctx: BaseAudioContext): InsertUnit => {
+  const input = ctx.createGain();
+  const vca = ctx.createGain();
+  const rectifier = ctx.createWaveShaper();
+  const smoother = ctx.createBiquadFilter();
+  const shaper = ctx.createWaveShaper();
+  vca.gain.value = 0; // Gain comes entirely from the shaper
+  rectifier.curve = rectifierCurve();
+  smoother.type = 'lowpass';
+  smoother.Q.value = 0.5;
+  input.connect(vca);
+  input.connect(rectifier);
+  rectifier.connect(smoother);
+  smoother.connect(shaper);
+  shaper.connect(vca.gain);
+
+  let curveKey = '';
+  return {
+    type: 'gate',
+    input,
+    output: vca,
+    apply: (effect, smooth) => {
+      if (effect.type !== 'gate') return;
+      const { threshold, range, release } = effect.params;
+      const key = `${threshold}:${range}`;
+      if (key !== curveKey) {
+        curveKey = key;
+        shaper.curve = gateCurve(threshold, range);
+      }
+      setParam(ctx, smoother.frequency, 1 / (2 * Math.PI * Math.max(1, release) / 1000), smooth);
+    },
+  };
+};
+
+const createSaturator = (ctx: BaseAudioContext): InsertUnit => {
+  const input = ctx.createGain();
+  const shaper = ctx.createWaveShaper();
+  const dry = ctx.createGain();
+  const wet = ctx.createGain();
+  const output = ctx.createGain();
+  shaper.oversample = '4x';
+  input.connect(dry);
+  input.connect(shaper);
+  shaper.connect(wet);
+  dry.connect(output);
+  wet.connect(output);
+
+  let drive: number | null = null;
+  return {
+    type: 'saturator',
+    input,
+    output,
+    apply: (effect, smooth) => {
+      if (effect.type !== 'saturator') return;
+      if (effect.params.drive !== drive) {
+        drive = effect.params.drive;
+        shaper.curve = saturationCurve(drive);
+      }
+      setParam(ctx, dry.gain, 1 - effect.params.mix, smooth);
+      setParam(ctx, wet.gain, effect.params.mix, smooth);
+      setParam(ctx, output.gain, dbToGain(effect.params.output), smooth);
+    },
+  };
+};
+
+const createDelay = (ctx: BaseAudioContext): InsertUnit => {
+  const input = ctx.createGain();
+  const delay = ctx.createDelay(MAX_DELAY_SECONDS);
+  const feedback = ctx.createGain();
+  const dry = ctx.createGain();
+  const wet = ctx.createGain();
+  const output = ctx.createGain();
+  input.connect(dry);
+  input.connect(delay);
+  delay.connect(feedback);
+  feedback.connect(delay);
+  delay.connect(wet);
+  dry.connect(output);
+  wet.connect(output);
+  return {
+    type: 'delay',
+    input,
+    output,
+    apply: (effect, smooth) => {
+      if (effect.type !== 'delay') return;
+      setParam(ctx, delay.delayTime, Math.min(MAX_DELAY_SECONDS, effect.params.time / 1000), smooth);
+      setParam(ctx, feedback.gain, Math.min(0.95, effect.params.feedback), smooth);
+      setParam(ctx, dry.gain, 1 - effect.params.mix, smooth);
+      setParam(ctx, wet.gain, effect.params.mix, smooth);
+    },
+  };
+};
+
+const createReverb = (ctx: BaseAudioContext): InsertUnit => {
+  const input = ctx.createGain();
+  const preDelay = ctx.createDelay(MAX_PRE_DELAY_SECONDS);
+  const convolver = ctx.createConvolver();
+  const dry = ctx.createGain();
+  const wet = ctx.createGain();
+  const output = ctx.createGain();
+  input.connect(dry);
+  input.connect(preDelay);
+  preDelay.connect(convolver);
+  convolver.connect(wet);
+  dry.connect(output);
+  wet.connect(output);
+
+  let decay: number | null = null;
+  return {
+    type: 'reverb',
+    input,
+    output,
+    apply: (effect, smooth) => {
+      if (effect.type !== 'reverb') return;
+      if (effect.params.decay !== decay) {
+        decay = effect.params.decay;
+        const impulse = reverbImpulse(ctx.sampleRate, decay);
+        const buffer = ctx.createBuffer(impulse.length, impulse[0].length, ctx.sampleRate);
+        impulse.forEach((channel, c) => buffer.copyToChannel(channel, c));
+        convolver.buffer = buffer;
+      }
+      setParam(ctx, preDelay.delayTime, Math.min(MAX_PRE_DELAY_SECONDS, effect.params.preDelay / 1000), smooth);
+      setParam(ctx, dry.gain, 1 - effect.params.mix, smooth);
+      setParam(ctx, wet.gain, effect.params.mix, smooth);
+    },
+  };
+};
+
+const UNIT_FACTORIES: Record<EffectType, (ctx: BaseAudioContext) => InsertUnit> = {
+  eq: createEq,
+  compressor: createCompressor,
+  gate: createGate,
+  saturator: createSaturator,
+  delay: createDelay,
+  reverb: createReverb,
+};
+
+export const createInsertChain = (): InsertChain => ({ units: new Map(), wiring: '' });
+
+/**
+ * Brings a chain in line with the effect list: builds units for new effects, updates
+ * parameters, and rewires input -> active units -> output only when the order or
+ * bypass state changed, so parameter moves never interrupt the signal.
+ */
+export const syncInsertChain = (
+  ctx: BaseAudioContext,
+  chain: InsertChain,
+  input: AudioNode,
+  output: AudioNode,
+  effects: Effect[],
+  smooth = true
+) => {
+  for (const [id, unit] of chain.units) {
+    const effect = effects.find(e => e.id === id);
+    if (!effect || effect.type !== unit.type) {
+      unit.output.disconnect();
+      chain.units.delete(id);
+      chain.wiring = null;
+    }
+  }
+
+  for (const effect of effects) {
+    let unit = chain.units.get(effect.id);
+    if (!unit) {
+      unit = UNIT_FACTORIES[effect.type](ctx);
+      chain.units.set(effect.id, unit);
+    }
+    unit.apply(effect, smooth);
+  }
+
+  const active = effects.filter(e => !e.bypassed);
+  const wiring = active.map(e => e.id).join('|');
+  if (wiring === chain.wiring) return;
+  chain.wiring = wiring;
+
+  input.disconnect();
+  chain.units.forEach(unit => unit.output.disconnect());
+  let node = input;
+  for (const effect of active) {
+    const unit = chain.units.get(effect.id)!;
+    node.connect(unit.input);
+    node = unit.output;
+  }
+  node.connect(output);
+};
@@ -0,0 +1,211 @@
+import type { AudioEngine } from './audioEngine';
+
+export interface TimeSignature {
+  beats: number; // Clicks per bar
+  unit: 4 | 8; // Note value of one click; the tempo is always quarter notes per minute
+}
+
+export interface MetronomeSettings {
+  enabled: boolean;
+  volume: number; // 0 to 100
+  muted: boolean;
+  timeSignature: TimeSignature;
+  countInBars: number;
+}
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  enabled: false,
+  volume: 70,
+  muted: false,
+  timeSignature: { beats: 4, unit: 4 },
+  countInBars: 0,
+};
+
+const SETTINGS_KEY = 'vs_metronome_settings';
+
+export const loadMetronomeSettings = (): MetronomeSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return saved ? { ...DEFAULT_METRONOME_SETTINGS, ...saved } : DEFAULT_METRONOME_SETTINGS;
+  } catch {
+    return DEFAULT_METRONOME_SETTINGS;
+  }
+};
+
+export const saveMetronomeSettings = (settings: MetronomeSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Seconds of song time between clicks. */
+export const clickInterval = (bpm: number, signature: TimeSignature) => (60 / bpm) * (4 / signature.unit);
+
+const stopSource = (source: AudioBufferSourceNode) => {
+  try {
+    source.stop();
+  } catch {
+    // Already stopped
+  }
+};
+
+const SCHEDULER_INTERVAL_MS = 25;
+const LOOKAHEAD_SECONDS = 0.1;
+const CLICK_SECONDS = 0.05;
+
+/**
+ * Click track scheduled ahead on the audio clock ("a tale of two clocks"): a timer wakes
+ * every 25ms and queues buffer sources for every click due in the next 100ms, at the exact
+ * context time the engine's transport maps that song position to (following loop wraps).
+ * Transport changes (seek, playback rate, loop) invalidate the queue, so pending clicks
+ * are cancelled and requeued.
+ */
+export class Metronome {
+  private output: GainNode;
+  private accentClick: AudioBuffer;
+  private click: AudioBuffer;
+  private timer: number | null = null;
+  private pending: { source: AudioBufferSourceNode; time: number }[] = []; // Grid clicks
+  private countIn: AudioBufferSourceNode[] = [];
+  private anchorKey = '';
+  private scheduledUntil = 0; // Context time up to which clicks are queued
+
+  private bpm = 120;
+  private gridOffset = 0; // Song time of a downbeat, so bars line up with the music
+  private signature: TimeSignature = DEFAULT_METRONOME_SETTINGS.timeSignature;
+  private enabled = false;
+
+  constructor(private engine: AudioEngine) {
+    const ctx = engine.getContext();
+    this.output = ctx.createGain();
+    this.output.connect(engine.getOutput());
+    this.accentClick = this.renderClick(ctx, 1760);
+    this.click = this.renderClick(ctx, 1320);
+  }
+
+  setTempo(bpm: number, gridOffset = 0) {
+    if (bpm === this.bpm && gridOffset === this.gridOffset) return;
+    this.bpm = bpm > 0 ? bpm : 120;
+    this.gridOffset = gridOffset;
+    this.invalidate();
+  }
+
+  setTimeSignature(signature: TimeSignature) {
+    this.signature = signature;
+    this.invalidate();
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (enabled && this.timer === null) {
+      this.timer = window.setInterval(() => this.tick(), SCHEDULER_INTERVAL_MS);
+      this.tick();
+    } else if (!enabled) {
+      this.cancelPending();
+      if (this.timer !== null) clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  setLevel(volume: number, muted: boolean) {
+    const ctx = this.engine.getContext();
+    this.output.gain.setTargetAtTime(muted ? 0 : volume / 100, ctx.currentTime, 0.01);
+  }
+
+  /**
+   * Queues `bars` bars of clicks ending at `startContextTime`, where playback begins.
+   * Returns the count-in length in seconds of context time.
+   */
+  scheduleCountIn(startContextTime: number, bars: number, rate: number): number {
+    const interval = clickInterval(this.bpm, this.signature) / rate;
+    const clicks = Math.round(bars * this.signature.beats);
+    for (let i = 0; i < clicks; i++) {
+      this.countIn.push(this.queueClick(startContextTime - (clicks - i) * interval, i % this.signature.beats === 0));
+    }
+    return clicks * interval;
+  }
+
+  /** Length in seconds of a count-in of `bars` bars at the given playback rate. */
+  countInDuration(bars: number, rate: number) {
+    return (Math.round(bars * this.signature.beats) * clickInterval(this.bpm, this.signature)) / rate;
+  }
+
+  /** Silences every queued click, including a running count-in. */
+  cancelPending() {
+    this.invalidate();
+    this.countIn.forEach(stopSource);
+    this.countIn = [];
+  }
+
+  dispose() {
+    this.setEnabled(false);
+    this.cancelPending();
+    this.output.disconnect();
+  }
+
+  private invalidate() {
+    // Drop queued clicks on the old grid; the next tick requeues from the current position
+    const now = this.engine.getContext().currentTime;
+    for (const { source, time } of this.pending) {
+      if (time > now) stopSource(source);
+    }
+    this.pending = this.pending.filter(({ time }) => time <= now);
+    this.anchorKey = '';
+  }
+
+  private tick() {
+    const anchor = this.engine.getTransportAnchor();
+    if (!anchor || !this.enabled) {
+      if (this.anchorKey) this.invalidate();
+      return;
+    }
+
+    const ctx = this.engine.getContext();
+    const key = `${anchor.contextTime}:${anchor.songTime}:${anchor.rate}:${anchor.loop?.start}:${anchor.loop?.end}`;
+    if (key !== this.anchorKey) {
+      this.invalidate();
+      this.anchorKey = key;
+      this.scheduledUntil = ctx.currentTime;
+    }
+
+    const interval = clickInterval(this.bpm, this.signature);
+    const horizon = ctx.currentTime + LOOKAHEAD_SECONDS;
+    for (const segment of this.engine.getTransportSegments(this.scheduledUntil, horizon)) {
+      // Clicks whose song time falls in this segment's share of [scheduledUntil, horizon)
+      const from = Math.max(segment.contextStart, this.scheduledUntil);
+      const to = Math.min(segment.contextEnd, horizon);
+      const songFrom = segment.songStart + (from - segment.contextStart) * anchor.rate;
+      const songTo = segment.songStart + (to - segment.contextStart) * anchor.rate;
+      for (let i = Math.ceil((songFrom - this.gridOffset) / interval); this.gridOffset + i * interval < songTo; i++) {
+        const contextTime = segment.contextStart + (this.gridOffset + i * interval - segment.songStart) / anchor.rate;
+        if (contextTime < ctx.currentTime) continue;
+        const beatInBar = ((i % this.signature.beats) + this.signature.beats) % this.signature.beats;
+        this.pending.push({ source: this.queueClick(contextTime, beatInBar === 0), time: contextTime });
+      }
+    }
+    this.scheduledUntil = horizon;
+  }
+
+  private queueClick(time: number, accent: boolean): AudioBufferSourceNode {
+    const ctx = this.engine.getContext();
+    const source = ctx.createBufferSource();
+    source.buffer = accent ? this.accentClick : this.click;
+    source.connect(this.output);
+    source.start(Math.max(ctx.currentTime, time));
+    source.onended = () => {
+      source.disconnect();
+      this.pending = this.pending.filter(p => p.source !== source);
+      this.countIn = this.countIn.filter(c => c !== source);
+    };
+    return source;
+  }
+
+  private renderClick(ctx: BaseAudioContext, frequency: number): AudioBuffer {
+    const length = Math.round(ctx.sampleRate * CLICK_SECONDS);
+    const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+      const t = i / ctx.sampleRate;
+      data[i] = Math.sin(2 * Math.PI * frequency * t) * Math.exp(-t * 90) * 0.8;
+    }
+    return buffer;
+  }
+}
@@ -0,0 +1,118 @@
+import { MixerRouting } from '../types';
+import { ceilingCurve } from '../utils/insertEffects';
+import { ChannelMix, ChannelStrip, PARAM_SMOOTHING, applyChannelMix, createChannelStrip, routeChannelStrip } from './channelStrip';
+
+export interface MasterMix {
+  gain: number; // Linear
+  limiter: boolean;
+  ceiling: number; // dBTP
+  release: number; // ms
+}
+
+/** Everything downstream of the stem channels, in engine terms (linear gains, -1..1 pan). */
+export interface MixRouting {
+  buses: ChannelMix[];
+  returns: ChannelMix[]; // Each runs its return effect as the only insert
+  master: MasterMix;
+}
+
+/** Converts the saved mixer routing (0-100 faders) into engine terms. */
+export const toMixRouting = ({ buses, returns, master }: MixerRouting): MixRouting => ({
+  buses: buses.map(bus => ({ id: bus.id, gain: bus.volume / 100, pan: bus.pan / 100, audible: !bus.muted })),
+  returns: returns.map(ret => ({ id: ret.id, gain: ret.volume / 100, pan: 0, audible: !ret.muted, inserts: [ret.effect] })),
+  master: { gain: master.volume / 100, limiter: master.limiter, ceiling: master.ceiling, release: master.release },
+});
+
+interface MasterStrip {
+  input: GainNode;
+  fader: GainNode;
+  limiter: DynamicsCompressorNode;
+  clipper: WaveShaperNode;
+  output: GainNode;
+  limited: boolean;
+  ceiling: number | null;
+}
+
+export interface MixGraph {
+  master: MasterStrip;
+  buses: Map<string, ChannelStrip>;
+  returns: Map<string, ChannelStrip>;
+}
+
+const LIMITER_RATIO = 20;
+const LIMITER_ATTACK = 0.001; // Seconds
+
+/**
+ * Builds the master strip: input -> fader -> limiter -> output -> destination. The limiter
+ * is a fast compressor followed by a 4x oversampled clip at the ceiling, which catches the
+ * overshoot the compressor lets through and keeps inter-sample peaks near the ceiling.
+ */
+export const createMixGraph = (ctx: BaseAudioContext, destination: AudioNode): MixGraph => {
+  const master: MasterStrip = {
+    input: ctx.createGain(),
+    fader: ctx.createGain(),
+    limiter: ctx.createDynamicsCompressor(),
+    clipper: ctx.createWaveShaper(),
+    output: ctx.createGain(),
+    limited: false,
+    ceiling: null,
+  };
+  master.limiter.ratio.value = LIMITER_RATIO;
+  master.limiter.knee.value = 0;
+  master.limiter.attack.value = LIMITER_ATTACK;
+  master.clipper.oversample = '4x';
+  master.input.connect(master.fader);
+  master.fader.connect(master.output);
+  master.limiter.connect(master.clipper);
+  master.clipper.connect(master.output);
+  master.output.connect(destination);
+  return { master, buses: new Map(), returns: new Map() };
+};
+
+const syncStrips = (ctx: BaseAudioContext, strips: Map<string, ChannelStrip>, mixes: ChannelMix[], output: AudioNode, smooth: boolean) => {
+  for (const [id, strip] of strips) {
+    if (!mixes.some(m => m.id === id)) {
+      strip.panner.disconnect();
+      strips.delete(id);
+    }
+  }
+  for (const m of mixes) {
+    let strip = strips.get(m.id);
+    if (!strip) {
+      strip = createChannelStrip(ctx, output);
+      strips.set(m.id, strip);
+    }
+    applyChannelMix(ctx, strip, m, smooth);
+  }
+};
+
+export const applyMixRouting = (ctx: BaseAudioContext, graph: MixGraph, routing: MixRouting, smooth = true) => {
+  const { master } = graph;
+  const { gain, limiter, ceiling, release } = routing.master;
+  if (smooth) master.fader.gain.setTargetAtTime(gain, ctx.currentTime, PARAM_SMOOTHING);
+  else master.fader.gain.value = gain;
+  master.limiter.threshold.value = ceiling;
+  master.limiter.release.value = release / 1000;
+  if (ceiling !== master.ceiling) {
+    master.ceiling = ceiling;
+    master.clipper.curve = ceilingCurve(ceiling);
+  }
+  if (limiter !== master.limited) {
+    master.limited = limiter;
+    master.fader.disconnect();
+    master.fader.connect(limiter ? master.limiter : master.output);
+  }
+
+  syncStrips(ctx, graph.buses, routing.buses, master.input, smooth);
+  syncStrips(ctx, graph.returns, routing.returns, master.input, smooth);
+};
+
+/** Feeds a stem channel into its bus (or the master) and its aux sends into the returns. */
+export const routeChannel = (ctx: BaseAudioContext, graph: MixGraph, strip: ChannelStrip, mix: ChannelMix, smooth = true) => {
+  const output = (mix.busId && graph.buses.get(mix.busId)?.input) || graph.master.input;
+  const sends = Object.entries(mix.sends || {}).flatMap(([id, gain]) => {
+    const target = graph.returns.get(id)?.input;
+    return target ? [{ id, target, gain }] : [];
+  });
+  routeChannelStrip(ctx, strip, output, sends, smooth);
+};
@@ -0,0 +1,36 @@
+import type { Mp3EncodeMessage, Mp3EncodeRequest, Mp3RateControl } from '../workers/mp3Encoder.worker';
+
+export type { Mp3RateControl };
+
+/** MP3 tops out at 48kHz, so higher export rates are rendered at 48kHz before encoding. */
+export const MP3_MAX_SAMPLE_RATE = 48000;
+
+/** Encodes a rendered buffer to MP3 on a worker thread, prepending the given ID3 tag. */
+export const encodeMp3 = (
+  buffer: AudioBuffer,
+  rateControl: Mp3RateControl,
+  id3Tag?: Uint8Array,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/mp3Encoder.worker.ts', import.meta.url), { type: 'module' });
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+    const request: Mp3EncodeRequest = { channels, sampleRate: buffer.sampleRate, rateControl, id3Tag };
+
+    worker.onmessage = (e: MessageEvent<Mp3EncodeMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(new Blob([message.data], { type: 'audio/mpeg' }));
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+};
@@ -0,0 +1,64 @@
+import { ChannelMix, ChannelSource, applyChannelMix, createChannelStrip, scheduleChannelAutomation } from './channelStrip';
+import { MixRouting, applyMixRouting, createMixGraph, routeChannel } from './mixGraph';
+
+export interface OfflineRenderOptions {
+  sampleRate: number;
+  duration: number; // Seconds
+  routing?: MixRouting | null; // Buses, returns and master strip; channels go straight out without it
+  rate?: number; // Song seconds per rendered second, for time-stretched sources; 1 by default
+  onProgress?: (fraction: number) => void;
+}
+
+const PROGRESS_STEPS = 20;
+
+/**
+ * Renders the given channels through the same channel strips, automation and mix routing
+ * the live engine uses, summed to stereo. Mute/solo are already folded into each ChannelMix's
+ * `audible` flag.
+ */
+export const renderMix = async (
+  mix: ChannelMix[],
+  sources: ChannelSource[],
+  { sampleRate, duration, routing, rate = 1, onProgress }: OfflineRenderOptions
+): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.ceil(duration * sampleRate));
+  const ctx = new OfflineAudioContext(2, length, sampleRate);
+  const graph = routing ? createMixGraph(ctx, ctx.destination) : null;
+  if (graph) applyMixRouting(ctx, graph, routing!, false);
+
+  for (const { id, buffer, shareGain } of sources) {
+    const channelMix = mix.find(m => m.id === id);
+    if (!channelMix || !channelMix.audible) continue;
+
+    const strip = createChannelStrip(ctx, graph ? graph.master.input : ctx.destination);
+    strip.input.gain.value = shareGain;
+    applyChannelMix(ctx, strip, channelMix, false);
+    scheduleChannelAutomation(strip, channelMix.automation, { contextStart: 0, contextEnd: duration, songStart: 0, songEnd: duration * rate, rate, jumps: true });
+    if (graph) routeChannel(ctx, graph, strip, channelMix, false);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(strip.input);
+    source.start(0);
+  }
+
+  // OfflineAudioContext has no progress events, so suspend at fixed points to report
+  if (onProgress) {
+    const RENDER_QUANTUM = 128;
+    const suspendFrames = new Set<number>();
+    for (let step = 1; step < PROGRESS_STEPS; step++) {
+      // Suspend points must land on distinct render quanta
+      const frame = Math.floor((length * step) / PROGRESS_STEPS / RENDER_QUANTUM) * RENDER_QUANTUM;
+      if (frame === 0 || suspendFrames.has(frame)) continue;
+      suspendFrames.add(frame);
+      ctx.suspend(frame / sampleRate).then(() => {
+        onProgress(step / PROGRESS_STEPS);
+        ctx.resume();
+      });
+    }
+  }
+
+  const rendered = await ctx.startRendering();
+  onProgress?.(1);
+  return rendered;
+};
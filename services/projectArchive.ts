@@ -0,0 +1,113 @@
+import { Unzipped, unzip, zip } from 'fflate';
+import { MANIFEST_PATH, ProjectDocument, ProjectFormatError, ProjectManifest, createManifest, migrateManifest } from '../utils/projectFormat';
+import { referencedTakeIds } from '../utils/recording';
+import { audioBufferToChannels, encodeWav } from '../utils/wavEncoder';
+
+export interface ProjectAudio {
+  sourceFile: File | null;
+  stemAudio: Map<string, Blob>; // Encoded stem audio keyed by stem id
+  takeAudio: Map<string, Blob>; // Encoded recorded takes keyed by take id
+}
+
+export interface LoadedProject extends ProjectAudio {
+  manifest: ProjectManifest;
+}
+
+const zipAsync = (files: Record<string, Uint8Array | [Uint8Array, { level: 0 }]>) =>
+  new Promise<Uint8Array>((resolve, reject) => zip(files, (err, data) => (err ? reject(err) : resolve(data))));
+
+const unzipAsync = (data: Uint8Array) =>
+  new Promise<Unzipped>((resolve, reject) => unzip(data, (err, files) => (err ? reject(err) : resolve(files))));
+
+const fileExtension = (name: string) => name.split('.').pop()?.toLowerCase() || 'bin';
+const takePath = (takeId: string) => `audio/takes/${takeId}.wav`;
+
+const encodeEntry = async (buffer: AudioBuffer): Promise<[Uint8Array, { level: 0 }]> => {
+  const wav = encodeWav(audioBufferToChannels(buffer), buffer.sampleRate, { bitDepth: 32 });
+  return [new Uint8Array(await wav.arrayBuffer()), { level: 0 }];
+};
+
+/**
+ * Packs the document and its audio into a .vsonic archive. The source file is stored
+ * as-is; stems with their own buffers and the recorded takes their clips play from are
+ * written as 32-bit float WAV. Audio entries are stored uncompressed, since deflate gains
+ * almost nothing on them.
+ */
+export const exportProjectArchive = async (
+  document: ProjectDocument,
+  sourceFile: File | null,
+  stemBuffers: Map<string, AudioBuffer>,
+  takeBuffers: Map<string, AudioBuffer> = new Map()
+): Promise<Blob> => {
+  const files: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {};
+  const doc: ProjectDocument = { ...document, stems: document.stems.map(({ audioPath, ...stem }) => stem) };
+
+  if (sourceFile && doc.source) {
+    const path = `audio/source.${fileExtension(sourceFile.name)}`;
+    files[path] = [new Uint8Array(await sourceFile.arrayBuffer()), { level: 0 }];
+    doc.source = { ...doc.source, path, mimeType: sourceFile.type || 'application/octet-stream' };
+  } else {
+    doc.source = null;
+  }
+
+  for (const stem of doc.stems) {
+    const buffer = stemBuffers.get(stem.id);
+    if (!buffer) continue;
+    const path = `audio/stems/${stem.id}.wav`;
+    files[path] = await encodeEntry(buffer);
+    stem.audioPath = path;
+  }
+
+  for (const takeId of referencedTakeIds(doc.stems)) {
+    const buffer = takeBuffers.get(takeId);
+    if (buffer) files[takePath(takeId)] = await encodeEntry(buffer);
+  }
+
+  const manifest = createManifest(doc);
+  files[MANIFEST_PATH] = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  return new Blob([await zipAsync(files)], { type: 'application/zip' });
+};
+
+/** Reads a .vsonic archive, migrating and validating its manifest before returning the audio entries. */
+export const importProjectArchive = async (archive: Blob): Promise<LoadedProject> => {
+  let files: Unzipped;
+  try {
+    files = await unzipAsync(new Uint8Array(await archive.arrayBuffer()));
+  } catch {
+    throw new ProjectFormatError('File is not a .vsonic archive');
+  }
+
+  const manifestBytes = files[MANIFEST_PATH];
+  if (!manifestBytes) throw new ProjectFormatError(`Archive has no ${MANIFEST_PATH}`);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new ProjectFormatError(`${MANIFEST_PATH} is not valid JSON`);
+  }
+  const manifest = migrateManifest(raw);
+
+  let sourceFile: File | null = null;
+  if (manifest.source) {
+    const bytes = files[manifest.source.path];
+    if (!bytes) throw new ProjectFormatError(`Missing source audio ${manifest.source.path}`);
+    sourceFile = new File([bytes], manifest.source.fileName, { type: manifest.source.mimeType });
+  }
+
+  const stemAudio = new Map<string, Blob>();
+  for (const stem of manifest.stems) {
+    if (!stem.audioPath) continue;
+    const bytes = files[stem.audioPath];
+    if (!bytes) throw new ProjectFormatError(`Missing stem audio ${stem.audioPath}`);
+    stemAudio.set(stem.id, new Blob([bytes], { type: 'audio/wav' }));
+  }
+
+  const takeAudio = new Map<string, Blob>();
+  for (const takeId of referencedTakeIds(manifest.stems)) {
+    const bytes = files[takePath(takeId)];
+    if (!bytes) throw new ProjectFormatError(`Missing take audio ${takePath(takeId)}`);
+    takeAudio.set(takeId, new Blob([bytes], { type: 'audio/wav' }));
+  }
+
+  return { manifest, sourceFile, stemAudio, takeAudio };
+};
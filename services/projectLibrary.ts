@@ -0,0 +1,250 @@
+import { ProjectDocument, ProjectManifest, createManifest, migrateManifest } from '../utils/projectFormat';
+import { referencedTakeIds } from '../utils/recording';
+
+/** Decoded PCM as IndexedDB stores it; typed arrays survive structured cloning as-is. */
+export interface StoredAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+/** Lightweight listing record, kept apart from the audio so the browser opens fast. */
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: string | null; // Small JPEG data URL derived from the cover art
+  duration: number;
+  stemCount: number;
+  sizeBytes: number;
+}
+
+export interface LibraryProject {
+  entry: LibraryEntry;
+  manifest: ProjectManifest;
+  coverArt: string | null;
+  sourceFile: File | null;
+  stemAudio: Map<string, StoredAudio>;
+  takeAudio: Map<string, StoredAudio>;
+}
+
+export interface LibrarySaveRequest {
+  id?: string; // Overwrites the existing project when set
+  document: ProjectDocument;
+  coverArt: string | null;
+  sourceFile: File | null;
+  stemBuffers: Map<string, AudioBuffer>;
+  takeBuffers?: Map<string, AudioBuffer>; // Recorded takes, keyed by take id
+}
+
+export interface StorageQuota {
+  usage: number;
+  quota: number;
+}
+
+interface LibraryPayload {
+  id: string;
+  manifest: ProjectManifest;
+  coverArt: string | null;
+  sourceFile: File | null;
+  stemAudio: Record<string, StoredAudio>;
+  takeAudio?: Record<string, StoredAudio>; // Absent in payloads saved before recording existed
+}
+
+const DB_NAME = 'vsonic-library';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const PAYLOAD_STORE = 'payloads';
+const LEGACY_SLOT_KEY = 'vs_project_cache';
+const THUMBNAIL_SIZE = 160;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PAYLOAD_STORE)) db.createObjectStore(PAYLOAD_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Runs `work` in a transaction over both stores and resolves once it commits. */
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  work: (entries: IDBObjectStore, payloads: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openLibrary();
+  const tx = db.transaction([ENTRY_STORE, PAYLOAD_STORE], mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Library transaction aborted'));
+  });
+  const result = await work(tx.objectStore(ENTRY_STORE), tx.objectStore(PAYLOAD_STORE));
+  await done;
+  return result;
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const toStoredAudio = (buffer: AudioBuffer): StoredAudio => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch).slice()),
+});
+
+const payloadSize = (payload: LibraryPayload) =>
+  (payload.sourceFile?.size || 0) +
+  (payload.coverArt?.length || 0) +
+  [...Object.values(payload.stemAudio), ...Object.values(payload.takeAudio || {})]
+    .reduce((sum, audio) => sum + audio.channels.reduce((s, ch) => s + ch.byteLength, 0), 0);
+
+const createThumbnail = (dataUrl: string): Promise<string | null> =>
+  new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = THUMBNAIL_SIZE;
+      canvas.height = THUMBNAIL_SIZE;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      // Centre-crop to a square
+      const side = Math.min(image.width, image.height);
+      ctx.drawImage(image, (image.width - side) / 2, (image.height - side) / 2, side, side, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    image.onerror = () => resolve(null);
+    image.src = dataUrl;
+  });
+
+export const listProjects = (): Promise<LibraryEntry[]> =>
+  withStores('readonly', async entries => {
+    const all = await requestResult(entries.getAll() as IDBRequest<LibraryEntry[]>);
+    return all.sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+
+/** Saves the session with its decoded stem and take audio, creating a new project unless `id` is given. */
+export const saveProject = async ({ id, document, coverArt, sourceFile, stemBuffers, takeBuffers = new Map() }: LibrarySaveRequest): Promise<LibraryEntry> => {
+  const projectId = id || createId();
+  const stemAudio: Record<string, StoredAudio> = {};
+  for (const stem of document.stems) {
+    const buffer = stemBuffers.get(stem.id);
+    if (buffer) stemAudio[stem.id] = toStoredAudio(buffer);
+  }
+  const takeAudio: Record<string, StoredAudio> = {};
+  for (const takeId of referencedTakeIds(document.stems)) {
+    const buffer = takeBuffers.get(takeId);
+    if (buffer) takeAudio[takeId] = toStoredAudio(buffer);
+  }
+
+  const payload: LibraryPayload = { id: projectId, manifest: createManifest(document), coverArt, sourceFile, stemAudio, takeAudio };
+  const thumbnail = coverArt ? await createThumbnail(coverArt) : null;
+  const now = Date.now();
+
+  return withStores('readwrite', async (entries, payloads) => {
+    const existing = id ? await requestResult(entries.get(id) as IDBRequest<LibraryEntry | undefined>) : undefined;
+    const entry: LibraryEntry = {
+      id: projectId,
+      name: document.name,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      thumbnail,
+      duration: document.source?.duration || 0,
+      stemCount: document.stems.length,
+      sizeBytes: payloadSize(payload),
+    };
+    entries.put(entry);
+    payloads.put(payload);
+    return entry;
+  });
+};
+
+export const loadProject = (id: string): Promise<LibraryProject> =>
+  withStores('readonly', async (entries, payloads) => {
+    const entry = await requestResult(entries.get(id) as IDBRequest<LibraryEntry | undefined>);
+    const payload = await requestResult(payloads.get(id) as IDBRequest<LibraryPayload | undefined>);
+    if (!entry || !payload) throw new Error('Project not found in library');
+    return {
+      entry,
+      manifest: migrateManifest(payload.manifest),
+      coverArt: payload.coverArt,
+      sourceFile: payload.sourceFile,
+      stemAudio: new Map(Object.entries(payload.stemAudio)),
+      takeAudio: new Map(Object.entries(payload.takeAudio || {})),
+    };
+  });
+
+export const renameProject = (id: string, name: string): Promise<LibraryEntry> =>
+  withStores('readwrite', async (entries, payloads) => {
+    const entry = await requestResult(entries.get(id) as IDBRequest<LibraryEntry | undefined>);
+    const payload = await requestResult(payloads.get(id) as IDBRequest<LibraryPayload | undefined>);
+    if (!entry || !payload) throw new Error('Project not found in library');
+    const renamed = { ...entry, name, updatedAt: Date.now() };
+    entries.put(renamed);
+    payloads.put({ ...payload, manifest: { ...payload.manifest, name } });
+    return renamed;
+  });
+
+export const duplicateProject = (id: string): Promise<LibraryEntry> =>
+  withStores('readwrite', async (entries, payloads) => {
+    const entry = await requestResult(entries.get(id) as IDBRequest<LibraryEntry | undefined>);
+    const payload = await requestResult(payloads.get(id) as IDBRequest<LibraryPayload | undefined>);
+    if (!entry || !payload) throw new Error('Project not found in library');
+    const now = Date.now();
+    const copy: LibraryEntry = { ...entry, id: createId(), name: `${entry.name} (Copy)`, createdAt: now, updatedAt: now };
+    entries.put(copy);
+    payloads.put({ ...payload, id: copy.id, manifest: { ...payload.manifest, name: copy.name } });
+    return copy;
+  });
+
+export const deleteProject = (id: string): Promise<void> =>
+  withStores('readwrite', async (entries, payloads) => {
+    entries.delete(id);
+    payloads.delete(id);
+  });
+
+export const getStorageQuota = async (): Promise<StorageQuota | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/** Moves the old single-slot localStorage save into the library, once. */
+export const migrateLegacySlot = async (): Promise<LibraryEntry | null> => {
+  const saved = localStorage.getItem(LEGACY_SLOT_KEY);
+  if (!saved) return null;
+  try {
+    const { format, version, savedAt, ...document } = migrateManifest(JSON.parse(saved));
+    const entry = await saveProject({ document, coverArt: null, sourceFile: null, stemBuffers: new Map() });
+    localStorage.removeItem(LEGACY_SLOT_KEY);
+    return entry;
+  } catch (err) {
+    console.error("Legacy project migration failed", err);
+    return null;
+  }
+};
+
+export const toAudioBuffer = (ctx: BaseAudioContext, audio: StoredAudio): AudioBuffer => {
+  const buffer = ctx.createBuffer(audio.channels.length, audio.channels[0]?.length || 1, audio.sampleRate);
+  audio.channels.forEach((data, ch) => buffer.copyToChannel(data, ch));
+  return buffer;
+};
@@ -0,0 +1,214 @@
+import type { AudioEngine } from './audioEngine';
+
+export interface RecordingSettings {
+  monitoring: boolean; // Hear the input through the armed stem's channel strip
+  punch: boolean; // Keep only what is recorded inside the loop region
+  latencyOffsetMs: number; // Added to the latency the browser reports, to trim the alignment by ear
+}
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  monitoring: true,
+  punch: false,
+  latencyOffsetMs: 0,
+};
+
+const SETTINGS_KEY = 'vs_recording_settings';
+
+export const loadRecordingSettings = (): RecordingSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return saved ? { ...DEFAULT_RECORDING_SETTINGS, ...saved } : DEFAULT_RECORDING_SETTINGS;
+  } catch {
+    return DEFAULT_RECORDING_SETTINGS;
+  }
+};
+
+export const saveRecordingSettings = (settings: RecordingSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Input captured between start() and stop(); the first frame reached the graph at `contextTime`. */
+export interface CapturedInput {
+  contextTime: number;
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+const PROCESSOR_NAME = 'vs-input-capture';
+const CHUNK_FRAMES = 4096;
+
+// Worklets load from a script URL; a Blob keeps this one next to its only user.
+// `currentTime` in the worklet scope is the context time of the block being processed.
+const PROCESSOR_SOURCE = `
+class InputCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.capturing = false;
+    this.reset();
+    this.port.onmessage = (e) => {
+      if (e.data === 'start') {
+        this.reset();
+        this.capturing = true;
+      } else if (e.data === 'stop') {
+        this.flush();
+        this.capturing = false;
+        this.port.postMessage({ type: 'stopped' });
+      }
+    };
+  }
+  reset() {
+    this.blocks = [];
+    this.frames = 0;
+    this.time = 0;
+  }
+  flush() {
+    if (!this.frames) return;
+    const channelCount = this.blocks[0].length;
+    const channels = Array.from({ length: channelCount }, (_, c) => {
+      const data = new Float32Array(this.frames);
+      let offset = 0;
+      for (const block of this.blocks) {
+        data.set(block[c] || block[0], offset);
+        offset += block[0].length;
+      }
+      return data;
+    });
+    this.port.postMessage({ type: 'chunk', time: this.time, channels }, channels.map(c => c.buffer));
+    this.reset();
+  }
+  process(inputs) {
+    const input = inputs[0];
+    if (this.capturing && input && input.length) {
+      if (!this.frames) this.time = currentTime;
+      this.blocks.push(input.map(channel => channel.slice()));
+      this.frames += input[0].length;
+      if (this.frames >= ${CHUNK_FRAMES}) this.flush();
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', InputCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Captures the microphone on the engine's own AudioContext, so every take is timestamped on
+ * the same clock the transport runs on. Input processing (echo cancellation, noise
+ * suppression, auto gain) is switched off to keep takes dry, and input monitoring feeds
+ * the live signal into a stem's channel strip, through its inserts and fader.
+ */
+export class InputRecorder {
+  private stream: MediaStream | null = null;
+  private input: MediaStreamAudioSourceNode | null = null;
+  private capture: AudioWorkletNode | null = null;
+  private sink: GainNode | null = null;
+  private monitorTarget: AudioNode | null = null;
+  private chunks: { time: number; channels: Float32Array[] }[] = [];
+  private onStopped: (() => void) | null = null;
+
+  constructor(private engine: AudioEngine) {}
+
+  isOpen() {
+    return !!this.stream;
+  }
+
+  /** Asks for the microphone and wires up capture. Throws if access is denied. */
+  async open() {
+    if (this.stream) return;
+    const ctx = this.engine.getContext();
+    if (!loadedContexts.has(ctx)) {
+      const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+      try {
+        await ctx.audioWorklet.addModule(url);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+      loadedContexts.add(ctx);
+    }
+
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+    this.input = ctx.createMediaStreamSource(this.stream);
+    this.capture = new AudioWorkletNode(ctx, PROCESSOR_NAME, { numberOfOutputs: 1, outputChannelCount: [1] });
+    this.capture.port.onmessage = (e) => {
+      if (e.data.type === 'chunk') this.chunks.push({ time: e.data.time, channels: e.data.channels });
+      else if (e.data.type === 'stopped') this.onStopped?.();
+    };
+    this.input.connect(this.capture);
+    // Silent, but reaching the destination keeps the processor being pulled
+    this.sink = ctx.createGain();
+    this.sink.gain.value = 0;
+    this.capture.connect(this.sink);
+    this.sink.connect(ctx.destination);
+  }
+
+  /** Seconds between the transport playing a sound and its recording reaching the graph, as far as the browser knows. */
+  reportedLatency(): number {
+    const ctx = this.engine.getContext();
+    const output = ctx.outputLatency || ctx.baseLatency || 0;
+    const settings = this.stream?.getAudioTracks()[0]?.getSettings() as (MediaTrackSettings & { latency?: number }) | undefined;
+    return output + (settings?.latency || 0);
+  }
+
+  /** Routes the live input into `target` (a channel strip's insert input), or stops monitoring with null. */
+  setMonitor(target: AudioNode | null) {
+    if (target === this.monitorTarget) return;
+    if (this.monitorTarget) this.input?.disconnect(this.monitorTarget);
+    this.monitorTarget = target;
+    if (target) this.input?.connect(target);
+  }
+
+  start() {
+    this.chunks = [];
+    this.capture?.port.postMessage('start');
+  }
+
+  /** Ends the take and resolves with everything captured since start(), or null if nothing was. */
+  stop(): Promise<CapturedInput | null> {
+    const capture = this.capture;
+    if (!capture) return Promise.resolve(null);
+    return new Promise(resolve => {
+      this.onStopped = () => {
+        this.onStopped = null;
+        resolve(this.collect());
+      };
+      capture.port.postMessage('stop');
+    });
+  }
+
+  /** Releases the microphone. A pending stop() resolves with whatever chunks had already arrived. */
+  close() {
+    this.onStopped?.();
+    this.setMonitor(null);
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.input?.disconnect();
+    this.capture?.disconnect();
+    this.sink?.disconnect();
+    this.stream = null;
+    this.input = null;
+    this.capture = null;
+    this.sink = null;
+    this.chunks = [];
+  }
+
+  // Chunks arrive in order and back to back, so only the first timestamp is needed
+  private collect(): CapturedInput | null {
+    if (!this.chunks.length) return null;
+    const frames = this.chunks.reduce((sum, chunk) => sum + chunk.channels[0].length, 0);
+    const channelCount = this.chunks[0].channels.length;
+    const channels = Array.from({ length: channelCount }, (_, c) => {
+      const data = new Float32Array(frames);
+      let offset = 0;
+      for (const chunk of this.chunks) {
+        data.set(chunk.channels[c] || chunk.channels[0], offset);
+        offset += chunk.channels[0].length;
+      }
+      return data;
+    });
+    const contextTime = this.chunks[0].time;
+    this.chunks = [];
+    return { contextTime, sampleRate: this.engine.getContext().sampleRate, channels };
+  }
+}
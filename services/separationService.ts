@@ -0,0 +1,45 @@
+import { SEPARATED_STEMS, SeparatedStem } from '../utils/stemSeparation';
+import type { SeparationMessage, SeparationRequest } from '../workers/stemSeparation.worker';
+
+export type { SeparatedStem };
+
+/** Splits a decoded mix into vocal, other, drum and bass buffers on a worker thread. */
+export const separateSourceStems = (
+  ctx: BaseAudioContext,
+  buffer: AudioBuffer,
+  strength: number,
+  onProgress?: (fraction: number) => void
+): Promise<Record<SeparatedStem, AudioBuffer>> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/stemSeparation.worker.ts', import.meta.url), { type: 'module' });
+    const channels = Array.from({ length: Math.min(2, buffer.numberOfChannels) }, (_, c) => buffer.getChannelData(c).slice());
+    const request: SeparationRequest = { channels, sampleRate: buffer.sampleRate, strength };
+
+    worker.onmessage = (e: MessageEvent<SeparationMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+      const stems = {} as Record<SeparatedStem, AudioBuffer>;
+      for (const stem of SEPARATED_STEMS) {
+        const [left, right] = message.stems[stem];
+        const out = ctx.createBuffer(2, left.length, buffer.sampleRate);
+        out.copyToChannel(left, 0);
+        out.copyToChannel(right, 1);
+        stems[stem] = out;
+      }
+      resolve(stems);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+};
@@ -0,0 +1,21 @@
+import { Spectrogram } from '../utils/spectrogram';
+import type { SpectrogramRequest } from '../workers/spectrogram.worker';
+
+/** Computes the STFT spectrogram of a decoded or rendered buffer on a worker thread. */
+export const computeBufferSpectrogram = (buffer: AudioBuffer): Promise<Spectrogram> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/spectrogram.worker.ts', import.meta.url), { type: 'module' });
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+    const request: SpectrogramRequest = { channels, sampleRate: buffer.sampleRate };
+
+    worker.onmessage = (e: MessageEvent<Spectrogram>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+};
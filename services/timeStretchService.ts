@@ -0,0 +1,62 @@
+import type { TimeStretchMessage, TimeStretchRequest } from '../workers/timeStretch.worker';
+
+export interface StretchSettings {
+  tempo: number;
+  semitones: number;
+}
+
+/**
+ * Time-stretches and pitch-shifts buffers on a worker thread. Resolves with a map from
+ * each input buffer to its processed copy; aborting the signal terminates the worker.
+ */
+export const stretchBuffers = (
+  ctx: BaseAudioContext,
+  buffers: AudioBuffer[],
+  { tempo, semitones }: StretchSettings,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Map<AudioBuffer, AudioBuffer>> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Time stretch aborted', 'AbortError'));
+      return;
+    }
+    const worker = new Worker(new URL('../workers/timeStretch.worker.ts', import.meta.url), { type: 'module' });
+    const channels = buffers.map(buffer => Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice()));
+    const sampleRate = buffers[0]?.sampleRate || ctx.sampleRate;
+    const request: TimeStretchRequest = { buffers: channels, sampleRate, tempo, semitones };
+
+    const onAbort = () => {
+      worker.terminate();
+      reject(new DOMException('Time stretch aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<TimeStretchMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+      const result = new Map<AudioBuffer, AudioBuffer>();
+      message.buffers.forEach((data, i) => {
+        const out = ctx.createBuffer(data.length, data[0].length, sampleRate);
+        data.forEach((channel, c) => out.copyToChannel(channel, c));
+        result.set(buffers[i], out);
+      });
+      resolve(result);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error(e.message));
+    };
+    worker.postMessage(request, channels.flatMap(c => c.map(data => data.buffer)));
+  });
+};
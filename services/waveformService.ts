@@ -0,0 +1,22 @@
+import { WaveformPeaks } from '../utils/waveformPeaks';
+import type { PeaksRequest } from '../workers/waveformPeaks.worker';
+
+/** Computes the min/max peak pyramid for a decoded buffer on a worker thread. */
+export const computeWaveformPeaks = (buffer: AudioBuffer): Promise<WaveformPeaks> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/waveformPeaks.worker.ts', import.meta.url), { type: 'module' });
+    // Copies, so the AudioBuffer keeps its own channel data
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+    const request: PeaksRequest = { channels, sampleRate: buffer.sampleRate };
+
+    worker.onmessage = (e: MessageEvent<WaveformPeaks>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+    worker.postMessage(request, channels.map(c => c.buffer));
+  });
+};
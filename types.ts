@@ -14,6 +14,94 @@ export interface AudioStem {
   muted: boolean;
   color: string;
   pan?: number; // -100 (Left) to 100 (Right)
+  inserts?: InsertEffect[]; // Pre-fader, in signal order
+  busId?: string; // Group bus the stem feeds; the master when unset
+  sends?: Record<string, number>; // Aux return id -> post-fader send level, 0 to 100
+  automation?: StemAutomation;
+  clips?: AudioClip[]; // Recorded takes, later ones on top; a stem with clips plays only them, never the source mix
+}
+
+/** A stretch of a recorded take placed on a stem's timeline. */
+export interface AudioClip {
+  id: string;
+  name: string; // e.g. 'Take 3'
+  takeId: string; // Recording the audio comes from
+  start: number; // Song seconds
+  end: number;
+  offset: number; // Seconds into the take that play at `start`
+}
+
+export type AutomationParam = 'volume' | 'pan';
+
+export interface AutomationPoint {
+  time: number; // Song seconds
+  value: number; // Same scale as the stem's volume (0 to 100) or pan (-100 to 100)
+  curve: 'linear' | 'curved'; // Shape of the segment running to the next point
+}
+
+/** Breakpoints per parameter, sorted by time. A lane with points overrides the static value. */
+export type StemAutomation = Partial<Record<AutomationParam, AutomationPoint[]>>;
+
+export type InsertEffectType = 'eq' | 'compressor' | 'gate' | 'saturator' | 'delay';
+export type ReturnEffectType = 'reverb' | 'delay'; // Shared effects an aux return can run
+export type EffectType = InsertEffectType | ReturnEffectType;
+
+export interface EqBand {
+  type: 'lowshelf' | 'peaking' | 'highshelf';
+  frequency: number; // Hz
+  gain: number; // dB
+  q: number; // Peaking bands only; shelves use a fixed slope
+}
+
+export interface InsertEffectParams {
+  eq: { bands: EqBand[] };
+  compressor: { threshold: number; ratio: number; attack: number; release: number; knee: number; makeup: number }; // dB, :1, ms, ms, dB, dB
+  gate: { threshold: number; range: number; release: number }; // dB, dB of attenuation when closed, ms
+  saturator: { drive: number; mix: number; output: number }; // dB, 0..1 wet, dB
+  delay: { time: number; feedback: number; mix: number }; // ms, 0..1, 0..1 wet
+  reverb: { decay: number; preDelay: number; mix: number }; // Seconds to -60 dB, ms, 0..1 wet
+}
+
+export interface EffectOf<T extends EffectType> {
+  id: string;
+  type: T;
+  bypassed: boolean;
+  params: InsertEffectParams[T];
+}
+
+type EffectUnion<K extends EffectType> = { [T in K]: EffectOf<T> }[K];
+
+export type InsertEffect = EffectUnion<InsertEffectType>;
+export type ReturnEffect = EffectUnion<ReturnEffectType>;
+export type Effect = EffectUnion<EffectType>;
+
+export interface MixBus {
+  id: string;
+  name: string;
+  volume: number; // 0 to 100
+  pan: number; // -100 (Left) to 100 (Right)
+  muted: boolean;
+}
+
+export interface AuxReturn {
+  id: string;
+  name: string;
+  volume: number; // 0 to 100
+  muted: boolean;
+  effect: ReturnEffect; // Runs fully wet
+}
+
+export interface MasterChannel {
+  volume: number; // 0 to 100
+  limiter: boolean;
+  ceiling: number; // dBTP
+  release: number; // ms
+}
+
+export interface MixerRouting {
+  buses: MixBus[];
+  returns: AuxReturn[];
+  master: MasterChannel;
 }
 
 export interface LyricLine {
@@ -21,11 +109,41 @@ export interface LyricLine {
   text: string;
 }
 
+export interface AudioSourceInfo {
+  fileName: string;
+  duration: number; // Seconds
+  sampleRate: number;
+  channelCount: number;
+}
+
+export interface BeatGrid {
+  beats: number[]; // Beat times in seconds
+  downbeats: number[]; // Times of the first beat of each bar
+  beatsPerBar: number;
+}
+
+export interface TempoCandidate {
+  bpm: number;
+  score: number; // 0..1
+}
+
+export interface ChordSegment {
+  start: number; // Seconds
+  end: number;
+  symbol: string; // e.g. 'Bm', 'G7', or 'N' for no chord
+  confidence: number; // 0..1
+}
+
 export interface AudioMetadata {
   bpm: number;
   key: string;
   chords: string[];
+  chordSegments?: ChordSegment[]; // Timed chords, when recognised from audio
   lyrics?: LyricLine[];
+  bpmConfidence?: number; // 0..1, set when the tempo was detected from audio
+  bpmAlternatives?: TempoCandidate[]; // Half/double-time readings
+  beatGrid?: BeatGrid;
+  keyConfidence?: number; // 0..1, set when the key was detected from audio
 }
 
 export interface ProductConcept {
@@ -34,3 +152,17 @@ export interface ProductConcept {
   imageUrl?: string;
   description?: string;
 }
+
+export interface LoopRegion {
+  id: string;
+  name: string; // Song section, e.g. 'Verse 1' or 'Chorus'
+  start: number; // Seconds
+  end: number;
+}
+
+export interface Marker {
+  id: string;
+  name: string;
+  time: number; // Seconds
+  color: string; // Tailwind colour token, e.g. 'amber-400'
+}
@@ -0,0 +1,71 @@
+import { AutomationParam, AutomationPoint } from '../types';
+
+/**
+ * Automation breakpoints and the curves between them. Everything here is pure so the same
+ * values drive the scheduled AudioParam events (services/channelStrip.ts) and the lane drawing.
+ */
+
+export const AUTOMATION_PARAMS: AutomationParam[] = ['volume', 'pan'];
+
+export const AUTOMATION_RANGES: Record<AutomationParam, { label: string; min: number; max: number; initial: number }> = {
+  volume: { label: 'Volume', min: 0, max: 100, initial: 80 },
+  pan: { label: 'Pan', min: -100, max: 100, initial: 0 },
+};
+
+const MERGE_SECONDS = 0.01; // A new point this close to an existing one replaces it
+
+/** S-shaped ease used by curved segments: flat at both ends, steepest in the middle. */
+export const curveShape = (t: number) => 0.5 - 0.5 * Math.cos(Math.PI * Math.max(0, Math.min(1, t)));
+
+/** Value at a song time. Holds the first value before the first point and the last value after the last. */
+export const automationValueAt = (points: AutomationPoint[], time: number): number => {
+  if (!points.length) return 0;
+  if (time <= points[0].time) return points[0].value;
+  const last = points[points.length - 1];
+  if (time >= last.time) return last.value;
+
+  // Binary search for the segment containing `time`
+  let lo = 0;
+  let hi = points.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].time <= time) lo = mid;
+    else hi = mid;
+  }
+  const a = points[lo];
+  const b = points[hi];
+  const t = (time - a.time) / (b.time - a.time);
+  return a.value + (b.value - a.value) * (a.curve === 'curved' ? curveShape(t) : t);
+};
+
+/** `count` evenly spaced values from `from` to `to` inclusive. */
+export const sampleAutomation = (points: AutomationPoint[], from: number, to: number, count: number): Float32Array => {
+  const length = Math.max(2, count);
+  return Float32Array.from({ length }, (_, i) => automationValueAt(points, from + ((to - from) * i) / (length - 1)));
+};
+
+export const sortPoints = (points: AutomationPoint[]) => [...points].sort((a, b) => a.time - b.time);
+
+/** Adds a point, replacing any existing point at (nearly) the same time. */
+export const setAutomationPoint = (points: AutomationPoint[], point: AutomationPoint): AutomationPoint[] =>
+  sortPoints([...points.filter(p => Math.abs(p.time - point.time) > MERGE_SECONDS), point]);
+
+const WRITE_RAMP_SECONDS = 0.05; // Written values ramp in from the existing lane over this long
+
+/**
+ * Touch-style writing while a slider is held during playback: each new point replaces the
+ * stretch of lane since the previous written point (`previous`, null for the first one).
+ * The first point ramps in from the existing lane over WRITE_RAMP_SECONDS instead of
+ * bending the segment before it.
+ */
+export const writeAutomation = (points: AutomationPoint[], previous: number | null, point: AutomationPoint): AutomationPoint[] => {
+  const end = point.time + MERGE_SECONDS;
+  if (previous !== null) return sortPoints([...points.filter(p => p.time <= previous || p.time > end), point]);
+
+  const anchorTime = point.time - WRITE_RAMP_SECONDS;
+  const kept = points.filter(p => p.time < anchorTime - MERGE_SECONDS || p.time > end);
+  const anchor: AutomationPoint[] = points.length && anchorTime > 0
+    ? [{ time: anchorTime, value: automationValueAt(points, anchorTime), curve: 'linear' }]
+    : [];
+  return sortPoints([...kept, ...anchor, point]);
+};
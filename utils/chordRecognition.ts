@@ -0,0 +1,144 @@
+import { ChordSegment } from '../types';
+import { Chromagram } from './chroma';
+import { MusicalKey, PITCH_CLASS_NAMES, scaleNotes } from './musicTheory';
+
+/**
+ * Chord recognition by chroma template matching:
+ *   1. Each chroma frame is log-compressed and L2-normalised, then scored against binary
+ *      templates for major, minor, dominant 7th and minor 7th chords on all 12 roots
+ *      (cosine similarity). Quiet frames score best as "N" (no chord).
+ *   2. A Viterbi pass with a fixed chord-change penalty smooths the frame labels.
+ *   3. Runs of the same label become segments; segments shorter than MIN_SEGMENT_SECONDS
+ *      are folded into their neighbour.
+ */
+
+export interface ChordOptions {
+  key?: MusicalKey; // Spells roots with flats when the key signature uses them
+  duration?: number; // Track length in seconds, closes the last segment
+}
+
+export const NO_CHORD = 'N';
+
+interface ChordQuality {
+  suffix: string;
+  intervals: number[];
+}
+
+const QUALITIES: ChordQuality[] = [
+  { suffix: '', intervals: [0, 4, 7] },
+  { suffix: 'm', intervals: [0, 3, 7] },
+  { suffix: '7', intervals: [0, 4, 7, 10] },
+  { suffix: 'm7', intervals: [0, 3, 7, 10] },
+];
+
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+const CHANGE_PENALTY = 0.25; // In similarity units; higher values hold chords longer
+const SEVENTH_BIAS = 0.03; // Four-note templates match triads too, so they must win clearly
+const NO_CHORD_SIMILARITY = 0.55; // What an "N" frame scores; quiet frames score 1
+const SILENCE_RATIO = 0.01; // Frame energy relative to the track median that counts as quiet
+const MIN_SEGMENT_SECONDS = 0.5;
+
+interface ChordTemplate {
+  symbol: string;
+  vector: Float32Array; // Unit length
+  bias: number;
+}
+
+const buildTemplates = (useFlats: boolean): ChordTemplate[] => {
+  const names = useFlats ? FLAT_NAMES : PITCH_CLASS_NAMES;
+  const templates: ChordTemplate[] = [];
+  for (const quality of QUALITIES) {
+    for (let root = 0; root < 12; root++) {
+      const vector = new Float32Array(12);
+      for (const interval of quality.intervals) vector[(root + interval) % 12] = 1 / Math.sqrt(quality.intervals.length);
+      templates.push({ symbol: names[root] + quality.suffix, vector, bias: quality.intervals.length > 3 ? -SEVENTH_BIAS : 0 });
+    }
+  }
+  return templates;
+};
+
+export const recognizeChords = (chromagram: Chromagram, options: ChordOptions = {}): ChordSegment[] => {
+  const { frames, hopSeconds, frameSeconds } = chromagram;
+  if (!frames.length) return [];
+
+  const useFlats = !!options.key && scaleNotes(options.key).some(note => note.includes('b'));
+  const templates = buildTemplates(useFlats);
+  const stateCount = templates.length + 1; // Last state is "no chord"
+  const noChordState = templates.length;
+
+  const energies = frames.map(frame => frame.reduce((a, b) => a + b, 0));
+  const medianEnergy = [...energies].sort((a, b) => a - b)[Math.floor(energies.length / 2)] || 0;
+
+  // Per-frame similarity to every state
+  const similarity = frames.map((frame, f) => {
+    const scores = new Float32Array(stateCount);
+    const quiet = energies[f] <= medianEnergy * SILENCE_RATIO;
+    const compressed = frame.map(v => Math.log1p(100 * v / (medianEnergy || 1)));
+    const norm = Math.hypot(...compressed) || 1;
+    for (let s = 0; s < templates.length; s++) {
+      let dot = 0;
+      for (let pc = 0; pc < 12; pc++) dot += (compressed[pc] / norm) * templates[s].vector[pc];
+      scores[s] = quiet ? 0 : dot + templates[s].bias;
+    }
+    scores[noChordState] = quiet ? 1 : NO_CHORD_SIMILARITY;
+    return scores;
+  });
+
+  // Viterbi: staying is free, any change costs CHANGE_PENALTY
+  const backpointers: Uint8Array[] = [];
+  let previous = Float64Array.from(similarity[0]);
+  for (let f = 1; f < frames.length; f++) {
+    let bestPrevious = 0;
+    for (let s = 1; s < stateCount; s++) if (previous[s] > previous[bestPrevious]) bestPrevious = s;
+
+    const current = new Float64Array(stateCount);
+    const pointers = new Uint8Array(stateCount);
+    for (let s = 0; s < stateCount; s++) {
+      const stay = previous[s];
+      const change = previous[bestPrevious] - CHANGE_PENALTY;
+      pointers[s] = stay >= change ? s : bestPrevious;
+      current[s] = Math.max(stay, change) + similarity[f][s];
+    }
+    backpointers.push(pointers);
+    previous = current;
+  }
+
+  const path = new Array<number>(frames.length);
+  path[frames.length - 1] = previous.indexOf(Math.max(...previous));
+  for (let f = frames.length - 1; f > 0; f--) path[f - 1] = backpointers[f - 1][path[f]];
+
+  // Frame f covers the hop centred on its window
+  const frameTime = (f: number) => Math.max(0, f * hopSeconds + frameSeconds / 2 - hopSeconds / 2);
+  const duration = options.duration ?? frameTime(frames.length);
+
+  let segments: ChordSegment[] = [];
+  let runStart = 0;
+  for (let f = 1; f <= frames.length; f++) {
+    if (f < frames.length && path[f] === path[runStart]) continue;
+    const state = path[runStart];
+    let total = 0;
+    for (let i = runStart; i < f; i++) total += similarity[i][state];
+    segments.push({
+      start: runStart === 0 ? 0 : frameTime(runStart),
+      end: f === frames.length ? duration : frameTime(f),
+      symbol: state === noChordState ? NO_CHORD : templates[state].symbol,
+      confidence: Math.max(0, Math.min(1, total / (f - runStart))),
+    });
+    runStart = f;
+  }
+
+  // Fold short segments into the longer neighbour, then merge equal neighbours
+  segments = segments.reduce<ChordSegment[]>((out, segment) => {
+    const last = out[out.length - 1];
+    if (last && (segment.end - segment.start < MIN_SEGMENT_SECONDS || last.symbol === segment.symbol)) {
+      last.end = segment.end;
+    } else if (last && last.end - last.start < MIN_SEGMENT_SECONDS) {
+      out[out.length - 1] = { ...segment, start: last.start };
+    } else {
+      out.push({ ...segment });
+    }
+    return out;
+  }, []);
+
+  return segments;
+};
@@ -0,0 +1,74 @@
+import { hannWindow, magnitudeSpectrum } from './fft';
+
+/**
+ * Short-time chroma: the spectrum folded onto the 12 pitch classes (0 = C) per frame.
+ * Shared by key detection and chord recognition.
+ */
+
+export interface Chromagram {
+  frames: Float32Array[]; // 12 bins per frame, unnormalised energy
+  hopSeconds: number;
+  frameSeconds: number;
+}
+
+const FRAME_SIZE = 8192; // ~5Hz bins at 44.1kHz, enough to separate semitones from ~100Hz up
+const HOP_SIZE = 2048;
+const MIN_HZ = 65; // C2
+const MAX_HZ = 2100; // C7
+
+export const computeChromagram = (samples: Float32Array, sampleRate: number, onProgress?: (fraction: number) => void): Chromagram => {
+  const window = hannWindow(FRAME_SIZE);
+  const frameCount = Math.max(1, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+
+  // Precompute the pitch class of every bin in range
+  const bins = FRAME_SIZE / 2 + 1;
+  const binPitchClass = new Int8Array(bins).fill(-1);
+  for (let k = 1; k < bins; k++) {
+    const hz = (k * sampleRate) / FRAME_SIZE;
+    if (hz < MIN_HZ || hz > MAX_HZ) continue;
+    const midi = Math.round(69 + 12 * Math.log2(hz / 440));
+    binPitchClass[k] = ((midi % 12) + 12) % 12;
+  }
+
+  const frames: Float32Array[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    const spectrum = magnitudeSpectrum(samples.subarray(f * HOP_SIZE, f * HOP_SIZE + FRAME_SIZE), window);
+    const chroma = new Float32Array(12);
+    for (let k = 1; k < bins; k++) {
+      const pc = binPitchClass[k];
+      if (pc >= 0) chroma[pc] += spectrum[k] * spectrum[k];
+    }
+    frames.push(chroma);
+    if (onProgress && f % 256 === 0) onProgress(f / frameCount);
+  }
+  onProgress?.(1);
+
+  return { frames, hopSeconds: HOP_SIZE / sampleRate, frameSeconds: FRAME_SIZE / sampleRate };
+};
+
+/** Scales a chroma vector so its largest bin is 1 (all zeros stay zero). */
+export const normaliseChroma = (chroma: Float32Array): Float32Array => {
+  let max = 0;
+  for (let i = 0; i < 12; i++) max = Math.max(max, chroma[i]);
+  return max > 0 ? chroma.map(v => v / max) : chroma.slice();
+};
+
+/** Pearson correlation between two equal-length vectors. */
+export const correlate = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i] / n;
+    meanB += b[i] / n;
+  }
+  let num = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    num += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  return varA > 0 && varB > 0 ? num / Math.sqrt(varA * varB) : 0;
+};
@@ -0,0 +1,15 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Strips characters that are awkward in file names across platforms. */
+export const toFileSafeName = (name: string) =>
+  name.replace(/\.[^/.]+$/, '').replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '_') || 'untitled';
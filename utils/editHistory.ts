@@ -0,0 +1,69 @@
+/**
+ * Command-based undo history over a plain state object.
+ *
+ * Each command records the fields it changed as `before` and `after` patches, so undoing
+ * merges `before` back in and redoing merges `after`. Commands sharing a coalesce key that
+ * arrive within COALESCE_WINDOW_MS of each other collapse into one entry, which turns a
+ * slider drag into a single step.
+ */
+
+export interface EditCommand<S> {
+  label: string;
+  before: Partial<S>;
+  after: Partial<S>;
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+export interface EditHistory<S> {
+  past: EditCommand<S>[]; // Oldest first; the last entry is the current state
+  future: EditCommand<S>[]; // Next redo first
+}
+
+export const HISTORY_LIMIT = 200;
+export const COALESCE_WINDOW_MS = 1000;
+
+export const createHistory = <S>(): EditHistory<S> => ({ past: [], future: [] });
+
+export const pushCommand = <S>(history: EditHistory<S>, command: EditCommand<S>): EditHistory<S> => {
+  const top = history.past[history.past.length - 1];
+  const coalesces =
+    !!top &&
+    history.future.length === 0 &&
+    !!command.coalesceKey &&
+    top.coalesceKey === command.coalesceKey &&
+    command.timestamp - top.timestamp <= COALESCE_WINDOW_MS;
+
+  const past = coalesces
+    ? [...history.past.slice(0, -1), { ...top, after: { ...top.after, ...command.after }, timestamp: command.timestamp }]
+    : [...history.past, command];
+
+  return { past: past.slice(-HISTORY_LIMIT), future: [] };
+};
+
+export const canUndo = <S>(history: EditHistory<S>) => history.past.length > 0;
+export const canRedo = <S>(history: EditHistory<S>) => history.future.length > 0;
+
+/**
+ * Moves to the state after the first `position` commands of the combined timeline
+ * (past followed by future). Returns the new history and the patch that takes the
+ * current state there, or null when already at that position.
+ */
+export const jumpToPosition = <S>(history: EditHistory<S>, position: number): { history: EditHistory<S>; patch: Partial<S> } | null => {
+  const timeline = [...history.past, ...history.future];
+  const target = Math.max(0, Math.min(timeline.length, position));
+  const current = history.past.length;
+  if (target === current) return null;
+
+  const patch: Partial<S> = {};
+  if (target < current) {
+    for (let i = current - 1; i >= target; i--) Object.assign(patch, timeline[i].before);
+  } else {
+    for (let i = current; i < target; i++) Object.assign(patch, timeline[i].after);
+  }
+
+  return { history: { past: timeline.slice(0, target), future: timeline.slice(target) }, patch };
+};
+
+export const undoCommand = <S>(history: EditHistory<S>) => jumpToPosition(history, history.past.length - 1);
+export const redoCommand = <S>(history: EditHistory<S>) => jumpToPosition(history, history.past.length + 1);
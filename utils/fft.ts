@@ -0,0 +1,97 @@
+/**
+ * In-place iterative radix-2 FFT over separate real/imaginary arrays.
+ * Sizes must be powers of two. Twiddle tables are cached per size.
+ */
+
+const twiddleCache = new Map<number, { cos: Float64Array; sin: Float64Array; bitReverse: Uint32Array }>();
+
+const getTables = (size: number) => {
+  let tables = twiddleCache.get(size);
+  if (tables) return tables;
+  if (size < 2 || (size & (size - 1)) !== 0) throw new Error(`FFT size must be a power of two, got ${size}`);
+
+  const half = size / 2;
+  const cos = new Float64Array(half);
+  const sin = new Float64Array(half);
+  for (let i = 0; i < half; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = Math.sin((2 * Math.PI * i) / size);
+  }
+
+  const bits = Math.log2(size);
+  const bitReverse = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let reversed = 0;
+    for (let b = 0; b < bits; b++) reversed |= ((i >> b) & 1) << (bits - 1 - b);
+    bitReverse[i] = reversed;
+  }
+
+  tables = { cos, sin, bitReverse };
+  twiddleCache.set(size, tables);
+  return tables;
+};
+
+const transform = (re: Float32Array | Float64Array, im: Float32Array | Float64Array, inverse: boolean) => {
+  const size = re.length;
+  const { cos, sin, bitReverse } = getTables(size);
+
+  for (let i = 0; i < size; i++) {
+    const j = bitReverse[i];
+    if (j > i) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+  for (let len = 2; len <= size; len <<= 1) {
+    const halfLen = len >> 1;
+    const step = size / len;
+    for (let start = 0; start < size; start += len) {
+      for (let k = 0; k < halfLen; k++) {
+        const wr = cos[k * step];
+        const wi = sign * sin[k * step];
+        const a = start + k;
+        const b = a + halfLen;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < size; i++) {
+      re[i] /= size;
+      im[i] /= size;
+    }
+  }
+};
+
+export const fft = (re: Float32Array | Float64Array, im: Float32Array | Float64Array) => transform(re, im, false);
+
+/** Inverse FFT, scaled by 1/N so that ifft(fft(x)) === x. */
+export const ifft = (re: Float32Array | Float64Array, im: Float32Array | Float64Array) => transform(re, im, true);
+
+/** Periodic Hann window, which overlap-adds to a constant at hops of N/2 and N/4. */
+export const hannWindow = (size: number): Float32Array => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  return window;
+};
+
+/** Magnitude spectrum (bins 0..N/2) of one windowed frame of a real signal. */
+export const magnitudeSpectrum = (frame: Float32Array, window: Float32Array): Float32Array => {
+  const size = window.length;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < size; i++) re[i] = (frame[i] || 0) * window[i];
+  fft(re, im);
+  const bins = size / 2 + 1;
+  const magnitudes = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) magnitudes[k] = Math.hypot(re[k], im[k]);
+  return magnitudes;
+};
@@ -0,0 +1,72 @@
+export interface Id3Tags {
+  title?: string;
+  artist?: string;
+  bpm?: number;
+  key?: string;
+  encoder?: string;
+  cover?: { mimeType: string; data: Uint8Array };
+}
+
+const TEXT_ENCODING_UTF8 = 3;
+const PICTURE_TYPE_FRONT_COVER = 3;
+
+const encoder = new TextEncoder();
+
+/** ID3v2.4 sizes are 28-bit "syncsafe" integers: seven bits per byte, top bit clear. */
+const syncsafe = (size: number) => new Uint8Array([(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const frame = (id: string, body: Uint8Array) =>
+  concat([encoder.encode(id), syncsafe(body.length), new Uint8Array([0, 0]), body]);
+
+const textFrame = (id: string, text: string) =>
+  frame(id, concat([new Uint8Array([TEXT_ENCODING_UTF8]), encoder.encode(text)]));
+
+/** TKEY allows at most three characters: root, optional accidental and 'm' for minor. */
+export const toId3Key = (key: string) => {
+  const match = /^([A-Ga-g])([#b]?)\s*(m(?!aj)|min)?/.exec(key.trim());
+  if (!match) return 'o';
+  return `${match[1].toUpperCase()}${match[2]}${match[3] ? 'm' : ''}`;
+};
+
+/** Builds an ID3v2.4 tag to prepend to an MP3 stream. */
+export const buildId3v2Tag = (tags: Id3Tags): Uint8Array => {
+  const frames: Uint8Array[] = [];
+  if (tags.title) frames.push(textFrame('TIT2', tags.title));
+  if (tags.artist) frames.push(textFrame('TPE1', tags.artist));
+  if (tags.bpm) frames.push(textFrame('TBPM', Math.round(tags.bpm).toString()));
+  if (tags.key) frames.push(textFrame('TKEY', toId3Key(tags.key)));
+  if (tags.encoder) frames.push(textFrame('TSSE', tags.encoder));
+  if (tags.cover) {
+    frames.push(frame('APIC', concat([
+      new Uint8Array([TEXT_ENCODING_UTF8]),
+      encoder.encode(tags.cover.mimeType), new Uint8Array([0]),
+      new Uint8Array([PICTURE_TYPE_FRONT_COVER]),
+      new Uint8Array([0]), // Empty description
+      tags.cover.data,
+    ])));
+  }
+
+  const body = concat(frames);
+  const header = concat([encoder.encode('ID3'), new Uint8Array([4, 0, 0]), syncsafe(body.length)]);
+  return concat([header, body]);
+};
+
+/** Splits a base64 data URL (as returned by image generation) into its MIME type and bytes. */
+export const dataUrlToBytes = (dataUrl: string) => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = /data:([^;]+)/.exec(header)?.[1] || 'image/png';
+  const binary = atob(base64);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return { mimeType, data };
+};
@@ -0,0 +1,219 @@
+import { Effect, EffectOf, EffectType, EqBand, InsertEffect, InsertEffectParams, InsertEffectType, ReturnEffect, ReturnEffectType } from '../types';
+
+/**
+ * Insert effect presets and the curves behind them. Everything here is pure so the
+ * same numbers drive the Web Audio nodes (services/insertChain.ts) and the UI.
+ */
+
+export const INSERT_EFFECT_TYPES: InsertEffectType[] = ['eq', 'compressor', 'gate', 'saturator', 'delay'];
+export const RETURN_EFFECT_TYPES: ReturnEffectType[] = ['reverb', 'delay'];
+
+export const INSERT_EFFECT_LABELS: Record<EffectType, string> = {
+  eq: 'EQ',
+  compressor: 'Comp',
+  gate: 'Gate',
+  saturator: 'Sat',
+  delay: 'Delay',
+  reverb: 'Reverb',
+};
+
+export const DEFAULT_EQ_BANDS: EqBand[] = [
+  { type: 'lowshelf', frequency: 100, gain: 0, q: 0.7 },
+  { type: 'peaking', frequency: 400, gain: 0, q: 1 },
+  { type: 'peaking', frequency: 2500, gain: 0, q: 1 },
+  { type: 'highshelf', frequency: 8000, gain: 0, q: 0.7 },
+];
+
+const DEFAULT_PARAMS: InsertEffectParams = {
+  eq: { bands: DEFAULT_EQ_BANDS },
+  compressor: { threshold: -18, ratio: 4, attack: 10, release: 150, knee: 6, makeup: 0 },
+  gate: { threshold: -50, range: -60, release: 80 },
+  saturator: { drive: 6, mix: 1, output: 0 },
+  delay: { time: 375, feedback: 0.35, mix: 0.25 },
+  reverb: { decay: 2.2, preDelay: 20, mix: 0.25 },
+};
+
+/** Effects whose parameters are all plain numbers, one slider each; the EQ has its own band controls. */
+export type ParamEffectType = Exclude<EffectType, 'eq'>;
+export type ParamEffect = Extract<Effect, { type: ParamEffectType }>;
+export type EffectParamKey<T extends ParamEffectType> = T extends ParamEffectType ? keyof InsertEffectParams[T] & string : never;
+
+export interface EffectParamSpec<K extends string = string> {
+  key: K;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}
+
+/** Slider ranges for every effect except the EQ. */
+export const EFFECT_PARAM_SPECS: { [T in ParamEffectType]: EffectParamSpec<EffectParamKey<T>>[] } = {
+  compressor: [
+    { key: 'threshold', label: 'Thresh', min: -60, max: 0, step: 1, unit: 'dB' },
+    { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, unit: ':1' },
+    { key: 'attack', label: 'Attack', min: 0, max: 200, step: 1, unit: 'ms' },
+    { key: 'release', label: 'Release', min: 10, max: 1000, step: 10, unit: 'ms' },
+    { key: 'knee', label: 'Knee', min: 0, max: 40, step: 1, unit: 'dB' },
+    { key: 'makeup', label: 'Makeup', min: 0, max: 24, step: 0.5, unit: 'dB' },
+  ],
+  gate: [
+    { key: 'threshold', label: 'Thresh', min: -80, max: 0, step: 1, unit: 'dB' },
+    { key: 'range', label: 'Range', min: -80, max: 0, step: 1, unit: 'dB' },
+    { key: 'release', label: 'Release', min: 5, max: 500, step: 5, unit: 'ms' },
+  ],
+  saturator: [
+    { key: 'drive', label: 'Drive', min: 0, max: 36, step: 0.5, unit: 'dB' },
+    { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, unit: '' },
+    { key: 'output', label: 'Output', min: -24, max: 6, step: 0.5, unit: 'dB' },
+  ],
+  delay: [
+    { key: 'time', label: 'Time', min: 10, max: 2000, step: 5, unit: 'ms' },
+    { key: 'feedback', label: 'Feedback', min: 0, max: 0.95, step: 0.01, unit: '' },
+    { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, unit: '' },
+  ],
+  reverb: [
+    { key: 'decay', label: 'Decay', min: 0.3, max: 8, step: 0.1, unit: 's' },
+    { key: 'preDelay', label: 'Pre-Delay', min: 0, max: 200, step: 1, unit: 'ms' },
+    { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, unit: '' },
+  ],
+};
+
+type NumericParams = { [T in ParamEffectType]: Record<EffectParamKey<T>, number> };
+
+/** An effect's sliders, each with the value it currently shows. */
+export const effectParamControls = <T extends ParamEffectType>(effect: EffectOf<T>): { spec: EffectParamSpec<EffectParamKey<T>>; value: number }[] => {
+  const params: NumericParams[T] = effect.params;
+  const specs: EffectParamSpec<EffectParamKey<T>>[] = EFFECT_PARAM_SPECS[effect.type];
+  return specs.map(spec => ({ spec, value: params[spec.key] }));
+};
+
+type ParamKeyOf<E extends ParamEffect> = E extends EffectOf<infer T extends ParamEffectType> ? EffectParamKey<T> : never;
+
+export const setEffectParam = <E extends ParamEffect>(effect: E, key: ParamKeyOf<E>, value: number): E =>
+  ({ ...effect, params: { ...effect.params, [key]: value } });
+
+/** Slider readout: the value with its unit, or a percentage for unitless 0..1 values. */
+export const formatParamValue = (value: number, unit: string) => (unit ? `${value}${unit}` : `${Math.round(value * 100)}%`);
+
+export const MAX_DELAY_SECONDS = 2;
+export const MAX_PRE_DELAY_SECONDS = 0.5;
+
+export const createInsertId = () => `insert-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const effectFactory = <T extends EffectType>(type: T) => (): EffectOf<T> =>
+  ({ id: createInsertId(), type, bypassed: false, params: structuredClone(DEFAULT_PARAMS[type]) });
+
+// Indexing with a union of types yields a union of factories, so callers get the discriminated effect back
+const EFFECT_FACTORIES: { [T in EffectType]: () => EffectOf<T> } = {
+  eq: effectFactory('eq'),
+  compressor: effectFactory('compressor'),
+  gate: effectFactory('gate'),
+  saturator: effectFactory('saturator'),
+  delay: effectFactory('delay'),
+  reverb: effectFactory('reverb'),
+};
+
+export const createInsertEffect = (type: InsertEffectType): InsertEffect => EFFECT_FACTORIES[type]();
+
+/** Return effects run fully wet; the return's fader sets how much of them is heard. */
+export const createReturnEffect = (type: ReturnEffectType): ReturnEffect => setEffectParam(EFFECT_FACTORIES[type](), 'mix', 1);
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Magnitude response in dB of an EQ at the given frequencies. Uses the biquad formulas
+ * from the Web Audio spec (Audio EQ Cookbook, shelves with slope S = 1), so the curve
+ * matches what BiquadFilterNode actually does.
+ */
+export const eqResponseDb = (bands: EqBand[], frequencies: number[], sampleRate = 48000): number[] => {
+  const response = frequencies.map(() => 0);
+  for (const band of bands) {
+    if (band.gain === 0) continue;
+    const A = Math.pow(10, band.gain / 40);
+    const w0 = (2 * Math.PI * Math.min(band.frequency, sampleRate / 2)) / sampleRate;
+    const cos = Math.cos(w0);
+    const sin = Math.sin(w0);
+    let b: number[];
+    let a: number[];
+    if (band.type === 'peaking') {
+      const alpha = sin / (2 * band.q);
+      b = [1 + alpha * A, -2 * cos, 1 - alpha * A];
+      a = [1 + alpha / A, -2 * cos, 1 - alpha / A];
+    } else {
+      const k = 2 * Math.sqrt(A) * (sin / 2) * Math.SQRT2;
+      const sign = band.type === 'lowshelf' ? 1 : -1;
+      b = [
+        A * ((A + 1) - sign * (A - 1) * cos + k),
+        2 * sign * A * ((A - 1) - sign * (A + 1) * cos),
+        A * ((A + 1) - sign * (A - 1) * cos - k),
+      ];
+      a = [
+        (A + 1) + sign * (A - 1) * cos + k,
+        -2 * sign * ((A - 1) + sign * (A + 1) * cos),
+        (A + 1) + sign * (A - 1) * cos - k,
+      ];
+    }
+
+    frequencies.forEach((f, i) => {
+      const w = (2 * Math.PI * f) / sampleRate;
+      const magnitude = (c: number[]) => Math.hypot(c[0] + c[1] * Math.cos(w) + c[2] * Math.cos(2 * w), c[1] * Math.sin(w) + c[2] * Math.sin(2 * w));
+      response[i] += 20 * Math.log10(magnitude(b) / magnitude(a));
+    });
+  }
+  return response;
+};
+
+const CURVE_LENGTH = 4097; // Odd, so the curve has a point at exactly zero
+const GATE_CURVE_LENGTH = 65537; // Fine enough to resolve thresholds down to about -90 dB
+const GATE_KNEE_DB = 6;
+
+/** WaveShaper curve mapping input x in [-1, 1] to f(x). */
+const buildCurve = (length: number, f: (x: number) => number) =>
+  Float32Array.from({ length }, (_, i) => f((i / (length - 1)) * 2 - 1));
+
+/** tanh soft clipping, normalised so full scale still maps to full scale. */
+export const saturationCurve = (driveDb: number) => {
+  const k = dbToGain(driveDb);
+  return buildCurve(CURVE_LENGTH, x => Math.tanh(k * x) / Math.tanh(k));
+};
+
+/** Full-wave rectifier scaled so a smoothed sine reads its peak level. */
+export const rectifierCurve = () => buildCurve(CURVE_LENGTH, x => Math.min(1, (Math.abs(x) * Math.PI) / 2));
+
+/**
+ * Gain applied for a given envelope level: unity above the threshold, `rangeDb` below it,
+ * with a short knee in between so the gate doesn't chatter on the threshold.
+ */
+export const gateCurve = (thresholdDb: number, rangeDb: number) => {
+  const floor = dbToGain(Math.min(0, rangeDb));
+  return buildCurve(GATE_CURVE_LENGTH, x => {
+    if (x <= 0) return floor;
+    const db = 20 * Math.log10(x);
+    if (db >= thresholdDb) return 1;
+    if (db <= thresholdDb - GATE_KNEE_DB) return floor;
+    const t = (db - thresholdDb + GATE_KNEE_DB) / GATE_KNEE_DB;
+    return dbToGain(rangeDb * (1 - t));
+  });
+};
+
+/**
+ * Synthetic room: decorrelated noise per channel under an exponential decay reaching
+ * -60 dB after `decay` seconds. The noise is seeded so live playback and offline
+ * renders use the same impulse.
+ */
+export const reverbImpulse = (sampleRate: number, decay: number, channelCount = 2): Float32Array[] => {
+  const length = Math.max(1, Math.round(sampleRate * decay));
+  let seed = 0x9e3779b9;
+  const random = () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return seed / 0x100000000;
+  };
+  return Array.from({ length: channelCount }, () => Float32Array.from({ length }, (_, i) => (random() * 2 - 1) * Math.pow(10, (-3 * i) / length)));
+};
+
+/** Hard clip at the limiter ceiling, the last stage of the master strip. */
+export const ceilingCurve = (ceilingDb: number) => {
+  const ceiling = dbToGain(Math.min(0, ceilingDb));
+  return buildCurve(CURVE_LENGTH, x => Math.max(-ceiling, Math.min(ceiling, x)));
+};
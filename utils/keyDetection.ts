@@ -0,0 +1,51 @@
+import { Chromagram, correlate } from './chroma';
+import { KeyMode, MusicalKey, keyFromPitchClass } from './musicTheory';
+
+/**
+ * Key estimation in the Krumhansl-Schmuckler style: the track's summed chroma is
+ * correlated against the Krumhansl-Kessler major and minor key profiles rotated to
+ * all 12 tonics, and the best-correlating key wins.
+ */
+
+export interface KeyCandidate {
+  key: MusicalKey;
+  score: number; // Pearson correlation, -1..1
+}
+
+export interface KeyEstimate {
+  key: MusicalKey;
+  confidence: number; // 0..1, the winning correlation
+  candidates: KeyCandidate[]; // Best first
+}
+
+// Probe-tone ratings from Krumhansl & Kessler (1982), index 0 = tonic
+export const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+export const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/** Ranks all 24 keys against a 12-bin pitch-class profile (0 = C). */
+export const estimateKey = (profile: ArrayLike<number>): KeyEstimate => {
+  const candidates: KeyCandidate[] = [];
+  for (const mode of ['major', 'minor'] as KeyMode[]) {
+    const template = mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE;
+    for (let tonic = 0; tonic < 12; tonic++) {
+      // Rotate the template so its tonic lands on this pitch class
+      const rotated = Array.from({ length: 12 }, (_, pc) => template[(pc - tonic + 12) % 12]);
+      candidates.push({ key: keyFromPitchClass(tonic, mode), score: correlate(profile, rotated) });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+  return { key: candidates[0].key, confidence: Math.max(0, candidates[0].score), candidates };
+};
+
+/** Estimates the key of a whole track from its chromagram. */
+export const detectKey = (chromagram: Chromagram): KeyEstimate => {
+  // Sum per-frame chroma after square-root compression so loud passages don't dominate
+  const profile = new Float64Array(12);
+  for (const frame of chromagram.frames) {
+    let total = 0;
+    for (let pc = 0; pc < 12; pc++) total += frame[pc];
+    if (total <= 0) continue;
+    for (let pc = 0; pc < 12; pc++) profile[pc] += Math.sqrt(frame[pc] / total);
+  }
+  return estimateKey(profile);
+};
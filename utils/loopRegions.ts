@@ -0,0 +1,29 @@
+import { LoopRegion } from '../types';
+
+export const SECTION_NAMES = ['Intro', 'Verse', 'Pre-Chorus', 'Chorus', 'Bridge', 'Solo', 'Outro'];
+export const MIN_LOOP_SECONDS = 0.1;
+
+/** Rounds a time to the nearest beat of a `bpm` grid whose beats include `offset`. */
+export const snapToBeat = (time: number, bpm: number, offset = 0) => {
+  if (!(bpm > 0)) return time;
+  const beat = 60 / bpm;
+  return offset + Math.round((time - offset) / beat) * beat;
+};
+
+/** Orders two drag positions into a range clamped to the track; null if too short to loop. */
+export const toLoopRange = (a: number, b: number, duration: number): { start: number; end: number } | null => {
+  const start = Math.max(0, Math.min(a, b));
+  const end = Math.min(duration, Math.max(a, b));
+  return end - start >= MIN_LOOP_SECONDS ? { start, end } : null;
+};
+
+/** Next unused name for a section type: 'Verse', then 'Verse 2', 'Verse 3', ... */
+export const nextSectionName = (regions: LoopRegion[], base: string) => {
+  const taken = new Set(regions.map(r => r.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+};
+
+export const createRegionId = () => `region-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
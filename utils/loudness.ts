@@ -0,0 +1,276 @@
+import { SILENCE_DB, linearToDb, measureTruePeak } from './metering';
+
+/**
+ * Loudness per ITU-R BS.1770-4 and EBU R128 (Tech 3341/3342):
+ *   1. Each channel is K-weighted: a high shelf (+4 dB above ~1.7 kHz, the head's acoustic
+ *      effect) followed by the RLB high-pass (~38 Hz). Coefficients are derived for any
+ *      sample rate from the analogue prototypes, so at 48 kHz they match the tables in the spec.
+ *   2. Mean square is taken over sliding windows and summed across channels (L/R weight 1):
+ *      400 ms for momentary loudness, 3 s for short-term, both on a 100 ms hop.
+ *   3. Integrated loudness gates the 400 ms blocks twice: at -70 LUFS absolute, then at
+ *      10 LU below the loudness of the blocks that survived.
+ *   4. Loudness range is the spread between the 10th and 95th percentiles of the short-term
+ *      values, gated at -70 LUFS and 20 LU below their mean.
+ */
+
+/** Biquad coefficients normalised so that a[0] = 1. */
+export interface BiquadCoefficients {
+  b: [number, number, number];
+  a: [number, number, number];
+}
+
+export interface LoudnessStats {
+  integrated: number; // LUFS
+  momentaryMax: number; // LUFS
+  shortTermMax: number; // LUFS
+  range: number; // LU
+  truePeak: number; // dBTP
+}
+
+export interface LoudnessTarget {
+  id: string;
+  label: string;
+  lufs: number; // Integrated loudness to reach
+  truePeak: number; // dBTP ceiling the gain may not push past
+}
+
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [
+  { id: 'streaming', label: 'Streaming -14 LUFS', lufs: -14, truePeak: -1 },
+  { id: 'podcast', label: 'Podcast -16 LUFS', lufs: -16, truePeak: -1 },
+  { id: 'broadcast', label: 'EBU R128 -23 LUFS', lufs: -23, truePeak: -1 },
+];
+
+export const MOMENTARY_SECONDS = 0.4;
+export const SHORT_TERM_SECONDS = 3;
+const BLOCK_HOP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = 10;
+const RANGE_RELATIVE_GATE_LU = 20;
+const RANGE_LOW_PERCENTILE = 0.1;
+const RANGE_HIGH_PERCENTILE = 0.95;
+
+// Analogue prototypes of the two K-weighting stages (BS.1770-4, as fitted by Mansbridge et al.)
+const SHELF_HZ = 1681.974450955533;
+const SHELF_GAIN_DB = 3.999843853973347;
+const SHELF_Q = 0.7071752369554196;
+const HIGHPASS_HZ = 38.13547087602444;
+const HIGHPASS_Q = 0.5003270373238773;
+
+/** The two K-weighting biquads for a sample rate: pre-filter shelf, then RLB high-pass. */
+export const kWeightingFilters = (sampleRate: number): BiquadCoefficients[] => {
+  const shelfK = Math.tan((Math.PI * SHELF_HZ) / sampleRate);
+  const vh = Math.pow(10, SHELF_GAIN_DB / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / SHELF_Q + shelfK * shelfK;
+
+  const hpK = Math.tan((Math.PI * HIGHPASS_HZ) / sampleRate);
+  const hpA0 = 1 + hpK / HIGHPASS_Q + hpK * hpK;
+
+  return [
+    {
+      b: [
+        (vh + (vb * shelfK) / SHELF_Q + shelfK * shelfK) / shelfA0,
+        (2 * (shelfK * shelfK - vh)) / shelfA0,
+        (vh - (vb * shelfK) / SHELF_Q + shelfK * shelfK) / shelfA0,
+      ],
+      a: [1, (2 * (shelfK * shelfK - 1)) / shelfA0, (1 - shelfK / SHELF_Q + shelfK * shelfK) / shelfA0],
+    },
+    {
+      b: [1, -2, 1],
+      a: [1, (2 * (hpK * hpK - 1)) / hpA0, (1 - hpK / HIGHPASS_Q + hpK * hpK) / hpA0],
+    },
+  ];
+};
+
+const applyBiquad = (input: Float32Array, { b, a }: BiquadCoefficients) => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+export const kWeight = (channel: Float32Array, sampleRate: number) =>
+  kWeightingFilters(sampleRate).reduce(applyBiquad, channel);
+
+export const powerToLufs = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : SILENCE_DB);
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Mean square of K-weighted channels over windows of `windowSeconds` every `hopSeconds`,
+ * summed across channels. Only whole windows are measured.
+ */
+export const blockPowers = (weighted: Float32Array[], sampleRate: number, windowSeconds: number, hopSeconds = BLOCK_HOP_SECONDS): number[] => {
+  const window = Math.round(windowSeconds * sampleRate);
+  const hop = Math.round(hopSeconds * sampleRate);
+  const length = weighted[0]?.length || 0;
+  const prefixes = weighted.map(channel => {
+    const prefix = new Float64Array(channel.length + 1);
+    for (let i = 0; i < channel.length; i++) prefix[i + 1] = prefix[i] + channel[i] * channel[i];
+    return prefix;
+  });
+  const powers: number[] = [];
+  for (let start = 0; start + window <= length; start += hop) {
+    powers.push(prefixes.reduce((sum, prefix) => sum + (prefix[start + window] - prefix[start]) / window, 0));
+  }
+  return powers;
+};
+
+/** Gated integrated loudness of 400 ms block powers, in LUFS. */
+export const integratedLoudness = (powers: number[]): number => {
+  const audible = powers.filter(p => powerToLufs(p) > ABSOLUTE_GATE_LUFS);
+  if (!audible.length) return SILENCE_DB;
+  const threshold = powerToLufs(mean(audible)) - RELATIVE_GATE_LU;
+  const gated = audible.filter(p => powerToLufs(p) > threshold);
+  return powerToLufs(mean(gated));
+};
+
+/** Loudness range (LRA) of short-term powers, in LU. */
+export const loudnessRange = (shortTermPowers: number[]): number => {
+  const audible = shortTermPowers.filter(p => powerToLufs(p) > ABSOLUTE_GATE_LUFS);
+  if (audible.length < 2) return 0;
+  const threshold = powerToLufs(mean(audible)) - RANGE_RELATIVE_GATE_LU;
+  const values = audible.map(powerToLufs).filter(l => l > threshold).sort((a, b) => a - b);
+  const percentile = (q: number) => values[Math.min(values.length - 1, Math.round(q * (values.length - 1)))];
+  return percentile(RANGE_HIGH_PERCENTILE) - percentile(RANGE_LOW_PERCENTILE);
+};
+
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): LoudnessStats => {
+  const weighted = channels.map(c => kWeight(c, sampleRate));
+  const momentary = blockPowers(weighted, sampleRate, MOMENTARY_SECONDS);
+  const shortTerm = blockPowers(weighted, sampleRate, SHORT_TERM_SECONDS);
+  return {
+    integrated: integratedLoudness(momentary),
+    momentaryMax: powerToLufs(momentary.reduce((a, b) => Math.max(a, b), 0)),
+    shortTermMax: powerToLufs(shortTerm.reduce((a, b) => Math.max(a, b), 0)),
+    range: loudnessRange(shortTerm),
+    truePeak: linearToDb(measureTruePeak(channels)),
+  };
+};
+
+/** Gain in dB that takes the measured loudness to the target, held back if it would push the true peak past the target's ceiling. */
+export const normalizationGainDb = (stats: LoudnessStats, target: LoudnessTarget) => {
+  if (!Number.isFinite(stats.integrated)) return 0;
+  return Math.min(target.lufs - stats.integrated, target.truePeak - stats.truePeak);
+};
+
+export interface LoudnessReading {
+  momentary: number; // LUFS
+  shortTerm: number; // LUFS
+  integrated: number; // LUFS
+  range: number; // LU
+  truePeak: number; // Highest dBTP since the reset
+}
+
+/** Block loudness binned at a fixed resolution, so gating and percentiles cost the same however long a meter runs. */
+interface LoudnessHistogram {
+  counts: Uint32Array;
+  powers: Float64Array; // Summed block power per bin
+}
+
+const HISTOGRAM_STEP_LU = 0.1;
+const HISTOGRAM_CEILING_LUFS = 10;
+const HISTOGRAM_BINS = Math.round((HISTOGRAM_CEILING_LUFS - ABSOLUTE_GATE_LUFS) / HISTOGRAM_STEP_LU);
+
+const createHistogram = (): LoudnessHistogram => ({ counts: new Uint32Array(HISTOGRAM_BINS), powers: new Float64Array(HISTOGRAM_BINS) });
+
+const binLufs = (bin: number) => ABSOLUTE_GATE_LUFS + (bin + 0.5) * HISTOGRAM_STEP_LU;
+
+// Blocks at or under the absolute gate are never counted
+const addToHistogram = (histogram: LoudnessHistogram, power: number) => {
+  const lufs = powerToLufs(power);
+  if (!(lufs > ABSOLUTE_GATE_LUFS)) return;
+  const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((lufs - ABSOLUTE_GATE_LUFS) / HISTOGRAM_STEP_LU));
+  histogram.counts[bin]++;
+  histogram.powers[bin] += power;
+};
+
+/** First bin whose centre clears `threshold`, with the block count and summed power from there up. */
+const gateHistogram = (histogram: LoudnessHistogram, threshold: number) => {
+  const first = Math.max(0, Math.min(HISTOGRAM_BINS, Math.floor((threshold - ABSOLUTE_GATE_LUFS) / HISTOGRAM_STEP_LU + 0.5)));
+  let count = 0;
+  let power = 0;
+  for (let bin = first; bin < HISTOGRAM_BINS; bin++) {
+    count += histogram.counts[bin];
+    power += histogram.powers[bin];
+  }
+  return { first, count, power };
+};
+
+// Same two-stage gate as integratedLoudness, with the relative threshold resolved to a bin edge
+const histogramIntegrated = (histogram: LoudnessHistogram) => {
+  const audible = gateHistogram(histogram, ABSOLUTE_GATE_LUFS);
+  if (!audible.count) return SILENCE_DB;
+  const gated = gateHistogram(histogram, powerToLufs(audible.power / audible.count) - RELATIVE_GATE_LU);
+  return powerToLufs(gated.power / gated.count);
+};
+
+// Same gate and percentiles as loudnessRange, read to the bin resolution
+const histogramRange = (histogram: LoudnessHistogram) => {
+  const audible = gateHistogram(histogram, ABSOLUTE_GATE_LUFS);
+  if (audible.count < 2) return 0;
+  const { first, count } = gateHistogram(histogram, powerToLufs(audible.power / audible.count) - RANGE_RELATIVE_GATE_LU);
+  const percentile = (q: number) => {
+    const rank = Math.min(count - 1, Math.round(q * (count - 1)));
+    let seen = 0;
+    for (let bin = first; bin < HISTOGRAM_BINS; bin++) {
+      seen += histogram.counts[bin];
+      if (seen > rank) return binLufs(bin);
+    }
+    return binLufs(HISTOGRAM_BINS - 1);
+  };
+  return percentile(RANGE_HIGH_PERCENTILE) - percentile(RANGE_LOW_PERCENTILE);
+};
+
+/** Running meter fed with momentary (400 ms) block powers as they are polled. */
+export interface LoudnessMeterState {
+  blocks: { time: number; power: number }[]; // ms timestamps, only those inside the short-term window
+  firstBlockTime: number | null;
+  momentary: LoudnessHistogram; // Every block since the reset, for the integrated loudness
+  shortTerm: LoudnessHistogram; // Every short-term value since the reset, for the range
+  truePeak: number; // Linear
+}
+
+export const createLoudnessMeterState = (): LoudnessMeterState => ({
+  blocks: [],
+  firstBlockTime: null,
+  momentary: createHistogram(),
+  shortTerm: createHistogram(),
+  truePeak: 0,
+});
+
+export const SILENT_LOUDNESS: LoudnessReading = { momentary: SILENCE_DB, shortTerm: SILENCE_DB, integrated: SILENCE_DB, range: 0, truePeak: SILENCE_DB };
+
+/**
+ * Adds one momentary block to a live meter. Blocks arrive at the UI polling rate rather
+ * than on the spec's 100 ms hop, which the gating and percentiles tolerate; the short-term
+ * value averages the blocks spanning the last 3 s. Past blocks are kept only as 0.1 LU
+ * histograms, so each update costs the same however long the meter has run.
+ */
+export const updateLoudnessMeter = (state: LoudnessMeterState, momentaryPower: number, truePeak: number, now: number): LoudnessReading => {
+  const windowMs = (SHORT_TERM_SECONDS - MOMENTARY_SECONDS) * 1000;
+  state.firstBlockTime ??= now;
+  state.blocks.push({ time: now, power: momentaryPower });
+  state.blocks = state.blocks.filter(block => block.time >= now - windowMs);
+  addToHistogram(state.momentary, momentaryPower);
+  state.truePeak = Math.max(state.truePeak, truePeak);
+
+  const shortTerm = mean(state.blocks.map(block => block.power));
+  if (now - state.firstBlockTime >= windowMs) addToHistogram(state.shortTerm, shortTerm);
+
+  return {
+    momentary: powerToLufs(momentaryPower),
+    shortTerm: powerToLufs(shortTerm),
+    integrated: histogramIntegrated(state.momentary),
+    range: histogramRange(state.shortTerm),
+    truePeak: linearToDb(state.truePeak),
+  };
+};
@@ -0,0 +1,147 @@
+import { LyricLine } from '../types';
+
+export type LyricFormat = 'SRT' | 'LRC' | 'VTT';
+
+export interface LyricCue {
+  start: number; // Seconds
+  end: number; // Seconds
+  text: string;
+}
+
+export interface LyricTimingOptions {
+  holdSeconds: number; // Longest a line stays up before the next one starts
+  trackDuration?: number;
+}
+
+export interface LrcHeader {
+  title?: string;
+  length?: number; // Seconds
+}
+
+export const LYRIC_FILE_EXTENSIONS: Record<LyricFormat, string> = { SRT: 'srt', LRC: 'lrc', VTT: 'vtt' };
+export const LYRIC_MIME_TYPES: Record<LyricFormat, string> = { SRT: 'application/x-subrip', LRC: 'text/plain', VTT: 'text/vtt' };
+
+/** Each line ends where the next begins, or after the hold time, whichever comes first. */
+export const toLyricCues = (lyrics: LyricLine[], { holdSeconds, trackDuration }: LyricTimingOptions): LyricCue[] => {
+  const sorted = [...lyrics].sort((a, b) => a.time - b.time);
+  return sorted.map((line, i) => {
+    const next = sorted[i + 1]?.time ?? Infinity;
+    let end = Math.min(next, line.time + holdSeconds);
+    if (trackDuration !== undefined) end = Math.min(end, Math.max(line.time, trackDuration));
+    return { start: line.time, end, text: line.text };
+  });
+};
+
+const pad = (value: number, width = 2) => Math.floor(value).toString().padStart(width, '0');
+
+/** hh:mm:ss with a millisecond separator: ',' for SRT, '.' for WebVTT. */
+const formatClock = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+/** mm:ss.xx as used by LRC tags. */
+const formatLrcTime = (seconds: number) => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  return `${pad(Math.floor(totalCs / 6000))}:${pad(Math.floor((totalCs % 6000) / 100))}.${pad(totalCs % 100)}`;
+};
+
+/** mm:ss for the [length:] tag; minutes keep growing past 99 rather than being cut to two digits. */
+const formatLrcLength = (seconds: number) => {
+  const totalS = Math.max(0, Math.round(seconds));
+  return `${pad(totalS / 60)}:${pad(totalS % 60)}`;
+};
+
+export const toSrt = (cues: LyricCue[]) =>
+  cues.map((cue, i) => `${i + 1}\n${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}\n${cue.text}\n`).join('\n');
+
+export const toVtt = (cues: LyricCue[]) =>
+  `WEBVTT\n\n${cues.map(cue => `${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}\n${cue.text}\n`).join('\n')}`;
+
+/**
+ * Enhanced LRC: each line carries its start tag plus inline <mm:ss.xx> word tags at the
+ * start and end of the line, so players that support A2 extensions can show the release.
+ */
+export const toLrc = (cues: LyricCue[], header: LrcHeader = {}) => {
+  const tags = [
+    header.title ? `[ti:${header.title}]` : null,
+    header.length ? `[length:${formatLrcLength(header.length)}]` : null,
+    '[re:Virtual Sonics]',
+  ].filter(Boolean);
+  const lines = cues.map(cue => `[${formatLrcTime(cue.start)}]<${formatLrcTime(cue.start)}>${cue.text} <${formatLrcTime(cue.end)}>`);
+  return [...tags, ...lines].join('\n') + '\n';
+};
+
+export const serializeLyrics = (format: LyricFormat, cues: LyricCue[], header?: LrcHeader) =>
+  format === 'SRT' ? toSrt(cues) : format === 'VTT' ? toVtt(cues) : toLrc(cues, header);
+
+/** Parses hh:mm:ss,mmm / hh:mm:ss.mmm / mm:ss.mmm into seconds. */
+const parseClock = (value: string) => {
+  const parts = value.trim().replace(',', '.').split(':').map(parseFloat);
+  if (parts.some(isNaN)) return NaN;
+  return parts.reduce((acc, part) => acc * 60 + part, 0);
+};
+
+const parseCueBlocks = (text: string): LyricLine[] => {
+  const lines: LyricLine[] = [];
+  for (const block of text.replace(/\r/g, '').split(/\n{2,}/)) {
+    const rows = block.split('\n').filter(r => r.trim());
+    const timingIndex = rows.findIndex(r => r.includes('-->'));
+    if (timingIndex === -1) continue;
+    const start = parseClock(rows[timingIndex].split('-->')[0]);
+    const body = rows.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    if (!isNaN(start) && body) lines.push({ time: start, text: body });
+  }
+  return lines.sort((a, b) => a.time - b.time);
+};
+
+export const parseSrt = (text: string) => parseCueBlocks(text);
+
+export const parseVtt = (text: string) => parseCueBlocks(text.replace(/^\uFEFF?WEBVTT[^\n]*\n/, ''));
+
+/** mm:ss, mm:ss.xx or the mm:ss:xx variant some editors write. */
+const parseLrcTime = (tag: string) => {
+  const match = /^(\d+):(\d+)(?:[.:](\d+))?$/.exec(tag);
+  if (!match) return NaN;
+  const fraction = match[3] ? parseFloat(`0.${match[3]}`) : 0;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10) + fraction;
+};
+
+/** Reads plain and enhanced LRC. Lines with several time tags are repeated at each time; word tags are dropped. */
+export const parseLrc = (text: string): LyricLine[] => {
+  const lines: LyricLine[] = [];
+  let offset = 0;
+  for (const row of text.replace(/\r/g, '').split('\n')) {
+    const offsetTag = /^\[offset:\s*([+-]?\d+)\]/i.exec(row);
+    if (offsetTag) {
+      // Positive offsets shift lyrics earlier
+      offset = parseInt(offsetTag[1], 10) / 1000;
+      continue;
+    }
+    const times: number[] = [];
+    const rest = row.replace(/\[(\d+:\d+(?:[.:]\d+)?)\]/g, (_, t: string) => {
+      times.push(parseLrcTime(t));
+      return '';
+    });
+    const body = rest.replace(/<\d+:\d+(?:[.:]\d+)?>/g, '').replace(/\s+/g, ' ').trim();
+    for (const time of times) if (!isNaN(time) && body) lines.push({ time: Math.max(0, time - offset), text: body });
+  }
+  return lines.sort((a, b) => a.time - b.time);
+};
+
+export const detectLyricFormat = (fileName: string, text: string): LyricFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'srt') return 'SRT';
+  if (extension === 'vtt') return 'VTT';
+  if (extension === 'lrc') return 'LRC';
+  if (/^\uFEFF?WEBVTT/.test(text)) return 'VTT';
+  if (/^\[\d+:\d+/m.test(text)) return 'LRC';
+  if (/-->/.test(text)) return 'SRT';
+  return null;
+};
+
+export const parseLyrics = (format: LyricFormat, text: string) =>
+  format === 'SRT' ? parseSrt(text) : format === 'VTT' ? parseVtt(text) : parseLrc(text);
@@ -0,0 +1,30 @@
+import { Marker } from '../types';
+
+export const MARKER_COLORS = ['amber-400', 'emerald-400', 'blue-400', 'purple-400', 'red-400', 'white'];
+
+// Detected sections get a colour per section type so repeats are easy to spot
+const SECTION_COLORS: Record<string, string> = {
+  Intro: 'white',
+  Verse: 'blue-400',
+  Chorus: 'emerald-400',
+  Bridge: 'amber-400',
+  Outro: 'purple-400',
+};
+
+export const sectionColor = (label: string) => SECTION_COLORS[label.replace(/\s+\d+$/, '')] || MARKER_COLORS[0];
+
+export const nextMarkerColor = (color: string) => MARKER_COLORS[(MARKER_COLORS.indexOf(color) + 1) % MARKER_COLORS.length];
+
+export const sortMarkers = (markers: Marker[]) => [...markers].sort((a, b) => a.time - b.time);
+
+export const createMarkerId = () => `marker-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Stepping back from just past a marker skips it, so repeated presses keep moving while playing
+const BACKWARD_TOLERANCE_SECONDS = 0.5;
+
+/** The nearest marker after (direction 1) or before (direction -1) `time`. */
+export const adjacentMarker = (markers: Marker[], time: number, direction: 1 | -1): Marker | null => {
+  const sorted = sortMarkers(markers);
+  if (direction === 1) return sorted.find(m => m.time > time + 0.01) || null;
+  return [...sorted].reverse().find(m => m.time < time - BACKWARD_TOLERANCE_SECONDS) || null;
+};
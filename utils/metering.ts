@@ -0,0 +1,149 @@
+export const SILENCE_DB = -Infinity;
+export const METER_FLOOR_DB = -60;
+
+export const linearToDb = (value: number) => (value > 0 ? 20 * Math.log10(value) : SILENCE_DB);
+export const dbToLinear = (db: number) => Math.pow(10, db / 20);
+
+/** Maps a dB value onto 0..1 for meter drawing, with floorDb at the bottom and ceilDb at the top. */
+export const dbToMeterPosition = (db: number, floorDb = METER_FLOOR_DB, ceilDb = 0) =>
+  Number.isFinite(db) ? Math.max(0, Math.min(1, (db - floorDb) / (ceilDb - floorDb))) : 0;
+
+export const formatDb = (db: number) => (Number.isFinite(db) ? `${db.toFixed(1)} dB` : '-inf dB');
+
+/** Highest absolute sample value across all channels. */
+export const measurePeak = (channels: Float32Array[]) => {
+  let peak = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      const v = Math.abs(data[i]);
+      if (v > peak) peak = v;
+    }
+  }
+  return peak;
+};
+
+const TRUE_PEAK_OVERSAMPLING = 4;
+const TRUE_PEAK_TAPS = 12; // Per phase, as in ITU-R BS.1770 Annex 2
+
+// Hann-windowed sinc interpolators for the fractional positions between samples
+const TRUE_PEAK_PHASES = Array.from({ length: TRUE_PEAK_OVERSAMPLING - 1 }, (_, p) => {
+  const fraction = (p + 1) / TRUE_PEAK_OVERSAMPLING;
+  return Float32Array.from({ length: TRUE_PEAK_TAPS }, (_, k) => {
+    const t = fraction - (k - TRUE_PEAK_TAPS / 2 + 1);
+    const window = 0.5 + 0.5 * Math.cos((Math.PI * t) / (TRUE_PEAK_TAPS / 2));
+    return (Math.sin(Math.PI * t) / (Math.PI * t)) * window;
+  });
+});
+
+/**
+ * True peak (ITU-R BS.1770): the highest absolute value of the signal upsampled 4x,
+ * which catches inter-sample overs that a sample peak meter misses.
+ */
+export const measureTruePeak = (channels: Float32Array[]) => {
+  let peak = measurePeak(channels);
+  const reach = TRUE_PEAK_TAPS / 2 - 1;
+  for (const data of channels) {
+    for (let n = reach; n < data.length - TRUE_PEAK_TAPS / 2; n++) {
+      for (const taps of TRUE_PEAK_PHASES) {
+        let sum = 0;
+        for (let k = 0; k < TRUE_PEAK_TAPS; k++) sum += data[n - reach + k] * taps[k];
+        const v = Math.abs(sum);
+        if (v > peak) peak = v;
+      }
+    }
+  }
+  return peak;
+};
+
+/** Root mean square over all channels, as a linear value. */
+export const measureRms = (channels: Float32Array[]) => {
+  let sum = 0;
+  let count = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+    count += data.length;
+  }
+  return count ? Math.sqrt(sum / count) : 0;
+};
+
+/**
+ * Phase correlation of a stereo pair: +1 for mono, 0 for unrelated channels, -1 when one
+ * side is the other inverted (the mix cancels when folded to mono). 0 for silence.
+ */
+export const phaseCorrelation = (left: Float32Array, right: Float32Array) => {
+  let lr = 0, ll = 0, rr = 0;
+  const length = Math.min(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    lr += left[i] * right[i];
+    ll += left[i] * left[i];
+    rr += right[i] * right[i];
+  }
+  return ll > 0 && rr > 0 ? lr / Math.sqrt(ll * rr) : 0;
+};
+
+/**
+ * Collapses FFT magnitudes (in dB, as produced by AnalyserNode.getFloatFrequencyData)
+ * into log-spaced bands by averaging power within each band. Returns dB per band.
+ */
+export const computeBandLevels = (
+  spectrumDb: Float32Array,
+  sampleRate: number,
+  bandCount: number,
+  minHz = 32,
+  maxHz = 22000
+): number[] => {
+  const nyquist = sampleRate / 2;
+  const top = Math.min(maxHz, nyquist);
+  const hzPerBin = nyquist / spectrumDb.length;
+
+  return Array.from({ length: bandCount }, (_, band) => {
+    const lo = minHz * Math.pow(top / minHz, band / bandCount);
+    const hi = minHz * Math.pow(top / minHz, (band + 1) / bandCount);
+    const first = Math.max(0, Math.floor(lo / hzPerBin));
+    const last = Math.max(first, Math.min(spectrumDb.length - 1, Math.ceil(hi / hzPerBin) - 1));
+    let power = 0;
+    for (let bin = first; bin <= last; bin++) power += Math.pow(10, spectrumDb[bin] / 10);
+    return 10 * Math.log10(power / (last - first + 1));
+  });
+};
+
+export interface MeterReading {
+  peakDb: number;
+  rmsDb: number;
+  peakHoldDb: number;
+  clipped: boolean;
+}
+
+export interface PeakHoldState {
+  capturedDb: number; // Highest peak seen since the hold was last reset
+  heldAt: number; // ms timestamp the captured value was taken
+  clipped: boolean;
+}
+
+const PEAK_HOLD_MS = 1500;
+const PEAK_HOLD_DECAY_DB_PER_S = 20;
+const CLIP_THRESHOLD = 1.0;
+
+export const createPeakHoldState = (): PeakHoldState => ({ capturedDb: SILENCE_DB, heldAt: 0, clipped: false });
+
+/**
+ * Applies peak-hold ballistics and clip latching to a fresh peak/RMS measurement.
+ * The hold value sits for PEAK_HOLD_MS, then falls; the clip flag stays set until reset by the caller.
+ */
+export const updatePeakHold = (state: PeakHoldState, peak: number, rms: number, now: number): MeterReading => {
+  const peakDb = linearToDb(peak);
+  const sinceHeld = now - state.heldAt;
+  let holdDb = sinceHeld > PEAK_HOLD_MS
+    ? state.capturedDb - ((sinceHeld - PEAK_HOLD_MS) / 1000) * PEAK_HOLD_DECAY_DB_PER_S
+    : state.capturedDb;
+  if (holdDb < METER_FLOOR_DB) holdDb = SILENCE_DB;
+
+  if (peakDb >= holdDb) {
+    state.capturedDb = peakDb;
+    state.heldAt = now;
+    holdDb = peakDb;
+  }
+  if (peak >= CLIP_THRESHOLD) state.clipped = true;
+
+  return { peakDb, rmsDb: linearToDb(rms), peakHoldDb: holdDb, clipped: state.clipped };
+};
@@ -0,0 +1,18 @@
+import { AuxReturn, MixBus, MixerRouting } from '../types';
+import { createReturnEffect } from './insertEffects';
+
+export const DEFAULT_MASTER = { volume: 100, limiter: true, ceiling: -1, release: 100 };
+
+const createReturns = (): AuxReturn[] => [
+  { id: 'return-reverb', name: 'Reverb', volume: 80, muted: false, effect: createReturnEffect('reverb') },
+  { id: 'return-delay', name: 'Delay', volume: 80, muted: false, effect: createReturnEffect('delay') },
+];
+
+/** No buses, a shared reverb and delay return, and a limited master. */
+export const createDefaultRouting = (): MixerRouting => ({ buses: [], returns: createReturns(), master: { ...DEFAULT_MASTER } });
+
+export const createBus = (buses: MixBus[]): MixBus => {
+  let index = buses.length + 1;
+  while (buses.some(b => b.name === `Bus ${index}`)) index++;
+  return { id: `bus-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, name: `Bus ${index}`, volume: 80, pan: 0, muted: false };
+};
@@ -0,0 +1,113 @@
+/**
+ * Keys, scales and the Camelot wheel.
+ *
+ * Keys are written the way the rest of the app stores them in AudioMetadata.key:
+ * 'Cmaj' for major and 'Bm' for minor. parseKey also accepts looser spellings
+ * ('C', 'C major', 'F#min', 'Bb minor', 'ebm') and Camelot codes ('8A', '10B').
+ */
+
+export type KeyMode = 'major' | 'minor';
+
+export interface MusicalKey {
+  tonic: string; // Spelled note name, e.g. 'F#' or 'Bb'
+  mode: KeyMode;
+}
+
+export const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+const MAJOR_INTERVALS = [0, 2, 4, 5, 7, 9, 11];
+const MINOR_INTERVALS = [0, 2, 3, 5, 7, 8, 10];
+
+// Conventional tonic spelling per pitch class, chosen to keep key signatures at six accidentals or fewer
+const MAJOR_TONICS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_TONICS = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'];
+
+const mod12 = (n: number) => ((n % 12) + 12) % 12;
+
+/** Pitch class (0 = C) of a note name such as 'F#', 'Bb' or 'E##'; null if unparseable. */
+export const noteToPitchClass = (note: string): number | null => {
+  const match = /^([A-Ga-g])(#{1,2}|b{1,2}|♯|♭)?$/.exec(note.trim());
+  if (!match) return null;
+  const base = LETTER_PITCH_CLASSES[LETTERS.indexOf(match[1].toUpperCase())];
+  const accidental = match[2] || '';
+  const shift = accidental.startsWith('#') || accidental === '♯' ? Math.max(1, accidental.length)
+    : accidental.startsWith('b') || accidental === '♭' ? -Math.max(1, accidental.length)
+    : 0;
+  return mod12(base + shift);
+};
+
+export const keyPitchClass = (key: MusicalKey) => noteToPitchClass(key.tonic) ?? 0;
+
+/** Builds a key from a pitch class, spelling the tonic conventionally. */
+export const keyFromPitchClass = (pitchClass: number, mode: KeyMode): MusicalKey => ({
+  tonic: (mode === 'major' ? MAJOR_TONICS : MINOR_TONICS)[mod12(pitchClass)],
+  mode,
+});
+
+const CAMELOT_PATTERN = /^(1[0-2]|[1-9])\s*([AB])$/i;
+
+export const parseKey = (text: string): MusicalKey | null => {
+  const value = text.trim();
+
+  const camelot = CAMELOT_PATTERN.exec(value);
+  if (camelot) {
+    // 8B is C major; each step clockwise is a fifth up. 'A' is the relative minor.
+    const majorPitchClass = mod12((parseInt(camelot[1], 10) - 8) * 7);
+    return camelot[2].toUpperCase() === 'B'
+      ? keyFromPitchClass(majorPitchClass, 'major')
+      : keyFromPitchClass(majorPitchClass - 3, 'minor');
+  }
+
+  const match = /^([A-Ga-g](?:#{1,2}|b{1,2}|♯|♭)?)\s*(.*)$/.exec(value);
+  if (!match) return null;
+  const suffix = match[2].trim();
+  let mode: KeyMode;
+  if (suffix === 'M' || /^(maj(or)?|ionian)?$/i.test(suffix)) mode = 'major';
+  else if (/^(m|min(or)?|-|aeolian)$/i.test(suffix)) mode = 'minor';
+  else return null;
+
+  const letter = match[1][0].toUpperCase();
+  const accidental = match[1].slice(1).replace('♯', '#').replace('♭', 'b');
+  if (noteToPitchClass(letter + accidental) === null) return null;
+  return { tonic: letter + accidental, mode };
+};
+
+/** Formats a key in the stored style: 'Cmaj' or 'Bm'. */
+export const formatKey = (key: MusicalKey) => `${key.tonic}${key.mode === 'major' ? 'maj' : 'm'}`;
+
+/** Human-readable form, e.g. 'F# Minor'. */
+export const describeKey = (key: MusicalKey) => `${key.tonic} ${key.mode === 'major' ? 'Major' : 'Minor'}`;
+
+/** Natural major or minor scale, spelled with one note per letter from the tonic. */
+export const scaleNotes = (key: MusicalKey): string[] => {
+  const intervals = key.mode === 'major' ? MAJOR_INTERVALS : MINOR_INTERVALS;
+  const tonicLetter = LETTERS.indexOf(key.tonic[0].toUpperCase());
+  const tonicPitchClass = keyPitchClass(key);
+
+  return intervals.map((interval, degree) => {
+    const letterIndex = (tonicLetter + degree) % 7;
+    const target = mod12(tonicPitchClass + interval);
+    // Signed distance from the natural letter, in -6..5
+    const offset = mod12(target - LETTER_PITCH_CLASSES[letterIndex] + 6) - 6;
+    const accidental = offset > 0 ? '#'.repeat(offset) : 'b'.repeat(-offset);
+    return LETTERS[letterIndex] + accidental;
+  });
+};
+
+/** Relative major/minor: same key signature, tonic on the 6th (major) or 3rd (minor) degree. */
+export const relativeKey = (key: MusicalKey): MusicalKey => {
+  const notes = scaleNotes(key);
+  return key.mode === 'major' ? { tonic: notes[5], mode: 'minor' } : { tonic: notes[2], mode: 'major' };
+};
+
+/** Parallel major/minor: same tonic, other mode. */
+export const parallelKey = (key: MusicalKey): MusicalKey => ({ tonic: key.tonic, mode: key.mode === 'major' ? 'minor' : 'major' });
+
+/** Camelot wheel code, e.g. C major is '8B' and A minor is '8A'. */
+export const camelotCode = (key: MusicalKey): string => {
+  const majorPitchClass = key.mode === 'major' ? keyPitchClass(key) : mod12(keyPitchClass(key) + 3);
+  const number = mod12(majorPitchClass * 7) + 8;
+  return `${((number - 1) % 12) + 1}${key.mode === 'major' ? 'B' : 'A'}`;
+};
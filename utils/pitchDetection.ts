@@ -0,0 +1,120 @@
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_TO_SHARP: Record<string, string> = { Db: 'C#', Eb: 'D#', Gb: 'F#', Ab: 'G#', Bb: 'A#', Cb: 'B', Fb: 'E' };
+
+export interface PitchDetectorOptions {
+  minFrequency?: number;
+  maxFrequency?: number;
+  threshold?: number; // YIN absolute threshold on the normalised difference
+  noiseGateDb?: number; // Frames quieter than this (RMS, dBFS) are not analysed
+}
+
+export interface PitchDetection {
+  frequency: number | null;
+  confidence: number; // 0 to 1
+  rmsDb: number;
+  gated: boolean;
+}
+
+export interface NearestString {
+  index: number;
+  note: string;
+  cents: number;
+}
+
+/** Parses scientific pitch notation such as 'E2', 'C#3' or 'Bb1' into a MIDI note number. */
+export const noteToMidi = (note: string): number => {
+  const match = /^([A-Ga-g])([#b]?)(-?\d+)$/.exec(note.trim());
+  if (!match) throw new Error(`Invalid note name: ${note}`);
+  let name = match[1].toUpperCase() + match[2];
+  name = FLAT_TO_SHARP[name] || name;
+  const octave = parseInt(match[3], 10);
+  // Cb belongs to the octave below its written number
+  const octaveShift = match[1].toUpperCase() === 'C' && match[2] === 'b' ? -1 : 0;
+  return (octave + 1 + octaveShift) * 12 + NOTE_NAMES.indexOf(name);
+};
+
+export const midiToFrequency = (midi: number, a4 = 440) => a4 * Math.pow(2, (midi - 69) / 12);
+
+export const frequencyToMidi = (frequency: number, a4 = 440) => 69 + 12 * Math.log2(frequency / a4);
+
+export const noteToFrequency = (note: string, a4 = 440) => midiToFrequency(noteToMidi(note), a4);
+
+export const midiToNoteName = (midi: number) => {
+  const rounded = Math.round(midi);
+  return `${NOTE_NAMES[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`;
+};
+
+export const centsBetween = (frequency: number, reference: number) => 1200 * Math.log2(frequency / reference);
+
+/**
+ * YIN fundamental frequency estimator (de Cheveigné & Kawahara, 2002):
+ * cumulative-mean-normalised difference, absolute threshold, then parabolic interpolation.
+ */
+export const detectPitch = (
+  samples: Float32Array,
+  sampleRate: number,
+  { minFrequency = 40, maxFrequency = 1400, threshold = 0.15, noiseGateDb = -50 }: PitchDetectorOptions = {}
+): PitchDetection => {
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+  const rms = Math.sqrt(energy / samples.length);
+  const rmsDb = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+  if (rmsDb < noiseGateDb) return { frequency: null, confidence: 0, rmsDb, gated: true };
+
+  const minTau = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const maxTau = Math.min(Math.floor(sampleRate / minFrequency), Math.floor(samples.length / 2));
+  const window = samples.length - maxTau;
+  if (maxTau <= minTau) return { frequency: null, confidence: 0, rmsDb, gated: false };
+
+  // Cumulative mean normalised difference function
+  const cmnd = new Float32Array(maxTau + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let diff = 0;
+    for (let i = 0; i < window; i++) {
+      const d = samples[i] - samples[i + tau];
+      diff += d * d;
+    }
+    runningSum += diff;
+    cmnd[tau] = runningSum > 0 ? (diff * tau) / runningSum : 1;
+  }
+
+  // First dip below the threshold, followed down to its local minimum
+  let tauEstimate = -1;
+  for (let tau = minTau; tau <= maxTau; tau++) {
+    if (cmnd[tau] < threshold) {
+      while (tau + 1 <= maxTau && cmnd[tau + 1] < cmnd[tau]) tau++;
+      tauEstimate = tau;
+      break;
+    }
+  }
+  // No dip under the threshold: fall back to the global minimum, reported with low confidence
+  if (tauEstimate === -1) {
+    let best = minTau;
+    for (let tau = minTau + 1; tau <= maxTau; tau++) if (cmnd[tau] < cmnd[best]) best = tau;
+    tauEstimate = best;
+  }
+
+  let refinedTau = tauEstimate;
+  if (tauEstimate > minTau && tauEstimate < maxTau) {
+    const a = cmnd[tauEstimate - 1];
+    const b = cmnd[tauEstimate];
+    const c = cmnd[tauEstimate + 1];
+    const denominator = a - 2 * b + c;
+    if (denominator !== 0) refinedTau = tauEstimate + (a - c) / (2 * denominator);
+  }
+
+  const confidence = Math.max(0, Math.min(1, 1 - cmnd[tauEstimate]));
+  return { frequency: sampleRate / refinedTau, confidence, rmsDb, gated: false };
+};
+
+/** Picks the target note closest to the detected frequency (in cents) and reports the offset from it. */
+export const findNearestString = (frequency: number, notes: string[], a4 = 440): NearestString | null => {
+  let nearest: NearestString | null = null;
+  notes.forEach((note, index) => {
+    const cents = centsBetween(frequency, noteToFrequency(note, a4));
+    if (!nearest || Math.abs(cents) < Math.abs(nearest.cents)) nearest = { index, note, cents };
+  });
+  return nearest;
+};
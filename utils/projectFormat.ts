@@ -0,0 +1,247 @@
+import {
+  AudioClip, AudioMetadata, AudioSourceInfo, AudioStem, AutomationPoint, AuxReturn, ChordSegment, EffectType, EqBand, InsertEffect, LoopRegion,
+  LyricLine, Marker, MasterChannel, MixBus, MixerRouting, ReturnEffect, StemAutomation, TempoCandidate,
+} from '../types';
+import { AUTOMATION_PARAMS } from './automation';
+import { EFFECT_PARAM_SPECS, EffectParamSpec, INSERT_EFFECT_TYPES, RETURN_EFFECT_TYPES } from './insertEffects';
+import { createDefaultRouting } from './mixRouting';
+
+/**
+ * .vsonic project format
+ *
+ * A .vsonic file is a zip archive:
+ *   manifest.json        - ProjectManifest (below), always at the root
+ *   audio/source.<ext>   - the original uploaded file, byte for byte (optional)
+ *   audio/stems/<id>.wav - 32-bit float WAV for every stem that has its own audio (optional)
+ *   audio/takes/<id>.wav - 32-bit float WAV for every recorded take a clip plays from (optional)
+ *
+ * The manifest carries `format: "vsonic"` and an integer `version`. Readers migrate older
+ * versions forward with MIGRATIONS before validating, so every field added in a later
+ * version must come with a migration step that fills it in.
+ *
+ * Version history:
+ *   0 - legacy single-slot localStorage blob (`vs_project_cache`), no format marker
+ *   1 - first versioned manifest
+ *   2 - named loop regions (`regions`)
+ *   3 - timeline markers (`markers`)
+ *   4 - per-stem insert effects (`stems[].inserts`)
+ *   5 - buses, aux returns and the master strip (`routing`), stem outputs and sends (`stems[].busId`, `stems[].sends`)
+ *   6 - volume and pan automation lanes (`stems[].automation`)
+ *   7 - recorded takes as clips (`stems[].clips`); absent on stems that were never recorded into
+ */
+
+export const PROJECT_FORMAT = 'vsonic';
+export const PROJECT_FORMAT_VERSION = 7;
+export const PROJECT_FILE_EXTENSION = 'vsonic';
+export const MANIFEST_PATH = 'manifest.json';
+
+export interface ProjectSource extends AudioSourceInfo {
+  path: string; // Archive path of the original file
+  mimeType: string;
+}
+
+export interface ProjectStem extends AudioStem {
+  audioPath?: string; // Archive path of the stem's own audio, if it has any
+}
+
+/** The serialisable session: everything needed to rebuild AudioLab apart from the audio itself. */
+export interface ProjectDocument {
+  name: string;
+  source: ProjectSource | null;
+  stems: ProjectStem[];
+  soloedIds: string[];
+  metadata: AudioMetadata | null;
+  regions: LoopRegion[];
+  markers: Marker[];
+  routing: MixerRouting;
+  playbackSpeed: number; // Tempo factor, 1 = original
+  pitch: number; // Transposition in semitones
+  isolationThreshold: number;
+  isProjectGenerated: boolean;
+}
+
+export interface ProjectManifest extends ProjectDocument {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_FORMAT_VERSION;
+  savedAt: string; // ISO timestamp
+}
+
+export class ProjectFormatError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ProjectFormatError';
+  }
+}
+
+// Manifests come from untrusted archives and storage: nothing is assumed until validateManifest has checked it
+type RawRecord = Record<string, unknown>;
+type Migration = (manifest: RawRecord) => RawRecord;
+
+const isRecord = (v: unknown): v is RawRecord => !!v && typeof v === 'object' && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+const isArrayOf = <T>(v: unknown, guard: (item: unknown) => item is T): v is T[] => Array.isArray(v) && v.every(guard);
+const isOneOf = <T extends string>(v: unknown, options: readonly T[]): v is T => options.some(option => option === v);
+
+// Migrations fill in stem fields; malformed stems are left for validation to report
+const mapStems = (stems: unknown, update: (stem: RawRecord) => RawRecord) =>
+  Array.isArray(stems) ? stems.map(s => (isRecord(s) ? update(s) : s)) : stems;
+
+/** MIGRATIONS[n] upgrades a version n manifest to version n + 1. */
+const MIGRATIONS: Record<number, Migration> = {
+  0: (legacy) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    savedAt: new Date(isNumber(legacy.timestamp) ? legacy.timestamp : Date.now()).toISOString(),
+    name: (isString(legacy.songFileName) && legacy.songFileName ? legacy.songFileName : 'Untitled').replace(/\.[^/.]+$/, ''),
+    source: null, // The legacy slot never stored audio
+    stems: mapStems(legacy.stems, s => ({ ...s, pan: s.pan ?? 0 })),
+    soloedIds: legacy.soloedIds || [],
+    metadata: legacy.metadata || null,
+    playbackSpeed: legacy.playbackSpeed ?? 1,
+    pitch: legacy.pitch ?? 0,
+    isolationThreshold: legacy.isolationThreshold ?? 75,
+    isProjectGenerated: !!legacy.isProjectGenerated,
+  }),
+  1: (manifest) => ({ ...manifest, version: 2, regions: [] }),
+  2: (manifest) => ({ ...manifest, version: 3, markers: [] }),
+  3: (manifest) => ({ ...manifest, version: 4, stems: mapStems(manifest.stems, s => ({ ...s, inserts: s.inserts ?? [] })) }),
+  4: (manifest) => ({ ...manifest, version: 5, routing: createDefaultRouting() }),
+  5: (manifest) => ({ ...manifest, version: 6, stems: mapStems(manifest.stems, s => ({ ...s, automation: s.automation ?? {} })) }),
+  6: (manifest) => ({ ...manifest, version: 7 }), // Clips only exist on recorded stems, so there is nothing to fill in
+};
+
+const detectVersion = (raw: RawRecord): number => {
+  if (raw.format === PROJECT_FORMAT && isNumber(raw.version) && Number.isInteger(raw.version)) return raw.version;
+  if (Array.isArray(raw.stems) && !('format' in raw)) return 0;
+  throw new ProjectFormatError('Not a Virtual Sonics project');
+};
+
+export const migrateManifest = (raw: unknown): ProjectManifest => {
+  if (!isRecord(raw)) throw new ProjectFormatError('Not a Virtual Sonics project');
+  let manifest = raw;
+  let version = detectVersion(manifest);
+  if (version > PROJECT_FORMAT_VERSION) {
+    throw new ProjectFormatError(`Project version ${version} is newer than this app supports (${PROJECT_FORMAT_VERSION})`);
+  }
+  while (version < PROJECT_FORMAT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new ProjectFormatError(`No migration from project version ${version}`);
+    manifest = migrate(manifest);
+    version = detectVersion(manifest);
+  }
+  return validateManifest(manifest);
+};
+
+const isAutomationPoint = (p: unknown): p is AutomationPoint =>
+  isRecord(p) && isNumber(p.time) && isNumber(p.value) && (p.curve === 'linear' || p.curve === 'curved');
+const isAutomation = (a: unknown): a is StemAutomation =>
+  isRecord(a) && AUTOMATION_PARAMS.every(param => a[param] === undefined || isArrayOf(a[param], isAutomationPoint));
+const isClip = (c: unknown): c is AudioClip =>
+  isRecord(c) && isString(c.id) && isString(c.name) && isString(c.takeId) && isNumber(c.start) && isNumber(c.end) && c.end > c.start && isNumber(c.offset);
+const EQ_BAND_TYPES: EqBand['type'][] = ['lowshelf', 'peaking', 'highshelf'];
+const isEqBand = (b: unknown): b is EqBand =>
+  isRecord(b) && isOneOf(b.type, EQ_BAND_TYPES) && isNumber(b.frequency) && isNumber(b.gain) && isNumber(b.q);
+// The insert chain hands these straight to AudioParams and filters, so each one has to be there and finite
+const isEffectParams = (type: EffectType, params: unknown) => {
+  if (!isRecord(params)) return false;
+  if (type === 'eq') return isArrayOf(params.bands, isEqBand);
+  const specs: EffectParamSpec[] = EFFECT_PARAM_SPECS[type];
+  return specs.every(spec => isNumber(params[spec.key]));
+};
+const isEffectOf = (e: unknown, types: readonly EffectType[]) =>
+  isRecord(e) && isString(e.id) && isOneOf(e.type, types) && isBoolean(e.bypassed) && isEffectParams(e.type, e.params);
+const isInsertEffect = (e: unknown): e is InsertEffect => isEffectOf(e, INSERT_EFFECT_TYPES);
+const isReturnEffect = (e: unknown): e is ReturnEffect => isEffectOf(e, RETURN_EFFECT_TYPES);
+const isRegion = (r: unknown): r is LoopRegion => isRecord(r) && isString(r.id) && isString(r.name) && isNumber(r.start) && isNumber(r.end) && r.end > r.start;
+const isMarker = (m: unknown): m is Marker => isRecord(m) && isString(m.id) && isString(m.name) && isNumber(m.time) && isString(m.color);
+const isBus = (b: unknown): b is MixBus =>
+  isRecord(b) && isString(b.id) && isString(b.name) && isNumber(b.volume) && isNumber(b.pan) && isBoolean(b.muted);
+const isReturn = (r: unknown): r is AuxReturn =>
+  isRecord(r) && isString(r.id) && isString(r.name) && isNumber(r.volume) && isBoolean(r.muted) && isReturnEffect(r.effect);
+const isMaster = (m: unknown): m is MasterChannel =>
+  isRecord(m) && isNumber(m.volume) && isBoolean(m.limiter) && isNumber(m.ceiling) && isNumber(m.release);
+const isChordSegment = (c: unknown): c is ChordSegment =>
+  isRecord(c) && isNumber(c.start) && isNumber(c.end) && isString(c.symbol) && isNumber(c.confidence);
+const isTempoCandidate = (t: unknown): t is TempoCandidate => isRecord(t) && isNumber(t.bpm) && isNumber(t.score);
+const isLyricLine = (l: unknown): l is LyricLine => isRecord(l) && isNumber(l.time) && isString(l.text);
+
+/** Records everything wrong with the manifest in `issues`; one with no issues is a complete ProjectManifest. */
+const checkManifest = (manifest: unknown, issues: string[]): manifest is ProjectManifest => {
+  if (!isRecord(manifest)) {
+    issues.push('manifest must be an object');
+    return false;
+  }
+  const expect = (ok: boolean, issue: string) => { if (!ok) issues.push(issue); };
+
+  expect(manifest.format === PROJECT_FORMAT, 'format must be "vsonic"');
+  expect(manifest.version === PROJECT_FORMAT_VERSION, `version must be ${PROJECT_FORMAT_VERSION}`);
+  expect(isString(manifest.savedAt), 'savedAt must be a timestamp string');
+  expect(isString(manifest.name), 'name must be a string');
+  expect(isNumber(manifest.playbackSpeed), 'playbackSpeed must be a number');
+  expect(isNumber(manifest.pitch), 'pitch must be a number');
+  expect(isNumber(manifest.isolationThreshold), 'isolationThreshold must be a number');
+  expect(isBoolean(manifest.isProjectGenerated), 'isProjectGenerated must be a boolean');
+
+  if (manifest.source !== null) {
+    const src = manifest.source;
+    expect(isRecord(src) && isString(src.path) && isString(src.fileName) && isString(src.mimeType), 'source must have path, fileName and mimeType');
+    expect(isRecord(src) && isNumber(src.duration) && isNumber(src.sampleRate) && isNumber(src.channelCount), 'source must have duration, sampleRate and channelCount');
+  }
+
+  if (!Array.isArray(manifest.stems)) {
+    issues.push('stems must be an array');
+  } else {
+    manifest.stems.forEach((stem: unknown, i: number) => {
+      const s = isRecord(stem) ? stem : {};
+      expect(isString(s.id) && isString(s.name) && isString(s.color), `stems[${i}] needs id, name and color`);
+      expect(isNumber(s.volume) && isBoolean(s.muted), `stems[${i}] needs volume and muted`);
+      expect(s.pan === undefined || isNumber(s.pan), `stems[${i}].pan must be a number`);
+      expect(s.audioPath === undefined || isString(s.audioPath), `stems[${i}].audioPath must be a string`);
+      expect(s.inserts === undefined || isArrayOf(s.inserts, isInsertEffect), `stems[${i}].inserts must be insert effects with id, type, bypassed and numeric params`);
+      expect(s.busId === undefined || isString(s.busId), `stems[${i}].busId must be a string`);
+      expect(s.sends === undefined || (isRecord(s.sends) && Object.values(s.sends).every(isNumber)), `stems[${i}].sends must map return ids to levels`);
+      expect(s.automation === undefined || isAutomation(s.automation), `stems[${i}].automation lanes must be timed points with a curve`);
+      expect(s.clips === undefined || isArrayOf(s.clips, isClip), `stems[${i}].clips need id, name, takeId, start, end and offset`);
+    });
+  }
+  expect(isArrayOf(manifest.soloedIds, isString), 'soloedIds must be an array of ids');
+  expect(isArrayOf(manifest.regions, isRegion), 'regions must be named time ranges');
+  expect(isArrayOf(manifest.markers, isMarker), 'markers need id, name, time and color');
+
+  const routing = isRecord(manifest.routing) ? manifest.routing : {};
+  expect(isArrayOf(routing.buses, isBus), 'routing.buses need id, name, volume, pan and muted');
+  expect(isArrayOf(routing.returns, isReturn), 'routing.returns need id, name, volume, muted and a reverb or delay effect with numeric params');
+  expect(isMaster(routing.master), 'routing.master needs volume, limiter, ceiling and release');
+
+  if (manifest.metadata !== null) {
+    const m = isRecord(manifest.metadata) ? manifest.metadata : null;
+    const grid = m?.beatGrid;
+    expect(!!m && isNumber(m.bpm) && isString(m.key) && isArrayOf(m.chords, isString), 'metadata needs bpm, key and chord names');
+    expect(
+      !grid || (isRecord(grid) && isArrayOf(grid.beats, isNumber) && isArrayOf(grid.downbeats, isNumber) && isNumber(grid.beatsPerBar)),
+      'metadata.beatGrid needs beat and downbeat times and beatsPerBar'
+    );
+    expect(!m?.chordSegments || isArrayOf(m.chordSegments, isChordSegment), 'metadata.chordSegments must be timed chords');
+    expect(!m?.lyrics || isArrayOf(m.lyrics, isLyricLine), 'metadata.lyrics must be timed lines');
+    expect(m?.bpmConfidence === undefined || isNumber(m.bpmConfidence), 'metadata.bpmConfidence must be a number');
+    expect(m?.bpmAlternatives === undefined || isArrayOf(m.bpmAlternatives, isTempoCandidate), 'metadata.bpmAlternatives need bpm and score');
+    expect(m?.keyConfidence === undefined || isNumber(m.keyConfidence), 'metadata.keyConfidence must be a number');
+  }
+
+  return !issues.length;
+};
+
+export const validateManifest = (manifest: unknown): ProjectManifest => {
+  const issues: string[] = [];
+  if (!checkManifest(manifest, issues)) throw new ProjectFormatError('Invalid project manifest', issues);
+  return manifest;
+};
+
+export const createManifest = (document: ProjectDocument): ProjectManifest => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_FORMAT_VERSION,
+  savedAt: new Date().toISOString(),
+  ...document,
+});
@@ -0,0 +1,128 @@
+import { AudioClip, AudioStem } from '../types';
+
+/**
+ * Recorded takes and the clips cut from them. A take is the raw capture of one recording
+ * pass; clips place stretches of takes on a stem's timeline, later clips playing over
+ * earlier ones, and the stem's playback buffer is flattened from its clips.
+ */
+
+/** Audio a clip can play from, at its own rate. */
+export interface TakeAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+/** Input captured on the audio clock: the first frame reached the graph at `contextTime`. */
+export interface CapturedTake extends TakeAudio {
+  id: string;
+  contextTime: number;
+}
+
+/** A stretch of context time during which song time ran from songStart at normal speed. */
+export interface RecordedSegment {
+  contextStart: number;
+  contextEnd: number;
+  songStart: number;
+}
+
+export const createTakeId = () => `take-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+export const createClipId = () => `clip-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const MIN_CLIP_SECONDS = 0.05; // Shorter pieces (a punch grazed by the count-in, say) are dropped
+const CLIP_FADE_SECONDS = 0.005; // Clip edges crossfade into whatever is underneath
+
+/** Ids of the takes any clip plays from, each listed once. */
+export const referencedTakeIds = (stems: AudioStem[]) => [...new Set(stems.flatMap(stem => (stem.clips || []).map(clip => clip.takeId)))];
+
+/** Number for the next take on a stem: one past the highest "Take N" among its clips. */
+export const nextTakeNumber = (clips: AudioClip[] = []) =>
+  clips.reduce((max, clip) => Math.max(max, parseInt(clip.name.match(/^Take (\d+)/)?.[1] || '0')), 0) + 1;
+
+/**
+ * Cuts a capture into clips along the transport segments it was recorded over, so each loop
+ * pass becomes its own take. `latency` is how far the input lags the transport: a frame
+ * reaching the graph at context time t was played against the song at t - latency. With
+ * `punch`, only audio inside that song range is kept. Assumes the transport ran at rate 1.
+ */
+export const cutTakeClips = (
+  take: CapturedTake,
+  segments: RecordedSegment[],
+  latency: number,
+  duration: number,
+  punch: { start: number; end: number } | null,
+  firstNumber: number
+): AudioClip[] => {
+  const takeStart = take.contextTime - latency;
+  const takeEnd = takeStart + (take.channels[0]?.length || 0) / take.sampleRate;
+  const clips: AudioClip[] = [];
+
+  for (const segment of segments) {
+    const from = Math.max(segment.contextStart, takeStart);
+    const to = Math.min(segment.contextEnd, takeEnd);
+    if (to <= from) continue;
+    let start = segment.songStart + (from - segment.contextStart);
+    let end = start + (to - from);
+    let offset = from - takeStart;
+    const low = Math.max(0, punch?.start ?? 0);
+    const high = Math.min(duration, punch?.end ?? duration);
+    if (start < low) {
+      offset += low - start;
+      start = low;
+    }
+    end = Math.min(end, high);
+    if (end - start < MIN_CLIP_SECONDS) continue;
+    clips.push({ id: createClipId(), name: `Take ${firstNumber + clips.length}`, takeId: take.id, start, end, offset });
+  }
+  return clips;
+};
+
+/**
+ * Renders clips onto a song-aligned timeline, in order so later clips cover earlier ones.
+ * Takes are read by id and resampled linearly when their rate differs; mono takes feed
+ * every output channel. Null when nothing is placed.
+ */
+export const flattenClips = (
+  clips: AudioClip[],
+  takes: Map<string, TakeAudio>,
+  sampleRate: number,
+  channelCount = 2
+): Float32Array[] | null => {
+  const placed = clips.filter(clip => takes.has(clip.takeId));
+  if (!placed.length) return null;
+  const length = Math.ceil(placed.reduce((max, clip) => Math.max(max, clip.end), 0) * sampleRate);
+  const output = Array.from({ length: channelCount }, () => new Float32Array(length));
+  const fade = Math.max(1, Math.round(CLIP_FADE_SECONDS * sampleRate));
+
+  for (const clip of placed) {
+    const { channels: source, sampleRate: takeRate } = takes.get(clip.takeId)!;
+    const first = Math.round(clip.start * sampleRate);
+    const last = Math.min(length, Math.round(clip.end * sampleRate));
+    const ratio = takeRate / sampleRate;
+    const origin = Math.round(clip.offset * takeRate) - first * ratio; // Take frame under output frame 0
+    for (let f = Math.max(0, first); f < last; f++) {
+      const position = origin + f * ratio;
+      const n = Math.floor(position);
+      const frac = position - n;
+      const gain = Math.min(1, (f - first + 1) / fade, (last - f) / fade);
+      output.forEach((data, c) => {
+        const channel = source[c % source.length];
+        const sample = (channel[n] || 0) + ((channel[n + 1] || 0) - (channel[n] || 0)) * frac;
+        data[f] = data[f] * (1 - gain) + sample * gain;
+      });
+    }
+  }
+  return output;
+};
+
+export const moveClip = (clips: AudioClip[], id: string, start: number): AudioClip[] =>
+  clips.map(clip => {
+    if (clip.id !== id) return clip;
+    const clamped = Math.max(0, start);
+    return { ...clip, start: clamped, end: clamped + (clip.end - clip.start) };
+  });
+
+/** Moves a clip to the top of the stack, so it plays over any clip it overlaps. */
+export const raiseClip = (clips: AudioClip[], id: string): AudioClip[] => {
+  const clip = clips.find(c => c.id === id);
+  return clip ? [...clips.filter(c => c.id !== id), clip] : clips;
+};
@@ -0,0 +1,132 @@
+import { hannWindow, magnitudeSpectrum } from './fft';
+
+/**
+ * Short-time Fourier spectrogram of a mono fold-down, stored as 8-bit dB levels so a
+ * full song fits in a few megabytes, plus the colour maps and frequency scales used to
+ * paint it. Pure, so the worker computes it and the canvas paints it from the same module.
+ */
+
+export interface Spectrogram {
+  sampleRate: number;
+  fftSize: number;
+  hopSeconds: number;
+  frameCount: number;
+  binCount: number; // fftSize / 2 + 1
+  levels: Uint8Array; // frameCount * binCount, frame-major; 0 = FLOOR_DB, 255 = 0 dBFS
+}
+
+export type FrequencyScale = 'linear' | 'log';
+export type Colormap = 'magma' | 'viridis' | 'gray';
+
+export const COLORMAPS: Colormap[] = ['magma', 'viridis', 'gray'];
+export const SPECTROGRAM_FLOOR_DB = -100;
+
+const FFT_SIZE = 2048;
+const MIN_HOP = 512;
+const MAX_FRAMES = 8192; // Longer sources get a longer hop
+const LOG_MIN_HZ = 20;
+
+export const computeSpectrogram = (channels: Float32Array[], sampleRate: number): Spectrogram => {
+  const length = channels.reduce((acc, c) => Math.max(acc, c.length), 0);
+  const hop = Math.max(MIN_HOP, Math.ceil(length / MAX_FRAMES));
+  const frameCount = Math.max(1, Math.ceil(length / hop));
+  const binCount = FFT_SIZE / 2 + 1;
+  const window = hannWindow(FFT_SIZE);
+  const reference = FFT_SIZE / 4; // |X| of a full-scale sine under a Hann window
+  const levels = new Uint8Array(frameCount * binCount);
+  const frame = new Float32Array(FFT_SIZE);
+
+  for (let f = 0; f < frameCount; f++) {
+    // Frames are centred on their hop position
+    const start = f * hop - FFT_SIZE / 2;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const n = start + i;
+      let sum = 0;
+      if (n >= 0 && n < length) for (const data of channels) sum += data[n] || 0;
+      frame[i] = sum / channels.length;
+    }
+    const magnitudes = magnitudeSpectrum(frame, window);
+    for (let k = 0; k < binCount; k++) {
+      const db = 20 * Math.log10(magnitudes[k] / reference + 1e-12);
+      levels[f * binCount + k] = Math.round(Math.max(0, Math.min(1, 1 - db / SPECTROGRAM_FLOOR_DB)) * 255);
+    }
+  }
+
+  return { sampleRate, fftSize: FFT_SIZE, hopSeconds: hop / sampleRate, frameCount, binCount, levels };
+};
+
+// Anchor colours, low to high, interpolated into 256-entry tables
+const COLORMAP_ANCHORS: Record<Colormap, [number, number, number][]> = {
+  magma: [[0, 0, 4], [59, 15, 112], [140, 41, 129], [222, 73, 104], [254, 159, 109], [252, 253, 191]],
+  viridis: [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]],
+  gray: [[0, 0, 0], [255, 255, 255]],
+};
+
+const lutCache = new Map<Colormap, Uint8ClampedArray>();
+
+/** RGBA lookup table with 256 entries for a colour map. */
+export const colormapTable = (colormap: Colormap): Uint8ClampedArray => {
+  let table = lutCache.get(colormap);
+  if (table) return table;
+  const anchors = COLORMAP_ANCHORS[colormap];
+  table = new Uint8ClampedArray(256 * 4);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (anchors.length - 1);
+    const a = anchors[Math.floor(position)];
+    const b = anchors[Math.min(anchors.length - 1, Math.floor(position) + 1)];
+    const t = position - Math.floor(position);
+    for (let c = 0; c < 3; c++) table[i * 4 + c] = a[c] + (b[c] - a[c]) * t;
+    table[i * 4 + 3] = 255;
+  }
+  lutCache.set(colormap, table);
+  return table;
+};
+
+/** Frequency at a vertical position, 0 at the bottom to 1 at the top. */
+export const frequencyAtPosition = (position: number, scale: FrequencyScale, nyquist: number) =>
+  scale === 'log' ? LOG_MIN_HZ * Math.pow(nyquist / LOG_MIN_HZ, position) : position * nyquist;
+
+/**
+ * Paints the spectrogram into RGBA pixels, frame 0 at the left edge and `width` columns
+ * spanning `duration` seconds. Each pixel takes the loudest bin it covers, so narrow
+ * tones survive the log scale's compression at the top.
+ */
+export const paintSpectrogram = (
+  spectrogram: Spectrogram,
+  width: number,
+  height: number,
+  duration: number,
+  scale: FrequencyScale,
+  colormap: Colormap
+): Uint8ClampedArray => {
+  const { frameCount, binCount, levels, sampleRate, hopSeconds } = spectrogram;
+  const table = colormapTable(colormap);
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const nyquist = sampleRate / 2;
+
+  // Bin range covered by each pixel row, top row first
+  const rows = Array.from({ length: height }, (_, y) => {
+    const lo = frequencyAtPosition(1 - (y + 1) / height, scale, nyquist);
+    const hi = frequencyAtPosition(1 - y / height, scale, nyquist);
+    const first = Math.max(0, Math.min(binCount - 1, Math.round((lo / nyquist) * (binCount - 1))));
+    const last = Math.max(first, Math.min(binCount - 1, Math.round((hi / nyquist) * (binCount - 1))));
+    return [first, last];
+  });
+
+  for (let x = 0; x < width; x++) {
+    const frame = Math.min(frameCount - 1, Math.floor(((x + 0.5) / width) * (duration / hopSeconds)));
+    if (frame < 0) continue;
+    const offset = frame * binCount;
+    for (let y = 0; y < height; y++) {
+      const [first, last] = rows[y];
+      let level = 0;
+      for (let k = first; k <= last; k++) if (levels[offset + k] > level) level = levels[offset + k];
+      const p = (y * width + x) * 4;
+      pixels[p] = table[level * 4];
+      pixels[p + 1] = table[level * 4 + 1];
+      pixels[p + 2] = table[level * 4 + 2];
+      pixels[p + 3] = 255;
+    }
+  }
+  return pixels;
+};
@@ -0,0 +1,221 @@
+import { fft, hannWindow, ifft } from './fft';
+
+/**
+ * DSP baseline stem separation, streamed frame by frame through one STFT pass.
+ *
+ * Every time-frequency bin is split by soft masks that always sum to one, so the four
+ * stems add back up to the input:
+ *   - HPSS (median filtering across time vs. across frequency) divides each bin into
+ *     harmonic and percussive energy. Percussive energy goes to drums.
+ *   - Harmonic energy below the bass crossover goes to bass.
+ *   - The remaining harmonic energy goes to vocals in proportion to how centre-panned
+ *     and in-phase the bin is between left and right (mid/side centre extraction),
+ *     restricted to the vocal band. Whatever is left is "other".
+ *
+ * `strength` (0..1) hardens the masks: a higher HPSS mask exponent, and a higher
+ * centre-similarity threshold before a bin counts as vocal.
+ */
+
+export type SeparatedStem = 'vocals' | 'other' | 'drums' | 'bass';
+
+export const SEPARATED_STEMS: SeparatedStem[] = ['vocals', 'other', 'drums', 'bass'];
+
+export interface SeparationOptions {
+  strength: number; // 0..1
+  onProgress?: (fraction: number) => void;
+}
+
+export type SeparationResult = Record<SeparatedStem, [Float32Array, Float32Array]>;
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = FRAME_SIZE / 4;
+const BINS = FRAME_SIZE / 2 + 1;
+const HARMONIC_KERNEL = 17; // Frames, for the median across time
+const PERCUSSIVE_KERNEL = 17; // Bins, for the median across frequency
+const BASS_FULL_HZ = 120;
+const BASS_FADE_HZ = 250;
+const VOCAL_LOW_HZ = [100, 180];
+const VOCAL_HIGH_HZ = [7000, 10000];
+const EPSILON = 1e-12;
+
+/** Raised-cosine ramp from 0 at `from` to 1 at `to` (either direction). */
+const ramp = (x: number, from: number, to: number) => {
+  const t = Math.max(0, Math.min(1, (x - from) / (to - from)));
+  return 0.5 - 0.5 * Math.cos(Math.PI * t);
+};
+
+const median = (values: Float32Array, count: number) => {
+  // Insertion sort; the kernels are small
+  for (let i = 1; i < count; i++) {
+    const v = values[i];
+    let j = i - 1;
+    while (j >= 0 && values[j] > v) {
+      values[j + 1] = values[j];
+      j--;
+    }
+    values[j + 1] = v;
+  }
+  return count % 2 ? values[(count - 1) / 2] : (values[count / 2 - 1] + values[count / 2]) / 2;
+};
+
+interface AnalysedFrame {
+  leftRe: Float32Array;
+  leftIm: Float32Array;
+  rightRe: Float32Array;
+  rightIm: Float32Array;
+  magnitude: Float32Array; // Average of |L| and |R|, the HPSS input
+}
+
+export const separateStems = (channels: Float32Array[], sampleRate: number, { strength, onProgress }: SeparationOptions): SeparationResult => {
+  const left = channels[0];
+  const right = channels[1] || channels[0];
+  const length = left.length;
+  const s = Math.max(0, Math.min(1, strength));
+  const maskExponent = 1 + 3 * s;
+  const centreThreshold = 0.2 + 0.7 * s;
+
+  const window = hannWindow(FRAME_SIZE);
+  // Hann analysis and synthesis at 75% overlap sum to 1.5
+  const overlapGain = 1.5;
+
+  // Per-bin band weights
+  const bassWeight = new Float32Array(BINS);
+  const vocalBand = new Float32Array(BINS);
+  for (let k = 0; k < BINS; k++) {
+    const hz = (k * sampleRate) / FRAME_SIZE;
+    bassWeight[k] = 1 - ramp(hz, BASS_FULL_HZ, BASS_FADE_HZ);
+    vocalBand[k] = ramp(hz, VOCAL_LOW_HZ[0], VOCAL_LOW_HZ[1]) * (1 - ramp(hz, VOCAL_HIGH_HZ[0], VOCAL_HIGH_HZ[1]));
+  }
+
+  const output = Object.fromEntries(
+    SEPARATED_STEMS.map(stem => [stem, [new Float32Array(length), new Float32Array(length)]])
+  ) as SeparationResult;
+
+  // Frames start before zero so every sample is covered by four windows
+  const firstStart = -(FRAME_SIZE - HOP_SIZE);
+  const frameCount = Math.ceil((length - firstStart) / HOP_SIZE);
+  const lookahead = (HARMONIC_KERNEL - 1) / 2;
+  const ring: AnalysedFrame[] = [];
+
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  const timeScratch = new Float32Array(HARMONIC_KERNEL);
+  const freqScratch = new Float32Array(PERCUSSIVE_KERNEL);
+  const masks = SEPARATED_STEMS.map(() => new Float32Array(BINS));
+
+  const analyse = (frameIndex: number): AnalysedFrame => {
+    const start = firstStart + frameIndex * HOP_SIZE;
+    // Both real channels in one complex FFT: z = l + i*r
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const n = start + i;
+      const inRange = n >= 0 && n < length;
+      re[i] = inRange ? left[n] * window[i] : 0;
+      im[i] = inRange ? right[n] * window[i] : 0;
+    }
+    fft(re, im);
+
+    const frame: AnalysedFrame = {
+      leftRe: new Float32Array(BINS),
+      leftIm: new Float32Array(BINS),
+      rightRe: new Float32Array(BINS),
+      rightIm: new Float32Array(BINS),
+      magnitude: new Float32Array(BINS),
+    };
+    for (let k = 0; k < BINS; k++) {
+      const mirror = (FRAME_SIZE - k) % FRAME_SIZE;
+      // L = (Z[k] + conj(Z[N-k])) / 2, R = (Z[k] - conj(Z[N-k])) / 2i
+      const lr = (re[k] + re[mirror]) / 2;
+      const li = (im[k] - im[mirror]) / 2;
+      const rr = (im[k] + im[mirror]) / 2;
+      const ri = (re[mirror] - re[k]) / 2;
+      frame.leftRe[k] = lr;
+      frame.leftIm[k] = li;
+      frame.rightRe[k] = rr;
+      frame.rightIm[k] = ri;
+      frame.magnitude[k] = (Math.hypot(lr, li) + Math.hypot(rr, ri)) / 2;
+    }
+    return frame;
+  };
+
+  const synthesise = (frameIndex: number, frame: AnalysedFrame, neighbours: AnalysedFrame[]) => {
+    const [vocalMask, otherMask, drumMask, bassMask] = masks;
+
+    for (let k = 0; k < BINS; k++) {
+      // Harmonic: median across neighbouring frames. Percussive: median across neighbouring bins.
+      for (let i = 0; i < neighbours.length; i++) timeScratch[i] = neighbours[i].magnitude[k];
+      const harmonic = median(timeScratch, neighbours.length);
+
+      const lo = Math.max(0, k - (PERCUSSIVE_KERNEL - 1) / 2);
+      const hi = Math.min(BINS - 1, k + (PERCUSSIVE_KERNEL - 1) / 2);
+      for (let b = lo; b <= hi; b++) freqScratch[b - lo] = frame.magnitude[b];
+      const percussive = median(freqScratch, hi - lo + 1);
+
+      const hp = Math.pow(harmonic, maskExponent);
+      const pp = Math.pow(percussive, maskExponent);
+      const harmonicShare = hp + pp > EPSILON ? hp / (hp + pp) : 0.5;
+
+      // Normalised cross-spectrum: 1 for identical, in-phase L/R; <= 0 for wide or out-of-phase bins
+      const lr = frame.leftRe[k], li = frame.leftIm[k], rr = frame.rightRe[k], ri = frame.rightIm[k];
+      const power = lr * lr + li * li + rr * rr + ri * ri;
+      const similarity = power > EPSILON ? (2 * (lr * rr + li * ri)) / power : 0;
+      const centre = Math.max(0, Math.min(1, (similarity - centreThreshold) / (1 - centreThreshold))) * vocalBand[k];
+
+      const tonalAboveBass = harmonicShare * (1 - bassWeight[k]);
+      drumMask[k] = 1 - harmonicShare;
+      bassMask[k] = harmonicShare * bassWeight[k];
+      vocalMask[k] = tonalAboveBass * centre;
+      otherMask[k] = tonalAboveBass * (1 - centre);
+    }
+
+    const start = firstStart + frameIndex * HOP_SIZE;
+    SEPARATED_STEMS.forEach((stem, stemIdx) => {
+      const mask = masks[stemIdx];
+      // Masked spectra stay Hermitian, so both channels come back from one inverse FFT: z = l + i*r
+      for (let k = 0; k < BINS; k++) {
+        const m = mask[k];
+        const zr = (frame.leftRe[k] - frame.rightIm[k]) * m;
+        const zi = (frame.leftIm[k] + frame.rightRe[k]) * m;
+        re[k] = zr;
+        im[k] = zi;
+        if (k > 0 && k < FRAME_SIZE / 2) {
+          // Z[N-k] = conj(L[k]) + i*conj(R[k])
+          re[FRAME_SIZE - k] = (frame.leftRe[k] + frame.rightIm[k]) * m;
+          im[FRAME_SIZE - k] = (frame.rightRe[k] - frame.leftIm[k]) * m;
+        }
+      }
+      ifft(re, im);
+
+      const [outLeft, outRight] = output[stem];
+      for (let i = 0; i < FRAME_SIZE; i++) {
+        const n = start + i;
+        if (n < 0 || n >= length) continue;
+        const w = window[i] / overlapGain;
+        outLeft[n] += re[i] * w;
+        outRight[n] += im[i] * w;
+      }
+    });
+  };
+
+  let lastReported = -1;
+  for (let f = 0; f < frameCount + lookahead; f++) {
+    if (f < frameCount) {
+      ring.push(analyse(f));
+      if (ring.length > HARMONIC_KERNEL) ring.shift();
+    }
+
+    const target = f - lookahead;
+    if (target < 0) continue;
+    // The ring holds frames (f - HARMONIC_KERNEL + 1)..f, clipped to the valid range
+    const ringStart = Math.max(0, Math.min(f, frameCount - 1) - ring.length + 1);
+    const neighbours = ring.filter((_, i) => Math.abs(ringStart + i - target) <= lookahead);
+    synthesise(target, ring[target - ringStart], neighbours);
+
+    const percent = Math.floor(((target + 1) / frameCount) * 100);
+    if (percent !== lastReported) {
+      lastReported = percent;
+      onProgress?.((target + 1) / frameCount);
+    }
+  }
+
+  return output;
+};
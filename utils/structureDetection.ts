@@ -0,0 +1,194 @@
+import { computeChromagram } from './chroma';
+
+/**
+ * Song structure from self-similarity (Foote 2000):
+ *   1. Chroma and loudness are averaged into one-second blocks, centred on the song's
+ *      mean so that cosine similarity reflects how sections differ from each other.
+ *   2. A checkerboard kernel slid along the diagonal of the self-similarity matrix gives a
+ *      novelty curve; its peaks are section boundaries, snapped to the nearest downbeat.
+ *   3. Sections are grouped by their mean feature, and groups are named by position,
+ *      repetition and loudness: the loudest repeated group is the chorus, the next most
+ *      frequent repeated group the verse, a distinct opening/closing section the intro/outro.
+ */
+
+export interface StructureSection {
+  start: number; // Seconds
+  end: number;
+  label: string; // 'Intro', 'Verse 1', 'Chorus 2', ...
+}
+
+export interface StructureOptions {
+  downbeats?: number[]; // Boundaries snap to these when close enough
+  onProgress?: (fraction: number) => void;
+}
+
+const BLOCK_SECONDS = 1;
+const KERNEL_HALF_BLOCKS = 8;
+const MIN_SECTION_BLOCKS = 8;
+const PEAK_THRESHOLD_STDS = 0.5; // Novelty peaks must clear mean + this many standard deviations
+const ENERGY_WEIGHT = 0.5;
+const SAME_GROUP_SIMILARITY = 0.85;
+const DOWNBEAT_SNAP_SECONDS = 2;
+const EDGE_SECTION_SECONDS = 25; // Longest intro/outro
+
+const cosine = (a: Float32Array, b: Float32Array) => {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+};
+
+const meanVector = (vectors: Float32Array[]) => {
+  const mean = new Float32Array(vectors[0]?.length || 0);
+  for (const v of vectors) for (let i = 0; i < mean.length; i++) mean[i] += v[i] / vectors.length;
+  return mean;
+};
+
+/** One feature vector per block: L2-normalised chroma plus z-scored log energy, mean-centred over the song. */
+const blockFeatures = (samples: Float32Array, sampleRate: number, onProgress?: (fraction: number) => void) => {
+  const chromagram = computeChromagram(samples, sampleRate, f => onProgress?.(f * 0.7));
+  const framesPerBlock = Math.max(1, Math.round(BLOCK_SECONDS / chromagram.hopSeconds));
+  const blockCount = Math.ceil(chromagram.frames.length / framesPerBlock);
+  const blockSamples = Math.round(BLOCK_SECONDS * sampleRate);
+
+  const chroma: Float32Array[] = [];
+  const loudness: number[] = [];
+  for (let b = 0; b < blockCount; b++) {
+    const frames = chromagram.frames.slice(b * framesPerBlock, (b + 1) * framesPerBlock);
+    const sum = meanVector(frames);
+    const norm = Math.hypot(...sum) || 1;
+    chroma.push(sum.map(v => v / norm));
+
+    let power = 0;
+    const start = b * blockSamples;
+    const end = Math.min(samples.length, start + blockSamples);
+    for (let i = start; i < end; i++) power += samples[i] * samples[i];
+    loudness.push(10 * Math.log10(power / Math.max(1, end - start) + 1e-10));
+  }
+
+  const meanLoudness = loudness.reduce((a, b) => a + b, 0) / (loudness.length || 1);
+  const stdLoudness = Math.sqrt(loudness.reduce((a, b) => a + (b - meanLoudness) ** 2, 0) / (loudness.length || 1)) || 1;
+  const meanChroma = meanVector(chroma);
+
+  const features = chroma.map((c, b) => {
+    const v = new Float32Array(13);
+    for (let i = 0; i < 12; i++) v[i] = c[i] - meanChroma[i];
+    v[12] = (ENERGY_WEIGHT * (loudness[b] - meanLoudness)) / stdLoudness;
+    return v;
+  });
+  return { features, loudness };
+};
+
+/** Novelty per block from a Gaussian-tapered checkerboard kernel along the self-similarity diagonal. */
+const computeNovelty = (features: Float32Array[]) => {
+  const n = features.length;
+  const similarity = features.map(a => Float32Array.from(features, b => cosine(a, b)));
+  const L = KERNEL_HALF_BLOCKS;
+  const novelty = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let a = -L; a < L; a++) {
+      for (let b = -L; b < L; b++) {
+        const x = i + a, y = i + b;
+        if (x < 0 || y < 0 || x >= n || y >= n) continue;
+        const sign = (a < 0) === (b < 0) ? 1 : -1;
+        const taper = Math.exp(-((a + 0.5) ** 2 + (b + 0.5) ** 2) / (2 * (L / 2) ** 2));
+        sum += sign * taper * similarity[x][y];
+      }
+    }
+    novelty[i] = Math.max(0, sum);
+  }
+  return novelty;
+};
+
+const pickBoundaries = (novelty: Float32Array): number[] => {
+  const n = novelty.length;
+  const mean = novelty.reduce((a, b) => a + b, 0) / (n || 1);
+  const std = Math.sqrt(novelty.reduce((a, b) => a + (b - mean) ** 2, 0) / (n || 1));
+  const threshold = mean + PEAK_THRESHOLD_STDS * std;
+
+  // Strongest peaks first, each suppressing its neighbourhood
+  const candidates = Array.from(novelty.keys())
+    .filter(i => i >= MIN_SECTION_BLOCKS / 2 && i <= n - MIN_SECTION_BLOCKS / 2 && novelty[i] > threshold)
+    .sort((a, b) => novelty[b] - novelty[a]);
+  const chosen: number[] = [];
+  for (const i of candidates) {
+    if (chosen.every(j => Math.abs(i - j) >= MIN_SECTION_BLOCKS)) chosen.push(i);
+  }
+  return chosen.sort((a, b) => a - b);
+};
+
+const snapToDownbeat = (time: number, downbeats: number[]) => {
+  let best = time;
+  let bestDistance = DOWNBEAT_SNAP_SECONDS;
+  for (const d of downbeats) {
+    const distance = Math.abs(d - time);
+    if (distance <= bestDistance) {
+      best = d;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+export const detectStructure = (samples: Float32Array, sampleRate: number, options: StructureOptions = {}): StructureSection[] => {
+  const duration = samples.length / sampleRate;
+  const { features, loudness } = blockFeatures(samples, sampleRate, options.onProgress);
+  if (features.length < MIN_SECTION_BLOCKS * 2) return [{ start: 0, end: duration, label: 'Song' }];
+
+  const novelty = computeNovelty(features);
+  options.onProgress?.(0.9);
+
+  const boundaries = [0, ...pickBoundaries(novelty).map(b => snapToDownbeat(b * BLOCK_SECONDS, options.downbeats || [])), duration];
+  const spans = boundaries.slice(1).map((end, i) => ({ start: boundaries[i], end })).filter(s => s.end - s.start > 0);
+
+  // Group sections by mean feature
+  const blockRange = (s: { start: number; end: number }) => {
+    const from = Math.floor(s.start / BLOCK_SECONDS);
+    const to = Math.max(from + 1, Math.min(features.length, Math.ceil(s.end / BLOCK_SECONDS)));
+    return [from, to];
+  };
+  const sectionFeatures = spans.map(s => meanVector(features.slice(...blockRange(s))));
+  const sectionLoudness = spans.map(s => {
+    const [from, to] = blockRange(s);
+    const values = loudness.slice(from, to);
+    return values.reduce((a, b) => a + b, 0) / (values.length || 1);
+  });
+
+  const groups: number[] = [];
+  const representatives: Float32Array[] = [];
+  sectionFeatures.forEach((feature, i) => {
+    let group = representatives.findIndex(rep => cosine(rep, feature) >= SAME_GROUP_SIMILARITY);
+    if (group < 0) {
+      group = representatives.length;
+      representatives.push(feature);
+    }
+    groups[i] = group;
+  });
+
+  const count = (group: number) => groups.filter(g => g === group).length;
+  const names: string[] = spans.map(() => '');
+  const last = spans.length - 1;
+  if (spans.length >= 3 && count(groups[0]) === 1 && spans[0].end - spans[0].start <= EDGE_SECTION_SECONDS) names[0] = 'Intro';
+  if (spans.length >= 3 && count(groups[last]) === 1 && spans[last].end - spans[last].start <= EDGE_SECTION_SECONDS) names[last] = 'Outro';
+
+  const groupLoudness = (group: number) => {
+    const members = groups.map((g, i) => (g === group ? sectionLoudness[i] : null)).filter((v): v is number => v !== null);
+    return members.reduce((a, b) => a + b, 0) / members.length;
+  };
+  const repeated = [...new Set(groups)].filter(g => count(g) > 1);
+  const chorus = repeated.sort((a, b) => groupLoudness(b) - groupLoudness(a))[0];
+  const verse = repeated.filter(g => g !== chorus).sort((a, b) => count(b) - count(a))[0];
+
+  const baseNames = spans.map((_, i) => names[i] || (groups[i] === chorus ? 'Chorus' : groups[i] === verse ? 'Verse' : 'Bridge'));
+  const seen = new Map<string, number>();
+  return spans.map((span, i) => {
+    const base = baseNames[i];
+    const index = (seen.get(base) || 0) + 1;
+    seen.set(base, index);
+    return { ...span, label: baseNames.filter(b => b === base).length > 1 ? `${base} ${index}` : base };
+  });
+};
@@ -0,0 +1,259 @@
+import { BeatGrid, TempoCandidate } from '../types';
+import { hannWindow, magnitudeSpectrum } from './fft';
+
+/**
+ * Tempo and beat grid estimation from an onset-strength envelope:
+ *   1. Log-magnitude spectral flux (half-wave rectified) gives the onset envelope,
+ *      with a separate low-band envelope (kick drum range) for downbeat placement.
+ *   2. Autocorrelation of the envelope, weighted by a log-normal tempo prior centred
+ *      on 120 BPM, picks the beat period. Half and double time are reported as alternatives.
+ *   3. Dynamic-programming beat tracking (Ellis 2007) places beats that follow both the
+ *      onsets and the chosen period; a least-squares fit over the beats refines the BPM.
+ *   4. The bar phase with the strongest low-band onsets marks the downbeats.
+ */
+
+export interface TempoOptions {
+  minBpm?: number;
+  maxBpm?: number;
+  beatsPerBar?: number;
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number; // 0..1, normalised autocorrelation at the chosen period
+  alternatives: TempoCandidate[];
+  beatGrid: BeatGrid;
+}
+
+export interface OnsetEnvelope {
+  envelope: Float32Array; // Full-band onset strength per frame
+  lowEnvelope: Float32Array; // Onset strength below LOW_BAND_HZ
+  frameRate: number; // Frames per second
+  frameOffset: number; // Seconds from a frame's start to its onset time (half a window plus the flux hop)
+}
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+const LOW_BAND_HZ = 150;
+const PRIOR_CENTRE_BPM = 120;
+const PRIOR_OCTAVE_WIDTH = 1;
+const BEAT_TIGHTNESS = 100;
+const MEAN_WINDOW_SECONDS = 0.5;
+
+/** Averages all channels into one. */
+export const mixToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+};
+
+export const computeOnsetEnvelope = (samples: Float32Array, sampleRate: number): OnsetEnvelope => {
+  const window = hannWindow(FRAME_SIZE);
+  const frameCount = Math.max(1, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const lowBins = Math.max(2, Math.round((LOW_BAND_HZ * FRAME_SIZE) / sampleRate));
+  const envelope = new Float32Array(frameCount);
+  const lowEnvelope = new Float32Array(frameCount);
+
+  let previous: Float32Array | null = null;
+  for (let f = 0; f < frameCount; f++) {
+    const spectrum = magnitudeSpectrum(samples.subarray(f * HOP_SIZE, f * HOP_SIZE + FRAME_SIZE), window);
+    for (let k = 0; k < spectrum.length; k++) spectrum[k] = Math.log1p(1000 * spectrum[k]);
+    if (previous) {
+      let flux = 0;
+      let lowFlux = 0;
+      for (let k = 1; k < spectrum.length; k++) {
+        const rise = spectrum[k] - previous[k];
+        if (rise > 0) {
+          flux += rise;
+          if (k < lowBins) lowFlux += rise;
+        }
+      }
+      envelope[f] = flux;
+      lowEnvelope[f] = lowFlux;
+    }
+    previous = spectrum;
+  }
+
+  return { envelope, lowEnvelope, frameRate: sampleRate / HOP_SIZE, frameOffset: (FRAME_SIZE / 2 + HOP_SIZE) / sampleRate };
+};
+
+/** Removes the local mean, half-wave rectifies and scales to unit standard deviation. */
+const normaliseEnvelope = (envelope: Float32Array, frameRate: number): Float32Array => {
+  const radius = Math.max(1, Math.round((MEAN_WINDOW_SECONDS * frameRate) / 2));
+  const out = new Float32Array(envelope.length);
+  let sum = 0;
+  let lo = 0;
+  let hi = -1;
+  for (let i = 0; i < envelope.length; i++) {
+    while (hi < Math.min(envelope.length - 1, i + radius)) sum += envelope[++hi];
+    while (lo < i - radius) sum -= envelope[lo++];
+    out[i] = Math.max(0, envelope[i] - sum / (hi - lo + 1));
+  }
+
+  let power = 0;
+  for (let i = 0; i < out.length; i++) power += out[i] * out[i];
+  const std = Math.sqrt(power / out.length) || 1;
+  for (let i = 0; i < out.length; i++) out[i] /= std;
+  return out;
+};
+
+const autocorrelate = (envelope: Float32Array, maxLag: number): Float32Array => {
+  const acf = new Float32Array(maxLag + 1);
+  for (let lag = 0; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    acf[lag] = sum / (envelope.length - lag);
+  }
+  return acf;
+};
+
+/** Normalised autocorrelation at a fractional lag, by linear interpolation. */
+const acfAt = (acf: Float32Array, lag: number) => {
+  if (lag < 1 || lag >= acf.length - 1) return 0;
+  const i = Math.floor(lag);
+  const t = lag - i;
+  return Math.max(0, (acf[i] * (1 - t) + acf[i + 1] * t) / (acf[0] || 1));
+};
+
+/** Dynamic-programming beat tracker; returns beat positions in frames. */
+const trackBeats = (envelope: Float32Array, period: number): number[] => {
+  const n = envelope.length;
+  const score = new Float32Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+  const minGap = Math.max(1, Math.round(period / 2));
+  const maxGap = Math.round(period * 2);
+
+  for (let t = 0; t < n; t++) {
+    let best = 0;
+    let bestFrom = -1;
+    for (let from = Math.max(0, t - maxGap); from <= t - minGap; from++) {
+      const deviation = Math.log((t - from) / period);
+      const candidate = score[from] - BEAT_TIGHTNESS * deviation * deviation;
+      if (bestFrom < 0 || candidate > best) {
+        best = candidate;
+        bestFrom = from;
+      }
+    }
+    score[t] = envelope[t] + (bestFrom >= 0 ? Math.max(0, best) : 0);
+    backlink[t] = bestFrom >= 0 && best > 0 ? bestFrom : -1;
+  }
+
+  // Start the backtrace from the best-scoring frame within the last period
+  let end = Math.max(0, n - Math.ceil(period));
+  for (let t = end; t < n; t++) if (score[t] > score[end]) end = t;
+
+  const beats: number[] = [];
+  for (let t = end; t >= 0; t = backlink[t]) beats.push(t);
+  return beats.reverse();
+};
+
+/** Least-squares slope of beat time against beat index, in seconds per beat. */
+const fitBeatPeriod = (times: number[]): number | null => {
+  const n = times.length;
+  if (n < 4) return null;
+  const meanIndex = (n - 1) / 2;
+  const meanTime = times.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  times.forEach((t, i) => {
+    num += (i - meanIndex) * (t - meanTime);
+    den += (i - meanIndex) * (i - meanIndex);
+  });
+  return den > 0 ? num / den : null;
+};
+
+export const detectTempo = (samples: Float32Array, sampleRate: number, options: TempoOptions = {}): TempoEstimate => {
+  const { minBpm = 60, maxBpm = 200, beatsPerBar = 4 } = options;
+  const onsets = computeOnsetEnvelope(samples, sampleRate);
+  const { frameRate, frameOffset } = onsets;
+  const envelope = normaliseEnvelope(onsets.envelope, frameRate);
+  const lowEnvelope = normaliseEnvelope(onsets.lowEnvelope, frameRate);
+
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / maxBpm));
+  const maxLag = Math.ceil((60 * frameRate) / minBpm);
+  // Room for the half-time alternative at twice the longest lag
+  const acf = autocorrelate(envelope, Math.min(envelope.length - 1, maxLag * 2 + 1));
+
+  const priorCentreLag = (60 * frameRate) / PRIOR_CENTRE_BPM;
+  let bestLag = 0;
+  let bestWeighted = -Infinity;
+  for (let lag = minLag; lag <= Math.min(maxLag, acf.length - 2); lag++) {
+    const octaves = Math.log2(lag / priorCentreLag) / PRIOR_OCTAVE_WIDTH;
+    const weighted = acf[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (weighted > bestWeighted) {
+      bestWeighted = weighted;
+      bestLag = lag;
+    }
+  }
+
+  if (!bestLag || acf[0] <= 0) {
+    return { bpm: 0, confidence: 0, alternatives: [], beatGrid: { beats: [], downbeats: [], beatsPerBar } };
+  }
+
+  // Parabolic interpolation around the peak
+  const [a, b, c] = [acf[bestLag - 1], acf[bestLag], acf[bestLag + 1]];
+  const denom = a - 2 * b + c;
+  const period = bestLag + (denom !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom)) : 0);
+
+  const beatFrames = trackBeats(envelope, period);
+  const beats = beatFrames.map(f => f / frameRate + frameOffset);
+  const fittedPeriod = fitBeatPeriod(beats);
+  const bpm = fittedPeriod ? 60 / fittedPeriod : (60 * frameRate) / period;
+
+  // Downbeats: the bar phase whose beats carry the most low-band onset energy
+  let bestPhase = 0;
+  let bestPhaseScore = -Infinity;
+  for (let phase = 0; phase < Math.min(beatsPerBar, beatFrames.length); phase++) {
+    let total = 0;
+    let count = 0;
+    for (let i = phase; i < beatFrames.length; i += beatsPerBar) {
+      total += lowEnvelope[beatFrames[i]] + 0.5 * envelope[beatFrames[i]];
+      count++;
+    }
+    const phaseScore = count ? total / count : 0;
+    if (phaseScore > bestPhaseScore) {
+      bestPhaseScore = phaseScore;
+      bestPhase = phase;
+    }
+  }
+
+  const alternatives: TempoCandidate[] = [
+    { bpm: bpm / 2, score: acfAt(acf, period * 2) },
+    { bpm: bpm * 2, score: acfAt(acf, period / 2) },
+  ].filter(alt => alt.bpm >= 30 && alt.bpm <= 300);
+
+  return {
+    bpm: Math.round(bpm * 10) / 10,
+    confidence: Math.min(1, acfAt(acf, period)),
+    alternatives: alternatives.map(alt => ({ ...alt, bpm: Math.round(alt.bpm * 10) / 10 })),
+    beatGrid: {
+      beats,
+      downbeats: beats.filter((_, i) => i >= bestPhase && (i - bestPhase) % beatsPerBar === 0),
+      beatsPerBar,
+    },
+  };
+};
+
+/**
+ * Re-derives a beat grid for half (factor 0.5) or double (factor 2) time. Bars keep
+ * `beatsPerBar` beats of the new tempo, counted from the first existing downbeat.
+ */
+export const rescaleBeatGrid = (grid: BeatGrid, factor: number): BeatGrid => {
+  const anchor = grid.downbeats.length ? grid.downbeats[0] : grid.beats[0];
+  let beats = grid.beats;
+  if (factor === 2) {
+    beats = grid.beats.flatMap((t, i) => (i < grid.beats.length - 1 ? [t, (t + grid.beats[i + 1]) / 2] : [t]));
+  } else if (factor === 0.5) {
+    const phase = Math.max(0, grid.beats.indexOf(anchor)) % 2;
+    beats = grid.beats.filter((_, i) => i % 2 === phase);
+  } else {
+    return grid;
+  }
+
+  const anchorIndex = Math.max(0, beats.indexOf(anchor));
+  const phase = anchorIndex % grid.beatsPerBar;
+  return { ...grid, beats, downbeats: beats.filter((_, i) => i >= phase && (i - phase) % grid.beatsPerBar === 0) };
+};
@@ -0,0 +1,169 @@
+import { hannWindow } from './fft';
+
+/**
+ * Independent tempo and pitch change for decoded audio:
+ *   1. WSOLA (waveform-similarity overlap-add) stretches the signal by pitchRatio / tempo
+ *      without changing pitch. Each Hann-windowed output frame is taken from near its
+ *      nominal input position, shifted by up to a quarter frame to best match the
+ *      natural continuation of the previous frame, so waveforms line up across the overlap.
+ *      The search runs on the channel average and the same offsets apply to every channel,
+ *      which keeps the stereo image intact.
+ *   2. A windowed-sinc resampler reads the stretched signal pitchRatio times faster,
+ *      restoring the target length and moving the pitch by `semitones`.
+ */
+
+export interface TimeStretchOptions {
+  tempo: number; // Playback speed, 1 = original
+  semitones: number; // Transposition, 0 = original
+  onProgress?: (fraction: number) => void;
+}
+
+const SEARCH_TOLERANCE_FRACTION = 0.25; // Of the frame size
+const COARSE_STEP = 8; // Offset and sample stride of the first search pass
+const FINE_STEP = 2; // Sample stride of the refinement pass
+const SINC_ZERO_CROSSINGS = 8;
+const KERNEL_TABLE_RESOLUTION = 256; // Kernel table entries per input sample
+
+export const semitonesToRatio = (semitones: number) => Math.pow(2, semitones / 12);
+
+/** True when the settings leave audio untouched. */
+export const isIdentityStretch = (tempo: number, semitones: number) => tempo === 1 && semitones === 0;
+
+/** Frame size of roughly 45ms, as a power of two. */
+const frameSizeFor = (sampleRate: number) => Math.pow(2, Math.round(Math.log2(sampleRate * 0.045)));
+
+const correlate = (signal: Float32Array, a: number, b: number, length: number, stride: number) => {
+  let sum = 0;
+  for (let i = 0; i < length; i += stride) {
+    const x = a + i;
+    const y = b + i;
+    if (x < 0 || y < 0 || x >= signal.length || y >= signal.length) continue;
+    sum += signal[x] * signal[y];
+  }
+  return sum;
+};
+
+/** WSOLA time stretch: output is `factor` times as long as the input, at the same pitch. */
+export const wsolaStretch = (
+  channels: Float32Array[],
+  sampleRate: number,
+  factor: number,
+  onProgress?: (fraction: number) => void
+): Float32Array[] => {
+  const length = channels[0].length;
+  const outLength = Math.max(1, Math.round(length * factor));
+  if (factor === 1) return channels.map(c => c.slice());
+
+  const frameSize = frameSizeFor(sampleRate);
+  const synthesisHop = frameSize / 2; // Periodic Hann at 50% overlap sums to exactly 1
+  const analysisHop = synthesisHop / factor;
+  const tolerance = Math.round(frameSize * SEARCH_TOLERANCE_FRACTION);
+  const window = hannWindow(frameSize);
+
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length;
+  }
+
+  const output = channels.map(() => new Float32Array(outLength));
+  // Frames start one hop before zero so the first samples get full overlap
+  const frameCount = Math.ceil(outLength / synthesisHop) + 1;
+  let previousStart = -synthesisHop;
+  let lastReported = -1;
+
+  for (let k = 0; k < frameCount; k++) {
+    const outStart = (k - 1) * synthesisHop;
+    const nominal = Math.round((k - 1) * analysisHop);
+    let start = nominal;
+
+    if (k > 0) {
+      // Best match to what would have followed the previous frame
+      const target = previousStart + synthesisHop;
+      let best = -Infinity;
+      for (let delta = -tolerance; delta <= tolerance; delta += COARSE_STEP) {
+        const score = correlate(mono, nominal + delta, target, frameSize, COARSE_STEP);
+        if (score > best) {
+          best = score;
+          start = nominal + delta;
+        }
+      }
+      const coarse = start;
+      best = -Infinity;
+      for (let delta = -COARSE_STEP + 1; delta < COARSE_STEP; delta++) {
+        const score = correlate(mono, coarse + delta, target, frameSize, FINE_STEP);
+        if (score > best) {
+          best = score;
+          start = coarse + delta;
+        }
+      }
+    }
+
+    channels.forEach((channel, c) => {
+      const out = output[c];
+      for (let i = 0; i < frameSize; i++) {
+        const n = outStart + i;
+        const src = start + i;
+        if (n < 0 || n >= outLength || src < 0 || src >= length) continue;
+        out[n] += channel[src] * window[i];
+      }
+    });
+    previousStart = start;
+
+    const percent = Math.floor(((k + 1) / frameCount) * 100);
+    if (percent !== lastReported) {
+      lastReported = percent;
+      onProgress?.((k + 1) / frameCount);
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Band-limited resampling: output sample n reads input position n * ratio through a
+ * Hann-windowed sinc, with the cutoff lowered when reading faster to avoid aliasing.
+ */
+export const resample = (samples: Float32Array, ratio: number, outLength: number): Float32Array => {
+  const out = new Float32Array(outLength);
+  const cutoff = Math.min(1, 1 / ratio);
+  const radius = Math.ceil(SINC_ZERO_CROSSINGS / cutoff);
+
+  // Kernel sampled over |x| in [0, radius], linearly interpolated between entries
+  const table = new Float32Array(radius * KERNEL_TABLE_RESOLUTION + 2);
+  for (let j = 0; j < table.length; j++) {
+    const x = j / KERNEL_TABLE_RESOLUTION;
+    const arg = Math.PI * x * cutoff;
+    const sinc = arg === 0 ? 1 : Math.sin(arg) / arg;
+    table[j] = x >= radius ? 0 : sinc * (0.5 + 0.5 * Math.cos((Math.PI * x) / radius)) * cutoff;
+  }
+
+  for (let n = 0; n < outLength; n++) {
+    const position = n * ratio;
+    const centre = Math.floor(position);
+    let sum = 0;
+    for (let i = Math.max(0, centre - radius + 1); i <= Math.min(samples.length - 1, centre + radius); i++) {
+      const t = Math.abs(position - i) * KERNEL_TABLE_RESOLUTION;
+      const j = Math.floor(t);
+      sum += samples[i] * (table[j] + (table[j + 1] - table[j]) * (t - j));
+    }
+    out[n] = sum;
+  }
+  return out;
+};
+
+/** Changes tempo and pitch independently; the result is length / tempo samples long. */
+export const stretchChannels = (channels: Float32Array[], sampleRate: number, { tempo, semitones, onProgress }: TimeStretchOptions): Float32Array[] => {
+  if (isIdentityStretch(tempo, semitones)) return channels.map(c => c.slice());
+  const pitchRatio = semitonesToRatio(semitones);
+  const outLength = Math.max(1, Math.round(channels[0].length / tempo));
+
+  if (pitchRatio === 1) return wsolaStretch(channels, sampleRate, 1 / tempo, onProgress);
+
+  // Stretching takes most of the time, so it gets most of the progress bar
+  const stretched = wsolaStretch(channels, sampleRate, pitchRatio / tempo, f => onProgress?.(f * 0.8));
+  return stretched.map((channel, c) => {
+    const out = resample(channel, pitchRatio, outLength);
+    onProgress?.(0.8 + (0.2 * (c + 1)) / stretched.length);
+    return out;
+  });
+};
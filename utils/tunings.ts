@@ -0,0 +1,90 @@
+import { noteToFrequency, noteToMidi } from './pitchDetection';
+
+export type InstrumentId = 'GUITAR_6' | 'GUITAR_7' | 'GUITAR_8' | 'BASS_4' | 'BASS_5' | 'UKULELE';
+
+export interface Instrument {
+  id: InstrumentId;
+  label: string;
+  stringCount: number;
+}
+
+export interface Tuning {
+  id: string;
+  name: string;
+  instrument: InstrumentId;
+  notes: string[]; // Lowest string first, scientific pitch notation
+  custom?: boolean;
+}
+
+export const A4_MIN = 415;
+export const A4_MAX = 466;
+export const A4_DEFAULT = 440;
+
+export const INSTRUMENTS: Instrument[] = [
+  { id: 'GUITAR_6', label: 'Guitar', stringCount: 6 },
+  { id: 'GUITAR_7', label: '7-String', stringCount: 7 },
+  { id: 'GUITAR_8', label: '8-String', stringCount: 8 },
+  { id: 'BASS_4', label: 'Bass', stringCount: 4 },
+  { id: 'BASS_5', label: '5-String Bass', stringCount: 5 },
+  { id: 'UKULELE', label: 'Ukulele', stringCount: 4 },
+];
+
+export const PRESET_TUNINGS: Tuning[] = [
+  { id: 'standard', name: 'Standard', instrument: 'GUITAR_6', notes: ['E2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'drop-d', name: 'Drop D', instrument: 'GUITAR_6', notes: ['D2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'half-step-down', name: 'Half-Step Down', instrument: 'GUITAR_6', notes: ['Eb2', 'Ab2', 'Db3', 'Gb3', 'Bb3', 'Eb4'] },
+  { id: 'dadgad', name: 'DADGAD', instrument: 'GUITAR_6', notes: ['D2', 'A2', 'D3', 'G3', 'A3', 'D4'] },
+  { id: 'open-g', name: 'Open G', instrument: 'GUITAR_6', notes: ['D2', 'G2', 'D3', 'G3', 'B3', 'D4'] },
+  { id: 'open-d', name: 'Open D', instrument: 'GUITAR_6', notes: ['D2', 'A2', 'D3', 'F#3', 'A3', 'D4'] },
+  { id: 'seven-standard', name: 'Standard', instrument: 'GUITAR_7', notes: ['B1', 'E2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'seven-drop-a', name: 'Drop A', instrument: 'GUITAR_7', notes: ['A1', 'E2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'eight-standard', name: 'Standard', instrument: 'GUITAR_8', notes: ['F#1', 'B1', 'E2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'eight-drop-e', name: 'Drop E', instrument: 'GUITAR_8', notes: ['E1', 'B1', 'E2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'bass-standard', name: 'Standard', instrument: 'BASS_4', notes: ['E1', 'A1', 'D2', 'G2'] },
+  { id: 'bass-drop-d', name: 'Drop D', instrument: 'BASS_4', notes: ['D1', 'A1', 'D2', 'G2'] },
+  { id: 'bass5-standard', name: 'Standard', instrument: 'BASS_5', notes: ['B0', 'E1', 'A1', 'D2', 'G2'] },
+  { id: 'ukulele-standard', name: 'Standard (GCEA)', instrument: 'UKULELE', notes: ['G4', 'C4', 'E4', 'A4'] },
+  { id: 'ukulele-low-g', name: 'Low G', instrument: 'UKULELE', notes: ['G3', 'C4', 'E4', 'A4'] },
+];
+
+const CUSTOM_TUNINGS_KEY = 'vs_custom_tunings';
+
+export const isValidNote = (note: string) => {
+  try {
+    noteToMidi(note);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Parses user input such as "D2 A2 D3 G3 B3 E4" (or comma separated) into note names, or null if any is invalid. */
+export const parseTuningNotes = (input: string): string[] | null => {
+  const notes = input.split(/[\s,]+/).filter(Boolean);
+  return notes.length && notes.every(isValidNote) ? notes : null;
+};
+
+export const loadCustomTunings = (): Tuning[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_TUNINGS_KEY) || '[]');
+    return Array.isArray(saved)
+      ? saved.filter((t: Tuning) => t && t.id && t.name && Array.isArray(t.notes) && t.notes.every(isValidNote)).map((t: Tuning) => ({ ...t, custom: true }))
+      : [];
+  } catch (err) {
+    console.error("Custom tunings unreadable", err);
+    return [];
+  }
+};
+
+export const saveCustomTunings = (tunings: Tuning[]) => {
+  localStorage.setItem(CUSTOM_TUNINGS_KEY, JSON.stringify(tunings));
+};
+
+/** Detector search range that comfortably brackets every string of a tuning. */
+export const getFrequencyRange = (notes: string[], a4 = A4_DEFAULT) => {
+  const frequencies = notes.map(n => noteToFrequency(n, a4));
+  return {
+    minFrequency: Math.max(25, Math.min(...frequencies) * 0.7),
+    maxFrequency: Math.max(...frequencies) * 1.5,
+  };
+};
@@ -0,0 +1,143 @@
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavCue {
+  frame: number; // Sample frame the cue points at
+  label: string;
+}
+
+export interface WavEncodeOptions {
+  bitDepth: WavBitDepth; // 16/24 are integer PCM, 32 is IEEE float
+  dither?: boolean; // TPDF dither before integer quantisation
+  cues?: WavCue[]; // Written as a 'cue ' chunk with 'labl' names in a LIST/adtl chunk
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+/** Triangular PDF noise spanning +/- 1 LSB. */
+const tpdf = () => Math.random() - Math.random();
+
+const encodeLabel = (label: string) => Array.from(label, ch => (ch.charCodeAt(0) < 128 ? ch : '?')).join('');
+
+/** Bytes of the cue and LIST/adtl chunks, headers included; chunks are padded to even lengths. */
+const cueChunksSize = (cues: WavCue[]) => {
+  if (!cues.length) return 0;
+  const labels = cues.reduce((size, cue) => {
+    const body = 4 + encodeLabel(cue.label).length + 1;
+    return size + 8 + body + (body % 2);
+  }, 0);
+  return 8 + 4 + cues.length * 24 + 8 + 4 + labels;
+};
+
+const writeCueChunks = (view: DataView, offset: number, cues: WavCue[]) => {
+  writeAscii(view, offset, 'cue ');
+  view.setUint32(offset + 4, 4 + cues.length * 24, true);
+  view.setUint32(offset + 8, cues.length, true);
+  offset += 12;
+  cues.forEach((cue, i) => {
+    view.setUint32(offset, i + 1, true); // Cue id
+    view.setUint32(offset + 4, cue.frame, true); // Position in play order
+    writeAscii(view, offset + 8, 'data');
+    view.setUint32(offset + 12, 0, true); // Chunk start
+    view.setUint32(offset + 16, 0, true); // Block start
+    view.setUint32(offset + 20, cue.frame, true); // Sample offset
+    offset += 24;
+  });
+
+  const listStart = offset;
+  writeAscii(view, offset, 'LIST');
+  offset += 8;
+  writeAscii(view, offset, 'adtl');
+  offset += 4;
+  cues.forEach((cue, i) => {
+    const text = encodeLabel(cue.label);
+    const body = 4 + text.length + 1;
+    writeAscii(view, offset, 'labl');
+    view.setUint32(offset + 4, body, true);
+    view.setUint32(offset + 8, i + 1, true);
+    writeAscii(view, offset + 12, text);
+    view.setUint8(offset + 12 + text.length, 0);
+    offset += 8 + body + (body % 2);
+  });
+  view.setUint32(listStart + 4, offset - listStart - 8, true);
+};
+
+/**
+ * Encodes planar float channels as a RIFF/WAVE file. Integer formats are clipped to
+ * full scale; float output is written as-is so overs survive for later processing.
+ */
+export const encodeWav = (channels: Float32Array[], sampleRate: number, { bitDepth, dither = false, cues = [] }: WavEncodeOptions): Blob => {
+  const channelCount = channels.length;
+  const frames = channels[0]?.length || 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = frames * blockAlign;
+  const isFloat = bitDepth === 32;
+  // Non-PCM formats carry a fact chunk with the frame count
+  const factSize = isFloat ? 12 : 0;
+  const headerSize = 12 + 24 + factSize + 8;
+  // Cue chunks follow the data chunk, which needs a pad byte when its length is odd
+  const dataPad = dataSize % 2;
+  const validCues = cues.filter(cue => cue.frame >= 0 && cue.frame <= frames).sort((a, b) => a.frame - b.frame);
+  const totalSize = headerSize + dataSize + (validCues.length ? dataPad + cueChunksSize(validCues) : 0);
+
+  const buffer = new ArrayBuffer(totalSize);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, totalSize - 8, true);
+  writeAscii(view, 8, 'WAVE');
+
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  let offset = 36;
+  if (isFloat) {
+    writeAscii(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, frames, true);
+    offset += factSize;
+  }
+
+  writeAscii(view, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  const maxInt = Math.pow(2, bitDepth - 1) - 1;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const sample = channels[c][i];
+      if (isFloat) {
+        view.setFloat32(offset, sample, true);
+      } else {
+        let scaled = sample * maxInt + (dither ? tpdf() : 0);
+        scaled = Math.max(-maxInt - 1, Math.min(maxInt, Math.round(scaled)));
+        if (bitDepth === 16) {
+          view.setInt16(offset, scaled, true);
+        } else {
+          view.setUint8(offset, scaled & 0xff);
+          view.setUint8(offset + 1, (scaled >> 8) & 0xff);
+          view.setUint8(offset + 2, (scaled >> 16) & 0xff);
+        }
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  if (validCues.length) writeCueChunks(view, offset + dataPad, validCues);
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export const audioBufferToChannels = (buffer: AudioBuffer) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
@@ -0,0 +1,83 @@
+export interface PeakLevel {
+  samplesPerPeak: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  length: number; // Source length in samples
+  levels: PeakLevel[]; // Finest resolution first
+}
+
+export interface PeakBar {
+  min: number; // -1 to 1
+  max: number; // -1 to 1
+}
+
+const BASE_SAMPLES_PER_PEAK = 256;
+const MIN_PEAKS_PER_LEVEL = 64;
+
+/**
+ * Builds a min/max pyramid: level 0 summarises every 256 samples across all channels,
+ * and each following level halves the resolution of the previous one.
+ */
+export const buildPeakPyramid = (channels: Float32Array[], sampleRate: number): WaveformPeaks => {
+  const length = channels.reduce((acc, c) => Math.max(acc, c.length), 0);
+  const baseCount = Math.ceil(length / BASE_SAMPLES_PER_PEAK);
+  const min = new Float32Array(baseCount);
+  const max = new Float32Array(baseCount);
+
+  for (let p = 0; p < baseCount; p++) {
+    const start = p * BASE_SAMPLES_PER_PEAK;
+    const end = Math.min(length, start + BASE_SAMPLES_PER_PEAK);
+    let lo = 0;
+    let hi = 0;
+    for (const data of channels) {
+      for (let i = start; i < end && i < data.length; i++) {
+        const v = data[i];
+        if (v < lo) lo = v;
+        if (v > hi) hi = v;
+      }
+    }
+    min[p] = lo;
+    max[p] = hi;
+  }
+
+  const levels: PeakLevel[] = [{ samplesPerPeak: BASE_SAMPLES_PER_PEAK, min, max }];
+  let prev = levels[0];
+  while (prev.min.length > MIN_PEAKS_PER_LEVEL) {
+    const count = Math.ceil(prev.min.length / 2);
+    const next: PeakLevel = { samplesPerPeak: prev.samplesPerPeak * 2, min: new Float32Array(count), max: new Float32Array(count) };
+    for (let p = 0; p < count; p++) {
+      const a = p * 2;
+      const b = Math.min(a + 1, prev.min.length - 1);
+      next.min[p] = Math.min(prev.min[a], prev.min[b]);
+      next.max[p] = Math.max(prev.max[a], prev.max[b]);
+    }
+    levels.push(next);
+    prev = next;
+  }
+
+  return { sampleRate, length, levels };
+};
+
+/** Resamples the pyramid to a fixed number of bars, reading from the finest level that is still coarser than one bar. */
+export const selectPeakBars = (peaks: WaveformPeaks, barCount: number): PeakBar[] => {
+  if (barCount <= 0 || peaks.length === 0) return [];
+  const samplesPerBar = peaks.length / barCount;
+  const level = [...peaks.levels].reverse().find(l => l.samplesPerPeak <= samplesPerBar) || peaks.levels[0];
+  const peaksPerBar = samplesPerBar / level.samplesPerPeak;
+
+  return Array.from({ length: barCount }, (_, bar) => {
+    const start = Math.floor(bar * peaksPerBar);
+    const end = Math.max(start + 1, Math.min(level.min.length, Math.floor((bar + 1) * peaksPerBar)));
+    let lo = 0;
+    let hi = 0;
+    for (let p = start; p < end && p < level.min.length; p++) {
+      if (level.min[p] < lo) lo = level.min[p];
+      if (level.max[p] > hi) hi = level.max[p];
+    }
+    return { min: lo, max: hi };
+  });
+};
@@ -0,0 +1,41 @@
+/// <reference lib="webworker" />
+import { TempoEstimate, detectTempo, mixToMono } from '../utils/tempoDetection';
+import { computeChromagram } from '../utils/chroma';
+import { KeyEstimate, detectKey } from '../utils/keyDetection';
+import { recognizeChords } from '../utils/chordRecognition';
+import { ChordSegment } from '../types';
+
+export interface AnalysisRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export interface AudioAnalysis {
+  tempo: TempoEstimate;
+  key: KeyEstimate;
+  chords: ChordSegment[];
+}
+
+export type AnalysisMessage =
+  | { type: 'progress'; stage: string }
+  | { type: 'done'; analysis: AudioAnalysis }
+  | { type: 'error'; message: string };
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (e: MessageEvent<AnalysisRequest>) => {
+  const { channels, sampleRate } = e.data;
+  try {
+    const mono = mixToMono(channels);
+    self.postMessage({ type: 'progress', stage: 'TEMPO' } as AnalysisMessage);
+    const tempo = detectTempo(mono, sampleRate);
+    self.postMessage({ type: 'progress', stage: 'KEY' } as AnalysisMessage);
+    const chromagram = computeChromagram(mono, sampleRate);
+    const key = detectKey(chromagram);
+    self.postMessage({ type: 'progress', stage: 'CHORD' } as AnalysisMessage);
+    const chords = recognizeChords(chromagram, { key: key.key, duration: mono.length / sampleRate });
+    self.postMessage({ type: 'done', analysis: { tempo, key, chords } } as AnalysisMessage);
+  } catch (err: unknown) {
+    self.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) } as AnalysisMessage);
+  }
+};
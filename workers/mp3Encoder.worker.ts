@@ -0,0 +1,54 @@
+/// <reference lib="webworker" />
+import { createMp3Encoder } from 'wasm-media-encoders';
+
+export type Mp3RateControl = { mode: 'CBR'; bitrate: 128 | 192 | 256 | 320 } | { mode: 'VBR'; quality: number };
+
+export interface Mp3EncodeRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  rateControl: Mp3RateControl;
+  id3Tag?: Uint8Array;
+}
+
+export type Mp3EncodeMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; data: ArrayBuffer }
+  | { type: 'error'; message: string };
+
+const CHUNK_FRAMES = 1152 * 64;
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = async (e: MessageEvent<Mp3EncodeRequest>) => {
+  const { channels, sampleRate, rateControl, id3Tag } = e.data;
+  try {
+    const encoder = await createMp3Encoder();
+    encoder.configure({
+      channels: channels.length === 1 ? 1 : 2,
+      sampleRate,
+      ...(rateControl.mode === 'CBR' ? { bitrate: rateControl.bitrate } : { vbrQuality: rateControl.quality }),
+    });
+
+    const input = channels.slice(0, 2);
+    const length = input[0].length;
+    const parts: Uint8Array[] = id3Tag ? [id3Tag] : [];
+
+    for (let start = 0; start < length; start += CHUNK_FRAMES) {
+      const end = Math.min(length, start + CHUNK_FRAMES);
+      // The encoder reuses its output buffer, so each chunk is copied out
+      parts.push(encoder.encode(input.map(c => c.subarray(start, end))).slice());
+      self.postMessage({ type: 'progress', fraction: end / length } as Mp3EncodeMessage);
+    }
+    parts.push(encoder.finalize().slice());
+
+    const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    self.postMessage({ type: 'done', data: out.buffer } as Mp3EncodeMessage, [out.buffer]);
+  } catch (err: unknown) {
+    self.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) } as Mp3EncodeMessage);
+  }
+};
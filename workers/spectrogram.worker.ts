@@ -0,0 +1,14 @@
+/// <reference lib="webworker" />
+import { computeSpectrogram } from '../utils/spectrogram';
+
+export interface SpectrogramRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (e: MessageEvent<SpectrogramRequest>) => {
+  const spectrogram = computeSpectrogram(e.data.channels, e.data.sampleRate);
+  self.postMessage(spectrogram, [spectrogram.levels.buffer]);
+};
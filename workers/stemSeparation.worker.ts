@@ -0,0 +1,29 @@
+/// <reference lib="webworker" />
+import { SEPARATED_STEMS, SeparationResult, separateStems } from '../utils/stemSeparation';
+
+export interface SeparationRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  strength: number;
+}
+
+export type SeparationMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; stems: SeparationResult }
+  | { type: 'error'; message: string };
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (e: MessageEvent<SeparationRequest>) => {
+  const { channels, sampleRate, strength } = e.data;
+  try {
+    const stems = separateStems(channels, sampleRate, {
+      strength,
+      onProgress: fraction => self.postMessage({ type: 'progress', fraction } as SeparationMessage),
+    });
+    const transfer = SEPARATED_STEMS.flatMap(stem => stems[stem].map(c => c.buffer));
+    self.postMessage({ type: 'done', stems } as SeparationMessage, transfer);
+  } catch (err: unknown) {
+    self.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) } as SeparationMessage);
+  }
+};
@@ -0,0 +1,29 @@
+/// <reference lib="webworker" />
+import { mixToMono } from '../utils/tempoDetection';
+import { StructureSection, detectStructure } from '../utils/structureDetection';
+
+export interface StructureRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  downbeats: number[];
+}
+
+export type StructureMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; sections: StructureSection[] }
+  | { type: 'error'; message: string };
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (e: MessageEvent<StructureRequest>) => {
+  const { channels, sampleRate, downbeats } = e.data;
+  try {
+    const sections = detectStructure(mixToMono(channels), sampleRate, {
+      downbeats,
+      onProgress: fraction => self.postMessage({ type: 'progress', fraction } as StructureMessage),
+    });
+    self.postMessage({ type: 'done', sections } as StructureMessage);
+  } catch (err: unknown) {
+    self.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) } as StructureMessage);
+  }
+};
@@ -0,0 +1,30 @@
+/// <reference lib="webworker" />
+import { stretchChannels } from '../utils/timeStretch';
+
+export interface TimeStretchRequest {
+  buffers: Float32Array[][]; // Channels per buffer
+  sampleRate: number;
+  tempo: number;
+  semitones: number;
+}
+
+export type TimeStretchMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; buffers: Float32Array[][] }
+  | { type: 'error'; message: string };
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (e: MessageEvent<TimeStretchRequest>) => {
+  const { buffers, sampleRate, tempo, semitones } = e.data;
+  try {
+    const stretched = buffers.map((channels, i) => stretchChannels(channels, sampleRate, {
+      tempo,
+      semitones,
+      onProgress: fraction => self.postMessage({ type: 'progress', fraction: (i + fraction) / buffers.length } as TimeStretchMessage),
+    }));
+    self.postMessage({ type: 'done', buffers: stretched } as TimeStretchMessage, stretched.flatMap(channels => channels.map(c => c.buffer)));
+  } catch (err: unknown) {
+    self.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) } as TimeStretchMessage);
+  }
+};
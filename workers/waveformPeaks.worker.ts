@@ -0,0 +1,15 @@
+/// <reference lib="webworker" />
+import { buildPeakPyramid } from '../utils/waveformPeaks';
+
+export interface PeaksRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (e: MessageEvent<PeaksRequest>) => {
+  const peaks = buildPeakPyramid(e.data.channels, e.data.sampleRate);
+  const transfer = peaks.levels.flatMap(l => [l.min.buffer, l.max.buffer]);
+  self.postMessage(peaks, transfer);
+};